@@ -1,4 +0,0 @@
-// Re-exports for backward compatibility
-export { RealtorCaScraper, PropertyData } from "./scraper";
-export { scrapeFromListingsPage } from "./workflow";
-export { saveToCSV, saveToJSON, generateTimestamp } from "./utils";
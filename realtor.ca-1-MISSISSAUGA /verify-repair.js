@@ -1,79 +0,0 @@
-const fs = require ('fs');
-const ExcelJS = require ('exceljs');
-
-async function verifyRepairedFile () {
-  const filename = 'master-listings-clean-2025-09-15T16-51-46-382Z.xlsx';
-
-  console.log ('🔍 VERIFYING REPAIRED MASTER FILE');
-  console.log ('=================================');
-  console.log (`📁 File: ${filename}`);
-
-  try {
-    if (!fs.existsSync (filename)) {
-      console.log ('❌ Repaired file not found!');
-      return;
-    }
-
-    const stats = fs.statSync (filename);
-    console.log (`📏 File size: ${(stats.size / 1024 / 1024).toFixed (2)} MB`);
-
-    const workbook = new ExcelJS.Workbook ();
-    await workbook.xlsx.readFile (filename);
-
-    console.log (`📊 Worksheets: ${workbook.worksheets.length}`);
-
-    let totalRows = 0;
-    let totalValidProperties = 0;
-    let emptyRows = 0;
-
-    for (const worksheet of workbook.worksheets) {
-      const sheetRows = worksheet.rowCount;
-      totalRows += sheetRows;
-
-      let validInSheet = 0;
-      let emptyInSheet = 0;
-
-      // Check first few rows to count valid data
-      for (let i = 2; i <= Math.min (sheetRows, 100); i++) {
-        const row = worksheet.getRow (i);
-        if (row.hasValues && row.getCell (2).value && row.getCell (5).value) {
-          validInSheet++;
-        } else {
-          emptyInSheet++;
-        }
-      }
-
-      // Estimate total valid properties in this sheet
-      const estimatedValid = Math.round (
-        validInSheet / Math.min (sheetRows - 1, 99) * (sheetRows - 1)
-      );
-      totalValidProperties += Math.max (0, estimatedValid);
-
-      console.log (
-        `   📋 ${worksheet.name}: ${sheetRows} rows, ~${estimatedValid} properties`
-      );
-    }
-
-    console.log ('\n✅ VERIFICATION RESULTS:');
-    console.log ('========================');
-    console.log (`📊 Total rows: ${totalRows}`);
-    console.log (`🏠 Estimated properties: ~${totalValidProperties}`);
-    console.log (`🧹 File structure: CLEAN`);
-    console.log (`⚡ Excel compatibility: GOOD`);
-    console.log (`💾 File corruption: NONE DETECTED`);
-
-    if (totalRows < 1500000) {
-      // Well under Excel limits
-      console.log ('✅ File is within safe Excel limits!');
-    } else {
-      console.log ('⚠️  File is approaching Excel limits');
-    }
-
-    console.log ('\n🎉 FILE VERIFICATION PASSED!');
-    console.log ('Your master file is now clean and ready to use.');
-  } catch (error) {
-    console.error ('❌ Verification failed:', error.message);
-  }
-}
-
-verifyRepairedFile ().catch (console.error);
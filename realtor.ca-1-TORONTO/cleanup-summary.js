@@ -1,49 +0,0 @@
-const fs = require ('fs');
-
-function cleanupOldFiles () {
-  console.log ('🧹 CLEANUP OLD CORRUPTED FILES');
-  console.log ('==============================');
-
-  const filesToRemove = [
-    'simple-repair.js',
-    'verify-repair.js',
-    'fix-corrupted-master.ts',
-  ];
-
-  const filesToKeep = [
-    'master-listings-clean-2025-09-15T16-51-46-382Z.xlsx', // The repaired file
-    'backup-2025-09-15T16-51-46-047Z-master-listings1111.xlsx', // The backup
-  ];
-
-  console.log ('📁 Files to keep:');
-  filesToKeep.forEach (file => {
-    if (fs.existsSync (file)) {
-      console.log (`   ✅ ${file}`);
-    }
-  });
-
-  console.log ('\n🗑️  Optional cleanup (you can run these manually):');
-  console.log ('   rm master-listings1111.xlsx  # Original corrupted file');
-  console.log (
-    '   rm master-listings-rebuilt-*.xlsx  # Any test rebuild files'
-  );
-
-  console.log ('\n📝 SUMMARY:');
-  console.log ('==========');
-  console.log ('✅ Your master file has been successfully repaired!');
-  console.log ('✅ File size reduced from >1GB to 0.10MB');
-  console.log ('✅ All 1,131 valid properties preserved');
-  console.log ("✅ No more 'too many rows' errors");
-  console.log ('✅ Excel compatibility restored');
-  console.log ('✅ Automatic corruption prevention added');
-
-  console.log ('\n🎯 NEXT STEPS:');
-  console.log ('1. Test opening the repaired file in your Excel software');
-  console.log ('2. Update any scripts to use the new filename');
-  console.log ('3. Your scraper now has built-in corruption prevention');
-  console.log (
-    '4. Automatic backups will be created before file modifications'
-  );
-}
-
-cleanupOldFiles ();
@@ -0,0 +1,16 @@
+import { defineConfig } from "@playwright/test";
+
+// Extraction tests block every request of their page themselves; the mock
+// server and HAR specs need the scraper's own contexts to reach localhost
+export default defineConfig({
+  testDir: "./tests",
+  fullyParallel: false,
+  workers: 1,
+  reporter: "list",
+  use: {
+    browserName: "chromium",
+    headless: true,
+    // Prices are formatted with toLocaleString()
+    locale: "en-US",
+  },
+});
@@ -1,16 +1,326 @@
-import { Browser, Page } from "playwright";
-import { ScrapingConfig, BrowserConfig, TimingConfig } from "./config";
+import { Browser, BrowserContext, Page } from "playwright";
+import {
+  ScrapingConfig,
+  BrowserConfig,
+  TimingConfig,
+  SearchCriteria,
+  BuildingType,
+  OwnershipType,
+  SearchSort,
+  TransactionType,
+} from "./config";
 import { CityApiConfig } from "./city-geoid-finder";
+import {
+  PropertyData,
+  ExtendedPropertyData,
+  extractListingIdFromUrl,
+} from "./scraper";
+import { getCurrentDate } from "./utils";
+import {
+  HarReplayError,
+  findHarResponse,
+  isHarReplay,
+  newHarContext,
+} from "./har";
+import {
+  getCoordinateBounds,
+  getProvinceCodeFromPostal,
+  getProvinceCodeFromUrl,
+  getProvinceName,
+  toProvinceCode,
+  CoordinateBounds,
+} from "./provinces";
+import {
+  chooseCoordinates,
+  getSearchBounds,
+  toCoordinateCandidate,
+} from "./coordinates";
+import { formatPrice } from "./normalize";
+
+// realtor.ca search API identifiers for the SearchCriteria options
+const BUILDING_TYPE_IDS: { [type in BuildingType]: string } = {
+  house: "1",
+  duplex: "2",
+  triplex: "3",
+  mobile: "6",
+  townhouse: "16",
+  condo: "17",
+  fourplex: "19",
+};
+
+const OWNERSHIP_TYPE_GROUP_IDS: { [type in OwnershipType]: string } = {
+  freehold: "1",
+  condo: "2",
+  timeshare: "3",
+  leasehold: "4",
+};
+
+const SORT_CODES: { [sort in SearchSort]: string } = {
+  newest: "6-D",
+  oldest: "6-A",
+  "price-asc": "1-A",
+  "price-desc": "1-D",
+};
+
+/**
+ * Translate search criteria into PropertySearch_Post form fields. Fields for
+ * unset criteria are left out so the API applies no filter.
+ */
+export function buildSearchFormFields(criteria: SearchCriteria): {
+  [field: string]: string;
+} {
+  const isRent = criteria.transactionType === "rent";
+  const fields: { [field: string]: string } = {
+    Sort: SORT_CODES[criteria.sort || "newest"],
+    TransactionTypeId: isRent ? "3" : "2",
+  };
+
+  // Rentals are filtered on monthly rent instead of list price
+  const [minField, maxField] = isRent
+    ? ["RentMin", "RentMax"]
+    : ["PriceMin", "PriceMax"];
+  if (criteria.minPrice !== undefined) {
+    fields[minField] = criteria.minPrice.toString();
+  }
+  if (criteria.maxPrice !== undefined) {
+    fields[maxField] = criteria.maxPrice.toString();
+  }
+
+  // Ranges are "min-max" where 0 means unbounded, e.g. "2-0" is 2 or more
+  if (criteria.minBedrooms !== undefined || criteria.maxBedrooms !== undefined) {
+    fields.BedRange = `${criteria.minBedrooms || 0}-${criteria.maxBedrooms || 0}`;
+  }
+  if (
+    criteria.minBathrooms !== undefined ||
+    criteria.maxBathrooms !== undefined
+  ) {
+    fields.BathRange = `${criteria.minBathrooms || 0}-${
+      criteria.maxBathrooms || 0
+    }`;
+  }
+
+  if (criteria.buildingType) {
+    fields.BuildingTypeId = BUILDING_TYPE_IDS[criteria.buildingType];
+  }
+  if (criteria.ownershipType) {
+    fields.OwnershipTypeGroupId =
+      OWNERSHIP_TYPE_GROUP_IDS[criteria.ownershipType];
+  }
+
+  return fields;
+}
+
+/**
+ * One-line summary of search criteria for logs, e.g.
+ * "sale, condo, $0-$700,000, 2+ beds"
+ */
+export function describeSearchCriteria(criteria: SearchCriteria): string {
+  const parts: string[] = [criteria.transactionType || "sale"];
+
+  if (criteria.buildingType) parts.push(criteria.buildingType);
+  if (criteria.ownershipType) parts.push(`${criteria.ownershipType} ownership`);
+  if (criteria.minPrice !== undefined || criteria.maxPrice !== undefined) {
+    const min = `$${(criteria.minPrice || 0).toLocaleString()}`;
+    const max =
+      criteria.maxPrice !== undefined
+        ? `$${criteria.maxPrice.toLocaleString()}`
+        : "";
+    parts.push(max ? `${min}-${max}` : `${min}+`);
+  }
+
+  const describeRange = (label: string, min?: number, max?: number) => {
+    if (min === undefined && max === undefined) return;
+    if (max === undefined) parts.push(`${min}+ ${label}`);
+    else if (min === undefined || min === 0) parts.push(`up to ${max} ${label}`);
+    else parts.push(min === max ? `${min} ${label}` : `${min}-${max} ${label}`);
+  };
+  describeRange("beds", criteria.minBedrooms, criteria.maxBedrooms);
+  describeRange("baths", criteria.minBathrooms, criteria.maxBathrooms);
+
+  if (criteria.sort && criteria.sort !== "newest") {
+    parts.push(`sorted ${criteria.sort}`);
+  }
+
+  return parts.join(", ");
+}
+
+// Subset of a PropertySearch_Post "Results" entry used for API-only extraction
+export interface ApiListingResult {
+  Id?: string;
+  MlsNumber?: string;
+  RelativeDetailsURL?: string;
+  PostalCode?: string;
+  ProvinceName?: string;
+  PublicRemarks?: string;
+  Individual?: {
+    Name?: string;
+    Organization?: { Name?: string };
+  }[];
+  Building?: {
+    Bedrooms?: string;
+    BathroomTotal?: string;
+    SizeInterior?: string;
+    StoriesTotal?: string;
+    Type?: string;
+  };
+  Land?: {
+    SizeTotal?: string;
+  };
+  Property?: {
+    Price?: string;
+    PriceUnformattedValue?: string;
+    LeaseRent?: string;
+    LeaseRentUnformattedValue?: string;
+    Type?: string;
+    Parking?: { Name?: string }[];
+    Photo?: { HighResPath?: string }[];
+    Address?: {
+      AddressText?: string;
+      Latitude?: string;
+      Longitude?: string;
+    };
+  };
+}
+
+/**
+ * Map a single API search result straight into PropertyData, using the same
+ * formatting as the detail-page scraper. Fields the API does not return are
+ * set to "N/A"; listing details it does not return are left out. The
+ * province falls back to the postal code, then to the city's province.
+ */
+export function mapApiResultToPropertyData(
+  result: ApiListingResult,
+  transactionType: TransactionType = "sale",
+  cityProvinceCode: string | null = null
+): ExtendedPropertyData {
+  // AddressText looks like "123 Main Street|Toronto (Downtown), Ontario M5V1A1"
+  const addressText = result.Property?.Address?.AddressText || "";
+  const [streetPart = "", localityPart = ""] = addressText.split("|");
+  const city = localityPart.split(",")[0]?.trim();
+
+  const postalSource =
+    result.PostalCode || localityPart.match(/[A-Z]\d[A-Z]\s?\d[A-Z]\d/i)?.[0];
+  const postal = postalSource
+    ? postalSource.replace(/\s/g, "").toUpperCase()
+    : "";
+
+  const realtor = result.Individual?.[0];
+
+  // Rentals carry the monthly rent in the LeaseRent fields instead of Price
+  const isRent = transactionType === "rent";
+  const unformattedPrice = parseFloat(
+    (isRent
+      ? result.Property?.LeaseRentUnformattedValue
+      : result.Property?.PriceUnformattedValue) || ""
+  );
+  const price = !isNaN(unformattedPrice)
+    ? formatPrice(unformattedPrice)
+    : (isRent ? result.Property?.LeaseRent : result.Property?.Price) || "";
+
+  const provinceCode =
+    toProvinceCode(result.ProvinceName || "") ||
+    getProvinceCodeFromPostal(postal) ||
+    cityProvinceCode;
+
+  // Checked against the province only; the scraper checks the city's box
+  const coordinates = chooseCoordinates(
+    [
+      toCoordinateCandidate(
+        result.Property?.Address?.Latitude,
+        result.Property?.Address?.Longitude,
+        "api"
+      ),
+    ],
+    null,
+    getCoordinateBounds(provinceCode)
+  );
+
+  const property: ExtendedPropertyData = {
+    DATE: getCurrentDate(),
+    ADDRESS: streetPart.trim() || "N/A",
+    CITY: city || "N/A",
+    STATE: getProvinceName(provinceCode),
+    POSTAL: postal || "N/A",
+    AGENT: realtor?.Name?.trim().toUpperCase() || "N/A",
+    BROKER: realtor?.Organization?.Name?.trim().toUpperCase() || "N/A",
+    PRICE: price || "N/A",
+    LATITUDE: coordinates.LATITUDE,
+    LONGITUDE: coordinates.LONGITUDE,
+    COORDINATE_SOURCE: coordinates.COORDINATE_SOURCE,
+    COORDINATE_CONFIDENCE: coordinates.COORDINATE_CONFIDENCE,
+  };
+
+  // Search results carry no lease term; the detail-page fallback fills it
+  if (isRent) {
+    property.LEASE_TERM = "N/A";
+  }
+
+  property.LISTING_ID =
+    result.Id?.toString() ||
+    extractListingIdFromUrl(result.RelativeDetailsURL || "") ||
+    "N/A";
+  property.MLS_NUMBER = result.MlsNumber?.trim() || "N/A";
+
+  // Listing details; annual taxes, maintenance fees and the year built are
+  // only shown on the detail page
+  const details: [keyof ExtendedPropertyData, string | undefined][] = [
+    ["BEDROOMS", result.Building?.Bedrooms],
+    ["BATHROOMS", result.Building?.BathroomTotal],
+    ["SQUARE_FEET", result.Building?.SizeInterior],
+    ["LAND_SIZE", result.Land?.SizeTotal],
+    ["PROPERTY_TYPE", result.Property?.Type],
+    ["BUILDING_TYPE", result.Building?.Type],
+    ["STOREYS", result.Building?.StoriesTotal],
+    [
+      "PARKING",
+      result.Property?.Parking?.map((parking) => parking.Name)
+        .filter(Boolean)
+        .join(", "),
+    ],
+    ["DESCRIPTION", result.PublicRemarks],
+    [
+      "PHOTO_URLS",
+      result.Property?.Photo?.map((photo) => photo.HighResPath)
+        .filter(Boolean)
+        .join(" "),
+    ],
+  ];
+  for (const [field, value] of details) {
+    if (value?.trim()) {
+      property[field] = value.replace(/\s+/g, " ").trim();
+    }
+  }
+
+  return property;
+}
 
 export class RealtorApiScraper {
   private browser: Browser | null = null;
+  private context: BrowserContext | null = null;
   private page: Page | null = null;
   private cityConfig: CityApiConfig | null = null;
+  // Properties mapped from every API page fetched so far, keyed by detail URL
+  private propertiesByUrl = new Map<string, ExtendedPropertyData>();
+  // Bounding box of the listings above, recomputed when more are fetched
+  private searchBounds: CoordinateBounds | null | undefined;
+  // API pages fetched so far, to tell whether the whole search was listed
+  private pagesFetched = new Set<number>();
+  private totalPages = 0;
+  private searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA;
 
   constructor(private config = ScrapingConfig, cityConfig?: CityApiConfig) {
     this.cityConfig = cityConfig || null;
   }
 
+  // Origins from the configuration (the live site, or a mock server)
+  private get siteBaseUrl(): string {
+    return this.config.SITE_BASE_URL.replace(/\/+$/, "");
+  }
+
+  private get apiBaseUrl(): string {
+    return this.config.API_BASE_URL.replace(/\/+$/, "");
+  }
+
   /**
    * Set city configuration for API calls
    */
@@ -23,14 +333,27 @@ export class RealtorApiScraper {
   }
 
   /**
-   * Initialize the scraper with browser context
+   * Set the search filters sent with every API call
+   */
+  setSearchCriteria(searchCriteria: SearchCriteria): void {
+    this.searchCriteria = searchCriteria;
+    console.log(`🔎 Search Filters: ${describeSearchCriteria(searchCriteria)}`);
+  }
+
+  /**
+   * Initialize the scraper with its own browser context, recorded or
+   * replayed under the city URL when HAR_MODE is set
    */
-  async initialize(browser: Browser): Promise<void> {
+  async initialize(
+    browser: Browser,
+    cityUrl: string = this.cityConfig?.url || this.siteBaseUrl
+  ): Promise<void> {
     console.log("🌐 API Scraper Initialization");
     console.log("📡 Establishing session with realtor.ca...");
 
     this.browser = browser;
-    this.page = await browser.newPage();
+    this.context = await newHarContext(browser, "api", cityUrl);
+    this.page = await this.context.newPage();
 
     // Set proper user agent and other headers
     await this.page.setExtraHTTPHeaders({
@@ -41,9 +364,9 @@ export class RealtorApiScraper {
     });
 
     // First visit the main realtor.ca page to establish session
-    await this.page.goto("https://www.realtor.ca/", {
-      waitUntil: "domcontentloaded",
-      timeout: 30000,
+    await this.page.goto(`${this.siteBaseUrl}/`, {
+      waitUntil: BrowserConfig.PAGE_LOAD_STRATEGY,
+      timeout: BrowserConfig.NAVIGATION_TIMEOUT,
     });
 
     // If we have city config, visit the city page to establish proper context
@@ -52,15 +375,17 @@ export class RealtorApiScraper {
         `🏙️ Visiting ${this.cityConfig.cityName} page for session establishment...`
       );
       await this.page.goto(this.cityConfig.url, {
-        waitUntil: "domcontentloaded",
-        timeout: 30000,
+        waitUntil: BrowserConfig.PAGE_LOAD_STRATEGY,
+        timeout: BrowserConfig.NAVIGATION_TIMEOUT,
       });
     }
 
     // Try to dismiss cookie banner if present
     try {
-      await this.page.click("#TOUdismissBtn", { timeout: 2000 });
-      await this.page.waitForTimeout(1000);
+      await this.page.click("#TOUdismissBtn", {
+        timeout: BrowserConfig.COOKIE_BANNER_TIMEOUT,
+      });
+      await this.page.waitForTimeout(TimingConfig.COOKIE_BANNER_DELAY);
     } catch (e) {
       // Ignore if not found
     }
@@ -88,16 +413,15 @@ export class RealtorApiScraper {
     );
 
     try {
-      const apiUrl = "https://api2.realtor.ca/Listing.svc/PropertySearch_Post";
+      const apiUrl = `${this.apiBaseUrl}/Listing.svc/PropertySearch_Post`;
 
       // Prepare the form data
       const formData = new URLSearchParams({
         CurrentPage: page.toString(),
-        Sort: "6-D",
         GeoIds: this.cityConfig.geoId,
         PropertyTypeGroupID: "1",
-        TransactionTypeId: "2",
         PropertySearchTypeId: "1",
+        ...buildSearchFormFields(this.searchCriteria),
         Currency: "CAD",
         IncludeHiddenListings: "false",
         RecordsPerPage: "12",
@@ -110,20 +434,24 @@ export class RealtorApiScraper {
       console.log("📝 Form data:", formData.toString());
 
       // Use Playwright's request context which maintains cookies and session
-      const response = await this.page.request.post(apiUrl, {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded; charset=UTF-8",
-          Referer: "https://www.realtor.ca/",
-          Origin: "https://www.realtor.ca",
-          "Sec-Fetch-Dest": "empty",
-          "Sec-Fetch-Mode": "cors",
-          "Sec-Fetch-Site": "same-site",
-          "X-Requested-With": "XMLHttpRequest",
-          Accept: "*/*",
-          "Accept-Language": "en-US,en;q=0.5",
-        },
-        data: formData.toString(),
-      });
+      // (page routing never sees it, so a replay looks the call up itself)
+      const response = isHarReplay()
+        ? findHarResponse(this.context!, "POST", apiUrl, formData.toString())
+        : await this.page.request.post(apiUrl, {
+            headers: {
+              "Content-Type": "application/x-www-form-urlencoded; charset=UTF-8",
+              Referer: `${this.siteBaseUrl}/`,
+              Origin: this.siteBaseUrl,
+              "Sec-Fetch-Dest": "empty",
+              "Sec-Fetch-Mode": "cors",
+              "Sec-Fetch-Site": "same-site",
+              "X-Requested-With": "XMLHttpRequest",
+              Accept: "*/*",
+              "Accept-Language": "en-US,en;q=0.5",
+            },
+            // Sent as a form (not raw data) so HAR recordings keep the body
+            form: Object.fromEntries(formData),
+          });
 
       console.log(`✅ API Response status: ${response.status()}`);
 
@@ -139,6 +467,14 @@ export class RealtorApiScraper {
       console.log(`✅ Successfully fetched data for page ${page}`);
       console.log("�� Response keys:", Object.keys(data));
 
+      // Keep the listing data so detail pages don't have to be reloaded
+      this.extractProperties(data).forEach((property, url) =>
+        this.propertiesByUrl.set(url, property)
+      );
+      this.searchBounds = undefined;
+      this.pagesFetched.add(page);
+      this.totalPages = this.getTotalPages(data);
+
       return data;
     } catch (error) {
       console.error(`❌ Error fetching page ${page}:`, error);
@@ -146,6 +482,21 @@ export class RealtorApiScraper {
     }
   }
 
+  /**
+   * Check that the API accepts the current city configuration by fetching
+   * the first results page. A replay missing the call is not a rejected
+   * GeoId, so its HarReplayError is rethrown.
+   */
+  async verifyCityConfig(): Promise<boolean> {
+    try {
+      const response = await this.fetchPropertiesFromAPI(1);
+      return Array.isArray(response?.Results);
+    } catch (error) {
+      if (error instanceof HarReplayError) throw error;
+      return false;
+    }
+  }
+
   /**
    * Extract property URLs from API response
    */
@@ -158,7 +509,7 @@ export class RealtorApiScraper {
 
       for (const result of results) {
         if (result.RelativeDetailsURL) {
-          const fullUrl = `https://www.realtor.ca${result.RelativeDetailsURL}`;
+          const fullUrl = `${this.siteBaseUrl}${result.RelativeDetailsURL}`;
           urls.push(fullUrl);
         }
       }
@@ -173,6 +524,72 @@ export class RealtorApiScraper {
     }
   }
 
+  /**
+   * Map every result in an API response to PropertyData, keyed by detail URL
+   */
+  extractProperties(apiResponse: any): Map<string, ExtendedPropertyData> {
+    const properties = new Map<string, ExtendedPropertyData>();
+
+    try {
+      const results: ApiListingResult[] = apiResponse?.Results || [];
+
+      for (const result of results) {
+        if (result.RelativeDetailsURL) {
+          properties.set(
+            `${this.siteBaseUrl}${result.RelativeDetailsURL}`,
+            mapApiResultToPropertyData(
+              result,
+              this.searchCriteria.transactionType,
+              getProvinceCodeFromUrl(this.cityConfig?.url || "")
+            )
+          );
+        }
+      }
+    } catch (error) {
+      console.error("❌ Error mapping API results to properties:", error);
+    }
+
+    return properties;
+  }
+
+  /**
+   * Get the property mapped from API results for a detail URL, if it has been
+   * fetched during this session
+   */
+  getPropertyForUrl(url: string): ExtendedPropertyData | undefined {
+    return this.propertiesByUrl.get(url);
+  }
+
+  /**
+   * Bounding box of the city, from the coordinates of the search's listings
+   * fetched so far (null before any listing with coordinates)
+   */
+  getSearchBounds(): CoordinateBounds | null {
+    if (this.searchBounds === undefined) {
+      const points = [...this.propertiesByUrl.values()]
+        .filter((property) => property.COORDINATE_SOURCE === "api")
+        .map((property) => ({
+          latitude: parseFloat(property.LATITUDE),
+          longitude: parseFloat(property.LONGITUDE),
+        }));
+      this.searchBounds = getSearchBounds(points);
+    }
+    return this.searchBounds;
+  }
+
+  /**
+   * Every listing of the search, if all of its API pages were fetched during
+   * this session; undefined after a partial listing
+   */
+  getCompleteSearchResults(): PropertyData[] | undefined {
+    if (this.totalPages === 0) return undefined;
+
+    for (let page = 1; page <= this.totalPages; page++) {
+      if (!this.pagesFetched.has(page)) return undefined;
+    }
+    return [...this.propertiesByUrl.values()];
+  }
+
   /**
    * Get total number of pages available
    */
@@ -252,8 +669,10 @@ export class RealtorApiScraper {
    * Close the browser
    */
   async close(): Promise<void> {
-    if (this.page) {
-      await this.page.close();
+    // Closing the context closes the page and writes its network recording
+    if (this.context) {
+      await this.context.close();
+      this.context = null;
       this.page = null;
     }
   }
@@ -0,0 +1,285 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ScrapingConfig } from "./config";
+import { generateTimestamp, validateExcelFileHealth } from "./utils";
+
+/**
+ * Backups of master workbooks. Each workbook gets its own directory under
+ * BACKUP_DIR with backup-<timestamp>-<file name> copies and a sha256sum-style
+ * .sha256 file next to each. After every backup the workbook's backups are
+ * rotated by the retention policy.
+ *
+ * Backups written before the manager existed (flat in BACKUP_DIR, or next to
+ * the workbook after a repair) are listed and restorable but never rotated:
+ * the flat ones can't be told apart between cities with the same file name.
+ */
+
+export interface BackupRetentionPolicy {
+  keepLast: number; // Newest backups always kept
+  dailyDays: number; // Newest backup of each of the last N days
+  weeklyWeeks: number; // Newest backup of each of the last N weeks
+}
+
+export interface MasterBackup {
+  filename: string;
+  createdAt: Date;
+  sizeBytes: number;
+  managed: boolean; // Written by the manager, so checksummed and rotated
+}
+
+export type RestoreStatus =
+  | "restored"
+  | "not-found" // No backup, or the named one does not exist
+  | "invalid" // Checksum mismatch or failed health check
+  | "failed"; // Copying over the workbook failed
+
+export interface RestoreResult {
+  status: RestoreStatus;
+  backup?: string;
+  issues: string[];
+}
+
+// Backups are named backup-<generateTimestamp()>-<workbook file name>
+const BACKUP_NAME_PATTERN =
+  /^backup-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)-(.+)$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getBackupRetentionPolicy(): BackupRetentionPolicy {
+  return {
+    keepLast: ScrapingConfig.BACKUP_KEEP_LAST,
+    dailyDays: ScrapingConfig.BACKUP_KEEP_DAILY_DAYS,
+    weeklyWeeks: ScrapingConfig.BACKUP_KEEP_WEEKLY_WEEKS,
+  };
+}
+
+/**
+ * Backups a retention policy keeps: the newest keepLast, plus the newest one
+ * per day and per week (counted back from now) inside the daily and weekly
+ * windows
+ */
+export function selectBackupsToKeep(
+  backups: MasterBackup[],
+  policy: BackupRetentionPolicy,
+  now: Date = new Date()
+): Set<MasterBackup> {
+  const newestFirst = [...backups].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  );
+  const keep = new Set(newestFirst.slice(0, policy.keepLast));
+
+  const keepNewestPerPeriod = (periodDays: number, periods: number) => {
+    const seen = new Set<number>();
+    for (const backup of newestFirst) {
+      const ageMs = Math.max(0, now.getTime() - backup.createdAt.getTime());
+      const period = Math.floor(ageMs / (periodDays * DAY_MS));
+      if (period < periods && !seen.has(period)) {
+        seen.add(period);
+        keep.add(backup);
+      }
+    }
+  };
+  keepNewestPerPeriod(1, policy.dailyDays);
+  keepNewestPerPeriod(7, policy.weeklyWeeks);
+
+  return keep;
+}
+
+export function computeChecksum(filename: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(fs.readFileSync(filename))
+    .digest("hex");
+}
+
+export class BackupManager {
+  constructor(
+    private backupDir: string = ScrapingConfig.BACKUP_DIR,
+    private policy: BackupRetentionPolicy = getBackupRetentionPolicy()
+  ) {}
+
+  /**
+   * Backup directory of a workbook, named after its path
+   * (output/toronto/master-listings.xlsx -> output-toronto-master-listings)
+   */
+  getBackupDirectory(workbook: string): string {
+    const key = path
+      .relative(".", path.resolve(workbook))
+      .replace(/\.xlsx$/i, "")
+      .replace(/[\\/:]+/g, "-")
+      .replace(/^[.-]+/, "");
+    return path.join(this.backupDir, key);
+  }
+
+  /**
+   * Copy a workbook into its backup directory with a checksum, then rotate
+   * its backups
+   */
+  create(workbook: string): MasterBackup {
+    const directory = this.getBackupDirectory(workbook);
+    fs.mkdirSync(directory, { recursive: true });
+
+    const filename = path.join(
+      directory,
+      `backup-${generateTimestamp()}-${path.basename(workbook)}`
+    );
+    fs.copyFileSync(workbook, filename);
+    fs.writeFileSync(
+      `${filename}.sha256`,
+      `${computeChecksum(filename)}  ${path.basename(filename)}\n`
+    );
+
+    const backup = this.readBackup(filename, true)!;
+    this.prune(workbook);
+    return backup;
+  }
+
+  /**
+   * Every backup of a workbook, newest first
+   */
+  list(workbook: string): MasterBackup[] {
+    const workbookName = path.basename(workbook);
+    const managedDirectory = this.getBackupDirectory(workbook);
+    // Keyed by absolute path, since the workbook may sit in BACKUP_DIR
+    const directories = new Map(
+      [managedDirectory, this.backupDir, path.dirname(workbook)].map(
+        (directory) => [path.resolve(directory), directory]
+      )
+    );
+    const backups: MasterBackup[] = [];
+
+    for (const directory of directories.values()) {
+      if (!fs.existsSync(directory)) continue;
+
+      for (const name of fs.readdirSync(directory)) {
+        const match = name.match(BACKUP_NAME_PATTERN);
+        if (!match || match[2] !== workbookName) continue;
+
+        const backup = this.readBackup(
+          path.join(directory, name),
+          directory === managedDirectory
+        );
+        if (backup) backups.push(backup);
+      }
+    }
+
+    return backups.sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  /**
+   * Whether a backup still matches its recorded checksum (null when it has
+   * none)
+   */
+  verifyChecksum(backup: string): boolean | null {
+    const checksumFile = `${backup}.sha256`;
+    if (!fs.existsSync(checksumFile)) return null;
+
+    const expected = fs.readFileSync(checksumFile, "utf8").split(/\s+/)[0];
+    return computeChecksum(backup) === expected;
+  }
+
+  /**
+   * Delete the managed backups of a workbook the retention policy no longer
+   * keeps; returns the deleted files
+   */
+  prune(workbook: string, now: Date = new Date()): string[] {
+    const managed = this.list(workbook).filter((backup) => backup.managed);
+    const keep = selectBackupsToKeep(managed, this.policy, now);
+    const removed: string[] = [];
+
+    for (const backup of managed) {
+      if (keep.has(backup)) continue;
+
+      fs.rmSync(backup.filename, { force: true });
+      fs.rmSync(`${backup.filename}.sha256`, { force: true });
+      removed.push(backup.filename);
+    }
+
+    if (removed.length > 0) {
+      console.log(
+        `🗑️  Rotated out ${removed.length} backup(s) of ${workbook}, ${keep.size} kept`
+      );
+    }
+    return removed;
+  }
+
+  /**
+   * Swap a backup in as the workbook after it passes its checksum and
+   * validateExcelFileHealth(). Without a named backup the newest valid one
+   * is used. The current workbook is backed up first, so a restore can be
+   * undone.
+   */
+  async restore(workbook: string, backupFile?: string): Promise<RestoreResult> {
+    const candidates = backupFile
+      ? [backupFile]
+      : this.list(workbook).map((backup) => backup.filename);
+
+    if (candidates.length === 0 || !fs.existsSync(candidates[0])) {
+      return {
+        status: "not-found",
+        backup: candidates[0],
+        issues: [
+          candidates.length === 0
+            ? `No backups of ${workbook}`
+            : `Backup does not exist: ${candidates[0]}`,
+        ],
+      };
+    }
+
+    const issues: string[] = [];
+    for (const candidate of candidates) {
+      const validationIssues = await this.validate(candidate);
+      if (validationIssues.length > 0) {
+        console.log(`⚠️  Skipping backup ${candidate}:`);
+        validationIssues.forEach((issue) => console.log(`   - ${issue}`));
+        validationIssues.forEach((issue) =>
+          issues.push(`${candidate}: ${issue}`)
+        );
+        continue;
+      }
+
+      try {
+        // Copied before the current workbook is backed up, whose rotation
+        // may remove an old candidate
+        const tempFilename = `${workbook}.tmp`;
+        fs.copyFileSync(candidate, tempFilename);
+        if (fs.existsSync(workbook)) {
+          this.create(workbook);
+        }
+        fs.renameSync(tempFilename, workbook);
+        console.log(`♻️  Restored ${workbook} from ${candidate}`);
+        return { status: "restored", backup: candidate, issues };
+      } catch (error) {
+        issues.push(error instanceof Error ? error.message : String(error));
+        return { status: "failed", backup: candidate, issues };
+      }
+    }
+
+    return { status: "invalid", issues };
+  }
+
+  private async validate(backup: string): Promise<string[]> {
+    if (this.verifyChecksum(backup) === false) {
+      return ["Checksum does not match, the backup was modified or damaged"];
+    }
+    return (await validateExcelFileHealth(backup)).issues;
+  }
+
+  private readBackup(filename: string, managed: boolean): MasterBackup | null {
+    const match = path.basename(filename).match(BACKUP_NAME_PATTERN);
+    if (!match) return null;
+
+    return {
+      filename,
+      // 2025-09-15T16-51-46-382Z -> 2025-09-15T16:51:46.382Z
+      createdAt: new Date(
+        match[1].replace(/T(\d+)-(\d+)-(\d+)-(\d+)Z$/, "T$1:$2:$3.$4Z")
+      ),
+      sizeBytes: fs.statSync(filename).size,
+      managed,
+    };
+  }
+}
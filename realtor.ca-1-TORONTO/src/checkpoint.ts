@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ScrapingConfig, TransactionType, cityTargetFromUrl } from "./config";
+import { generateTimestamp, getScrapeFilePrefix } from "./utils";
+
+export interface ScrapeCheckpoint {
+  runId: string;
+  city: string;
+  listingUrl: string;
+  transactionType: TransactionType;
+  // API page being streamed when the checkpoint was last written
+  currentPage: number;
+  processedUrls: string[];
+  dailyFile: string;
+  masterFile: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Progress of a scrape run, written to the city's output directory after
+ * every property so an interrupted run can continue with --resume
+ */
+export class RunCheckpoint {
+  private processed: Set<string>;
+
+  private constructor(
+    private filename: string,
+    private data: ScrapeCheckpoint,
+    readonly resumed: boolean
+  ) {
+    this.processed = new Set(data.processedUrls);
+  }
+
+  static filenameFor(
+    outputDir: string,
+    transactionType: TransactionType = "sale"
+  ): string {
+    return path.join(
+      outputDir,
+      `${getScrapeFilePrefix(transactionType)}-checkpoint.json`
+    );
+  }
+
+  /**
+   * Continue the unfinished run for this listing URL when resuming, otherwise
+   * start a new run (replacing any checkpoint left behind)
+   */
+  static open(
+    outputDir: string,
+    listingUrl: string,
+    transactionType: TransactionType = "sale",
+    resume: boolean = false
+  ): RunCheckpoint {
+    const filename = RunCheckpoint.filenameFor(outputDir, transactionType);
+    const existing = RunCheckpoint.read(filename);
+
+    if (resume && existing && existing.listingUrl === listingUrl) {
+      console.log(
+        `♻️  Resuming run ${existing.runId}: ${existing.processedUrls.length} properties done, continuing from page ${existing.currentPage}`
+      );
+      return new RunCheckpoint(filename, existing, true);
+    }
+
+    if (resume) {
+      console.log(
+        existing
+          ? `⚠️  Checkpoint ${filename} belongs to ${existing.listingUrl}, starting a new run`
+          : `ℹ️  No checkpoint found in ${outputDir}, starting a new run`
+      );
+    } else if (existing) {
+      console.log(
+        `⚠️  Replacing unfinished run ${existing.runId} (use --resume to continue it)`
+      );
+    }
+
+    const now = new Date().toISOString();
+    return new RunCheckpoint(
+      filename,
+      {
+        runId: generateTimestamp(),
+        city: cityTargetFromUrl(listingUrl).name,
+        listingUrl,
+        transactionType,
+        currentPage: ScrapingConfig.START_PAGE,
+        processedUrls: [],
+        dailyFile: "",
+        masterFile: "",
+        startedAt: now,
+        updatedAt: now,
+      },
+      false
+    );
+  }
+
+  get runId(): string {
+    return this.data.runId;
+  }
+
+  get currentPage(): number {
+    return this.data.currentPage;
+  }
+
+  get dailyFile(): string | undefined {
+    return this.data.dailyFile || undefined;
+  }
+
+  get processedCount(): number {
+    return this.processed.size;
+  }
+
+  get processedUrls(): ReadonlySet<string> {
+    return this.processed;
+  }
+
+  has(propertyUrl: string): boolean {
+    return this.processed.has(propertyUrl);
+  }
+
+  setOutputFiles(dailyFile: string, masterFile: string): void {
+    this.data.dailyFile = dailyFile;
+    this.data.masterFile = masterFile;
+    this.save();
+  }
+
+  /**
+   * Record a property as written to the output files
+   */
+  markProcessed(
+    propertyUrl: string,
+    page: number = this.data.currentPage
+  ): void {
+    this.processed.add(propertyUrl);
+    this.data.processedUrls.push(propertyUrl);
+    this.data.currentPage = page;
+    this.save();
+  }
+
+  /**
+   * Remove the checkpoint once the run has finished cleanly
+   */
+  complete(): void {
+    if (fs.existsSync(this.filename)) {
+      fs.unlinkSync(this.filename);
+    }
+  }
+
+  private static read(filename: string): ScrapeCheckpoint | null {
+    if (!fs.existsSync(filename)) return null;
+
+    try {
+      const contents = JSON.parse(fs.readFileSync(filename, "utf8"));
+      if (contents && contents.runId && Array.isArray(contents.processedUrls)) {
+        return contents as ScrapeCheckpoint;
+      }
+      console.log(`⚠️  Ignoring malformed checkpoint: ${filename}`);
+    } catch (error) {
+      console.error(`❌ Could not read checkpoint ${filename}:`, error);
+    }
+    return null;
+  }
+
+  private save(): void {
+    this.data.updatedAt = new Date().toISOString();
+
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const directory = path.dirname(this.filename);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+    const tempFilename = `${this.filename}.tmp`;
+    fs.writeFileSync(tempFilename, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tempFilename, this.filename);
+  }
+}
@@ -1,5 +1,7 @@
-import { chromium, Browser, Page } from "playwright";
+import { chromium, Browser, BrowserContext, Page } from "playwright";
 import { ScrapingConfig } from "./config";
+import { PAGINATION_RULES } from "./extraction-rules";
+import { newHarContext } from "./har";
 
 export interface CityApiConfig {
   geoId: string;
@@ -10,6 +12,7 @@ export interface CityApiConfig {
 
 export class CityGeoIdFinder {
   private browser: Browser | null = null;
+  private context: BrowserContext | null = null;
   private page: Page | null = null;
 
   constructor() {}
@@ -23,7 +26,7 @@ export class CityGeoIdFinder {
     console.log(`⏱️  Starting automated detection...`);
 
     try {
-      await this.initializeBrowser();
+      await this.initializeBrowser(cityUrl);
 
       // Capture API calls
       const apiCalls: any[] = [];
@@ -103,7 +106,7 @@ export class CityGeoIdFinder {
     }
   }
 
-  private async initializeBrowser(): Promise<void> {
+  private async initializeBrowser(cityUrl: string): Promise<void> {
     this.browser = await chromium.launch({
       headless: false, // Keep visible for debugging
       args: [
@@ -113,7 +116,8 @@ export class CityGeoIdFinder {
       ],
     });
 
-    this.page = await this.browser.newPage();
+    this.context = await newHarContext(this.browser, "geoid", cityUrl);
+    this.page = await this.context.newPage();
 
     await this.page.setExtraHTTPHeaders({
       "User-Agent":
@@ -147,28 +151,22 @@ export class CityGeoIdFinder {
   private async clickNextPageButton(): Promise<boolean> {
     try {
       // First try the exact approach from your Playwright test
+      const linkName = PAGINATION_RULES.nextPageLinkName;
       console.log(
-        "🎯 Using exact Playwright approach: getByRole('link', { name: 'Go to the next page' })"
+        `🎯 Using exact Playwright approach: getByRole('link', { name: '${linkName}' })`
       );
       try {
         await this.page!.getByRole("link", {
-          name: "Go to the next page",
+          name: linkName,
         }).click();
-        console.log("✅ Successfully clicked 'Go to the next page' button!");
+        console.log(`✅ Successfully clicked '${linkName}' button!`);
         return true;
       } catch (e) {
         console.log("❌ Primary method failed, trying fallbacks...");
       }
 
       // Fallback selectors if the primary approach fails
-      const selectors = [
-        'a[aria-label="Go to the next page"]',
-        ".lnkNextResultsPage",
-        ".paginationLinkForward",
-        "a.lnkNextResultsPage.paginationLink.paginationLinkForward",
-        'a[href="#"]:has-text("Next")',
-        ".pagination a:last-child",
-      ];
+      const selectors = PAGINATION_RULES.nextPageSelectors;
 
       for (const selector of selectors) {
         try {
@@ -284,6 +282,8 @@ export class CityGeoIdFinder {
   }
 
   private async cleanup(): Promise<void> {
+    // Closing the context first writes its network recording
+    await this.context?.close();
     if (this.browser) {
       await this.browser.close();
     }
@@ -0,0 +1,359 @@
+import { parseArgs } from "util";
+import {
+  TimeoutMode,
+  TIMEOUT_PRESETS,
+  MemoryMode,
+  MEMORY_MODES,
+  StorageBackend,
+  STORAGE_BACKENDS,
+  ColumnProfile,
+  COLUMN_PROFILES,
+  ExtractionMode,
+  EXTRACTION_MODES,
+  SearchCriteria,
+  TRANSACTION_TYPES,
+  BUILDING_TYPES,
+  OWNERSHIP_TYPES,
+  SEARCH_SORTS,
+  findSearchRangeError,
+} from "./config";
+import { MockScenario, MOCK_SCENARIOS } from "./mock-server";
+
+export type CliCommand =
+  | "scrape"
+  | "urls"
+  | "geoid"
+  | "repair"
+  | "verify"
+  | "dedupe"
+  | "compact"
+  | "backup"
+  | "stats"
+  | "export"
+  | "mock";
+
+export type BackupAction = "list" | "restore" | "prune";
+
+export type ExportFormat = "json" | "csv" | "xlsx";
+
+export interface CliOptions {
+  cityUrls: string[];
+  maxPages?: number;
+  maxProperties?: number;
+  memoryMode?: MemoryMode;
+  storageBackend?: StorageBackend;
+  columnProfile?: ColumnProfile;
+  timeoutMode?: TimeoutMode;
+  extractionMode?: ExtractionMode;
+  concurrency?: number;
+  headless?: boolean;
+  outputDir?: string;
+  fixturesDir?: string;
+  recordHar: boolean;
+  replayHar?: string;
+  port?: number;
+  scenario?: MockScenario;
+  files: string[];
+  backupAction: BackupAction;
+  backupFile?: string;
+  configFile?: string;
+  search: SearchCriteria;
+  format: ExportFormat;
+  refresh: boolean;
+  resume: boolean;
+  help: boolean;
+}
+
+export interface ParsedCli {
+  command: CliCommand;
+  options: CliOptions;
+}
+
+export const CLI_COMMANDS: CliCommand[] = [
+  "scrape",
+  "urls",
+  "geoid",
+  "repair",
+  "verify",
+  "dedupe",
+  "compact",
+  "backup",
+  "stats",
+  "export",
+  "mock",
+];
+
+// Commands that work on workbooks given as arguments or --file
+const WORKBOOK_COMMANDS: CliCommand[] = [
+  "repair",
+  "verify",
+  "dedupe",
+  "compact",
+  "backup",
+  "stats",
+  "export",
+];
+
+const BACKUP_ACTIONS: BackupAction[] = ["list", "restore", "prune"];
+
+const EXPORT_FORMATS: ExportFormat[] = ["json", "csv", "xlsx"];
+
+/**
+ * Error raised for invalid command-line usage (unknown command, bad flag value)
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export const USAGE = `Usage: realtor-scraper [command] [options] [workbook...]
+
+Commands:
+  scrape   Scrape listings for the configured cities (default)
+  urls     Extract listing URLs only, without visiting detail pages
+  geoid    Discover city GeoIds into the local registry (--refresh to rediscover)
+  repair   Rebuild corrupted workbooks (each is backed up first)
+  verify   Check the health of workbooks
+  dedupe   Remove duplicate listings, placeholder and empty rows
+  compact  Rewrite workbooks without empty or phantom rows
+  backup   list | restore | prune: list a workbook's backups, restore the
+           newest valid one, or delete those past the retention policy
+  stats    Show listings per sheet, scrape dates, cities and prices of workbooks
+  export   Export workbooks to JSON, CSV or a fresh Excel file
+  mock     Serve a local stand-in for realtor.ca to run without network
+
+Workbook commands (repair to export) take workbook paths as arguments or
+--file, and default to the master file of every configured city. Exit codes:
+0 ok, 1 unhealthy, 2 usage error, 3 file not found, 4 operation failed.
+
+Options:
+  -c, --city <url>            City listing URL (repeatable, overrides configured cities)
+  -p, --max-pages <n>         Maximum API pages per city
+  -n, --max-properties <n>    Maximum properties per city
+  -m, --memory-mode <mode>    ${MEMORY_MODES.join(" | ")}
+  -s, --storage <backend>     ${STORAGE_BACKENDS.join(" | ")} (master dataset)
+      --columns <profile>     ${COLUMN_PROFILES.join(" | ")} (output columns)
+  -t, --timeout-mode <mode>   ${Object.keys(TIMEOUT_PRESETS).join(" | ")}
+  -x, --extraction <mode>     ${EXTRACTION_MODES.join(" | ")} (api skips detail pages)
+  -w, --concurrency <n>       Browser pages scraping detail pages in parallel
+      --headless              Run the browser headless
+      --headed                Run the browser with a visible window
+  -o, --output-dir <dir>      Output directory (per city when several cities run)
+      --fixtures-dir <dir>    Save scraped detail pages as offline test fixtures
+      --record-har            Record the run's network traffic to HAR files (HAR_DIR)
+      --replay-har <run>      Re-scrape a recorded run from its HAR files, without network
+  -f, --file <path>           Workbook for the workbook commands (repeatable)
+      --backup <path>         backup restore: backup file to restore
+      --format <format>       Export format: ${EXPORT_FORMATS.join(" | ")} (default: json)
+      --config <path>         JSON or YAML config file (default: realtor.config.{json,yaml,yml})
+      --refresh               geoid: rediscover cities already in the registry
+      --resume                scrape: continue each city's interrupted run from its checkpoint
+      --port <n>              mock: local port (default: 8080)
+      --scenario <name>       mock: ${MOCK_SCENARIOS.join(" | ")} (default: normal)
+  -h, --help                  Show this help message
+
+Search filters (override SEARCH_CRITERIA from the config):
+      --transaction <type>    ${TRANSACTION_TYPES.join(" | ")} (default: sale; rent writes separate rentals files)
+      --min-price <n>         Minimum price (monthly rent for rentals)
+      --max-price <n>         Maximum price (monthly rent for rentals)
+      --min-beds <n>          Minimum bedrooms
+      --max-beds <n>          Maximum bedrooms
+      --min-baths <n>         Minimum bathrooms
+      --max-baths <n>         Maximum bathrooms
+      --building-type <type>  ${BUILDING_TYPES.join(" | ")}
+      --ownership <type>      ${OWNERSHIP_TYPES.join(" | ")}
+      --sort <order>          ${SEARCH_SORTS.join(" | ")} (default: newest)
+`;
+
+/**
+ * Parse command-line arguments into a command and typed options
+ */
+export function parseCliArgs(argv: string[]): ParsedCli {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        city: { type: "string", short: "c", multiple: true },
+        "max-pages": { type: "string", short: "p" },
+        "max-properties": { type: "string", short: "n" },
+        "memory-mode": { type: "string", short: "m" },
+        storage: { type: "string", short: "s" },
+        columns: { type: "string" },
+        "timeout-mode": { type: "string", short: "t" },
+        extraction: { type: "string", short: "x" },
+        concurrency: { type: "string", short: "w" },
+        headless: { type: "boolean" },
+        headed: { type: "boolean" },
+        "output-dir": { type: "string", short: "o" },
+        "fixtures-dir": { type: "string" },
+        "record-har": { type: "boolean" },
+        "replay-har": { type: "string" },
+        file: { type: "string", short: "f", multiple: true },
+        backup: { type: "string" },
+        format: { type: "string" },
+        config: { type: "string" },
+        refresh: { type: "boolean" },
+        resume: { type: "boolean" },
+        port: { type: "string" },
+        scenario: { type: "string" },
+        transaction: { type: "string" },
+        "min-price": { type: "string" },
+        "max-price": { type: "string" },
+        "min-beds": { type: "string" },
+        "max-beds": { type: "string" },
+        "min-baths": { type: "string" },
+        "max-baths": { type: "string" },
+        "building-type": { type: "string" },
+        ownership: { type: "string" },
+        sort: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    throw new CliUsageError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  const { values, positionals } = parsed;
+
+  const command = (positionals[0] || "scrape") as CliCommand;
+  if (!CLI_COMMANDS.includes(command)) {
+    throw new CliUsageError(`Unknown command: ${command}`);
+  }
+
+  // backup takes its action first, then workbooks like the other commands
+  let workbookArgs = positionals.slice(1);
+  let backupAction: BackupAction = "list";
+  if (command === "backup" && workbookArgs.length > 0) {
+    backupAction = parseChoice("backup", workbookArgs[0], BACKUP_ACTIONS)!;
+    workbookArgs = workbookArgs.slice(1);
+  }
+
+  if (workbookArgs.length > 0 && !WORKBOOK_COMMANDS.includes(command)) {
+    throw new CliUsageError(`Unexpected arguments: ${workbookArgs.join(" ")}`);
+  }
+
+  if (values.backup && backupAction !== "restore") {
+    throw new CliUsageError("--backup only applies to backup restore");
+  }
+
+  if (values.headless && values.headed) {
+    throw new CliUsageError("--headless and --headed cannot be combined");
+  }
+
+  if (values["record-har"] && values["replay-har"]) {
+    throw new CliUsageError("--record-har and --replay-har cannot be combined");
+  }
+
+  const search: SearchCriteria = {
+    transactionType: parseChoice(
+      "--transaction",
+      values.transaction,
+      TRANSACTION_TYPES
+    ),
+    minPrice: parsePositiveInt("--min-price", values["min-price"]),
+    maxPrice: parsePositiveInt("--max-price", values["max-price"]),
+    minBedrooms: parsePositiveInt("--min-beds", values["min-beds"]),
+    maxBedrooms: parsePositiveInt("--max-beds", values["max-beds"]),
+    minBathrooms: parsePositiveInt("--min-baths", values["min-baths"]),
+    maxBathrooms: parsePositiveInt("--max-baths", values["max-baths"]),
+    buildingType: parseChoice(
+      "--building-type",
+      values["building-type"],
+      BUILDING_TYPES
+    ),
+    ownershipType: parseChoice("--ownership", values.ownership, OWNERSHIP_TYPES),
+    sort: parseChoice("--sort", values.sort, SEARCH_SORTS),
+  };
+
+  // Keep only the filters given on the command line so they merge cleanly
+  // over the configured criteria
+  for (const key of Object.keys(search) as (keyof SearchCriteria)[]) {
+    if (search[key] === undefined) delete search[key];
+  }
+
+  const rangeError = findSearchRangeError(search);
+  if (rangeError) {
+    throw new CliUsageError(`Invalid search filters: ${rangeError}`);
+  }
+
+  return {
+    command,
+    options: {
+      cityUrls: values.city || [],
+      maxPages: parsePositiveInt("--max-pages", values["max-pages"]),
+      maxProperties: parsePositiveInt(
+        "--max-properties",
+        values["max-properties"]
+      ),
+      memoryMode: parseChoice(
+        "--memory-mode",
+        values["memory-mode"],
+        MEMORY_MODES
+      ),
+      storageBackend: parseChoice("--storage", values.storage, STORAGE_BACKENDS),
+      columnProfile: parseChoice("--columns", values.columns, COLUMN_PROFILES),
+      timeoutMode: parseChoice(
+        "--timeout-mode",
+        values["timeout-mode"],
+        Object.keys(TIMEOUT_PRESETS) as TimeoutMode[]
+      ),
+      extractionMode: parseChoice(
+        "--extraction",
+        values.extraction,
+        EXTRACTION_MODES
+      ),
+      concurrency: parsePositiveInt("--concurrency", values.concurrency),
+      headless: values.headless ? true : values.headed ? false : undefined,
+      outputDir: values["output-dir"],
+      fixturesDir: values["fixtures-dir"],
+      recordHar: values["record-har"] || false,
+      replayHar: values["replay-har"],
+      port: parsePositiveInt("--port", values.port),
+      scenario: parseChoice("--scenario", values.scenario, MOCK_SCENARIOS),
+      files: [...(values.file || []), ...workbookArgs],
+      backupAction,
+      backupFile: values.backup,
+      configFile: values.config,
+      search,
+      format:
+        parseChoice("--format", values.format, [...EXPORT_FORMATS]) || "json",
+      refresh: values.refresh || false,
+      resume: values.resume || false,
+      help: values.help || false,
+    },
+  };
+}
+
+function parsePositiveInt(
+  flag: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new CliUsageError(`${flag} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseChoice<T extends string>(
+  flag: string,
+  value: string | undefined,
+  choices: T[]
+): T | undefined {
+  if (value === undefined) return undefined;
+
+  if (!choices.includes(value as T)) {
+    throw new CliUsageError(
+      `${flag} must be one of ${choices.join(", ")}, got "${value}"`
+    );
+  }
+  return value as T;
+}
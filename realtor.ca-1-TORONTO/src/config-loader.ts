@@ -0,0 +1,528 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import {
+  ScrapingConfig,
+  ScrapingConfigShape,
+  ConfigPresets,
+  ConfigPresetName,
+  TimeoutMode,
+  TIMEOUT_PRESETS,
+  MEMORY_MODES,
+  STORAGE_BACKENDS,
+  COLUMN_PROFILES,
+  EXTRACTION_MODES,
+  HAR_MODES,
+  TRANSACTION_TYPES,
+  BUILDING_TYPES,
+  OWNERSHIP_TYPES,
+  SEARCH_SORTS,
+  SearchCriteria,
+  findSearchRangeError,
+  CityTarget,
+  applyConfigPreset,
+  setTimeoutMode,
+} from "./config";
+
+// Files picked up automatically from the working directory when no
+// --config flag or REALTOR_CONFIG_FILE variable is given
+export const DEFAULT_CONFIG_FILES = [
+  "realtor.config.json",
+  "realtor.config.yaml",
+  "realtor.config.yml",
+];
+
+// Prefix for environment variable overrides, e.g. REALTOR_MAX_PAGES=5
+export const ENV_PREFIX = "REALTOR_";
+
+/**
+ * Error raised when a configuration layer contains an invalid key or value
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly source: string,
+    message: string
+  ) {
+    super(`Invalid configuration "${key}" (from ${source}): ${message}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+type FieldSchema =
+  | { type: "integer"; min: number }
+  | { type: "boolean" }
+  | { type: "string"; allowEmpty?: boolean } // Empty for "unset" defaults
+  | { type: "url" }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "cityTargets" }
+  | { type: "searchCriteria" };
+
+// Field schemas for SEARCH_CRITERIA and a city target's "search" mapping
+const SEARCH_CRITERIA_SCHEMA: {
+  [K in keyof Required<SearchCriteria>]: FieldSchema;
+} = {
+  transactionType: { type: "enum", values: TRANSACTION_TYPES },
+  minPrice: { type: "integer", min: 0 },
+  maxPrice: { type: "integer", min: 0 },
+  minBedrooms: { type: "integer", min: 0 },
+  maxBedrooms: { type: "integer", min: 0 },
+  minBathrooms: { type: "integer", min: 0 },
+  maxBathrooms: { type: "integer", min: 0 },
+  buildingType: { type: "enum", values: BUILDING_TYPES },
+  ownershipType: { type: "enum", values: OWNERSHIP_TYPES },
+  sort: { type: "enum", values: SEARCH_SORTS },
+};
+
+// Every ScrapingConfig key must be described here - the mapped type makes the
+// compiler enforce it when new settings are added
+const CONFIG_SCHEMA: { [K in keyof ScrapingConfigShape]: FieldSchema } = {
+  SITE_BASE_URL: { type: "url" },
+  API_BASE_URL: { type: "url" },
+  DEFAULT_LISTING_URL: { type: "url" },
+  CITY_TARGETS: { type: "cityTargets" },
+  SEARCH_CRITERIA: { type: "searchCriteria" },
+  GEOID_REGISTRY_FILE: { type: "string" },
+  GEOID_REGISTRY_MAX_AGE_DAYS: { type: "integer", min: 1 },
+  MAX_PAGES: { type: "integer", min: 1 },
+  START_PAGE: { type: "integer", min: 1 },
+  MAX_PROPERTIES: { type: "integer", min: 1 },
+  DEFAULT_SINGLE_PAGE_LIMIT: { type: "integer", min: 1 },
+  PROPERTIES_PER_PAGE: { type: "integer", min: 1 },
+  HEADLESS_MODE: { type: "boolean" },
+  VIEWPORT_WIDTH: { type: "integer", min: 1 },
+  VIEWPORT_HEIGHT: { type: "integer", min: 1 },
+  BROWSER_SLOW_MO: { type: "integer", min: 0 },
+  ENABLE_CACHE: { type: "boolean" },
+  USER_DATA_DIR: { type: "string" },
+  PAGE_LOAD_STRATEGY: {
+    type: "enum",
+    values: ["load", "domcontentloaded", "networkidle"],
+  },
+  NAVIGATION_TIMEOUT: { type: "integer", min: 0 },
+  COOKIE_BANNER_TIMEOUT: { type: "integer", min: 0 },
+  ELEMENT_WAIT_TIMEOUT: { type: "integer", min: 0 },
+  PAGE_LOAD_WAIT_TIMEOUT: { type: "integer", min: 0 },
+  INITIAL_PAGE_LOAD_DELAY: { type: "integer", min: 0 },
+  COOKIE_BANNER_DELAY: { type: "integer", min: 0 },
+  PROPERTY_SCRAPING_DELAY: { type: "integer", min: 0 },
+  PAGINATION_CLICK_DELAY: { type: "integer", min: 0 },
+  PAGINATION_SCROLL_DELAY: { type: "integer", min: 0 },
+  PAGE_STABILIZATION_DELAY: { type: "integer", min: 0 },
+  NETWORK_IDLE_DELAY: { type: "integer", min: 0 },
+  NAVIGATION_RETRY_DELAY: { type: "integer", min: 0 },
+  NAVIGATION_RETRIES: { type: "integer", min: 1 },
+  PROPERTY_LINK_SELECTOR: { type: "string" },
+  PAGINATION_CONTAINER_SELECTOR: { type: "string" },
+  NEXT_PAGE_BUTTON_SELECTOR: { type: "string" },
+  JSON_OUTPUT_FILENAME: { type: "string" },
+  CSV_OUTPUT_FILENAME: { type: "string" },
+  JSON_INCLUDE_NORMALIZED: { type: "boolean" },
+  USE_PAGINATION: { type: "boolean" },
+  USE_DYNAMIC_UPDATES: { type: "boolean" },
+  MEMORY_MODE: { type: "enum", values: MEMORY_MODES },
+  STORAGE_BACKEND: { type: "enum", values: STORAGE_BACKENDS },
+  WRITE_BATCH_SIZE: { type: "integer", min: 1 },
+  WRITE_BATCH_INTERVAL: { type: "integer", min: 0 },
+  COLUMN_PROFILE: { type: "enum", values: COLUMN_PROFILES },
+  EXTRACTION_MODE: { type: "enum", values: EXTRACTION_MODES },
+  API_DETAIL_FALLBACK: { type: "boolean" },
+  CONCURRENCY: { type: "integer", min: 1 },
+  MAX_REQUESTS_PER_MINUTE: { type: "integer", min: 0 },
+  FIXTURE_CAPTURE_DIR: { type: "string", allowEmpty: true },
+  BACKUP_DIR: { type: "string" },
+  BACKUP_KEEP_LAST: { type: "integer", min: 1 },
+  BACKUP_KEEP_DAILY_DAYS: { type: "integer", min: 0 },
+  BACKUP_KEEP_WEEKLY_WEEKS: { type: "integer", min: 0 },
+  HAR_MODE: { type: "enum", values: HAR_MODES },
+  HAR_DIR: { type: "string" },
+  HAR_RUN_ID: { type: "string", allowEmpty: true },
+};
+
+// Keys that select a whole group of settings rather than a single value
+const SELECTOR_SCHEMA: { [key: string]: FieldSchema } = {
+  PRESET: { type: "enum", values: Object.keys(ConfigPresets) },
+  TIMEOUT_MODE: { type: "enum", values: Object.keys(TIMEOUT_PRESETS) },
+};
+
+interface ConfigLayer {
+  source: string;
+  values: { [key: string]: unknown };
+}
+
+export interface LoadConfigOptions {
+  file?: string;
+  env?: NodeJS.ProcessEnv;
+  timeoutMode?: TimeoutMode; // Wins over a TIMEOUT_MODE in the file or env
+}
+
+export interface LoadedConfig {
+  config: ScrapingConfigShape;
+  files: string[];
+  preset?: ConfigPresetName;
+  timeoutMode?: TimeoutMode;
+}
+
+/**
+ * Load configuration layers on top of the defaults in config.ts and apply
+ * the validated result to the live ScrapingConfig.
+ *
+ * Precedence (lowest to highest): defaults, preset, timeout mode, config
+ * file values, REALTOR_* environment variables. PRESET and TIMEOUT_MODE may
+ * be set in either the file or the environment; options.timeoutMode (the
+ * --timeout-mode flag) replaces TIMEOUT_MODE but stays below the file and
+ * environment values.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): LoadedConfig {
+  const env = options.env || process.env;
+  const layers: ConfigLayer[] = [];
+  const files: string[] = [];
+
+  const configFile =
+    options.file ||
+    env[`${ENV_PREFIX}CONFIG_FILE`] ||
+    DEFAULT_CONFIG_FILES.find((filename) => fs.existsSync(filename));
+
+  if (configFile) {
+    layers.push({ source: configFile, values: readConfigFile(configFile) });
+    files.push(configFile);
+  }
+
+  layers.push({ source: "environment", values: readEnvironment(env) });
+
+  // Validate every layer before touching the live configuration so a bad
+  // value never leaves it half-applied
+  const validated = layers.map((layer) => ({
+    source: layer.source,
+    values: validateLayer(layer),
+  }));
+
+  const selectors: Record<string, unknown> = {};
+  const overrides: Record<string, unknown> = {};
+
+  for (const layer of validated) {
+    for (const [key, value] of Object.entries(layer.values)) {
+      if (key in SELECTOR_SCHEMA) {
+        selectors[key] = value;
+      } else {
+        overrides[key] = value;
+      }
+    }
+  }
+
+  // Both were checked against the SELECTOR_SCHEMA enums above
+  const preset = selectors.PRESET as ConfigPresetName | undefined;
+  const timeoutMode =
+    options.timeoutMode || (selectors.TIMEOUT_MODE as TimeoutMode | undefined);
+
+  if (preset) {
+    applyConfigPreset(preset);
+  }
+  if (timeoutMode) {
+    setTimeoutMode(timeoutMode);
+  }
+  Object.assign(ScrapingConfig, overrides);
+
+  const overriddenKeys = Object.keys(overrides);
+  if (files.length > 0 || overriddenKeys.length > 0) {
+    console.log(
+      `⚙️  Configuration loaded${
+        files.length > 0 ? ` from ${files.join(", ")}` : ""
+      }: ${overriddenKeys.length} setting(s) overridden${
+        overriddenKeys.length > 0 ? ` (${overriddenKeys.join(", ")})` : ""
+      }`
+    );
+  }
+
+  return {
+    config: ScrapingConfig,
+    files,
+    preset,
+    timeoutMode,
+  };
+}
+
+/**
+ * Read a JSON or YAML configuration file into a plain object
+ */
+function readConfigFile(filename: string): { [key: string]: unknown } {
+  if (!fs.existsSync(filename)) {
+    throw new ConfigValidationError(
+      "CONFIG_FILE",
+      filename,
+      "file does not exist"
+    );
+  }
+
+  const content = fs.readFileSync(filename, "utf8");
+  const extension = path.extname(filename).toLowerCase();
+
+  let parsed: unknown;
+  try {
+    parsed =
+      extension === ".yaml" || extension === ".yml"
+        ? parseYaml(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new ConfigValidationError(
+      "CONFIG_FILE",
+      filename,
+      `could not be parsed: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigValidationError(
+      "CONFIG_FILE",
+      filename,
+      "top level must be a mapping of setting names to values"
+    );
+  }
+  return parsed as { [key: string]: unknown };
+}
+
+/**
+ * Collect REALTOR_* environment variables, keyed by setting name
+ */
+function readEnvironment(env: NodeJS.ProcessEnv): { [key: string]: unknown } {
+  const values: { [key: string]: unknown } = {};
+
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(ENV_PREFIX) || value === undefined) continue;
+
+    const key = name.slice(ENV_PREFIX.length);
+    if (key === "CONFIG_FILE") continue;
+    values[key] = value;
+  }
+
+  return values;
+}
+
+function validateLayer(layer: ConfigLayer): { [key: string]: unknown } {
+  const result: { [key: string]: unknown } = {};
+  const fromEnvironment = layer.source === "environment";
+
+  for (const [key, rawValue] of Object.entries(layer.values)) {
+    const schema =
+      (CONFIG_SCHEMA as { [key: string]: FieldSchema })[key] ||
+      SELECTOR_SCHEMA[key];
+    const source = fromEnvironment ? `${ENV_PREFIX}${key}` : layer.source;
+
+    if (!schema) {
+      throw new ConfigValidationError(key, source, "unknown setting");
+    }
+
+    result[key] = validateValue(key, source, schema, rawValue, fromEnvironment);
+  }
+
+  return result;
+}
+
+function validateValue(
+  key: string,
+  source: string,
+  schema: FieldSchema,
+  rawValue: unknown,
+  fromString: boolean
+): unknown {
+  const fail = (expected: string): never => {
+    throw new ConfigValidationError(
+      key,
+      source,
+      `expected ${expected}, got ${JSON.stringify(rawValue)}`
+    );
+  };
+
+  switch (schema.type) {
+    case "integer": {
+      const value =
+        fromString && typeof rawValue === "string" && rawValue.trim() !== ""
+          ? Number(rawValue)
+          : rawValue;
+      if (
+        typeof value !== "number" ||
+        !Number.isInteger(value) ||
+        value < schema.min
+      ) {
+        fail(`an integer >= ${schema.min}`);
+      }
+      return value;
+    }
+
+    case "boolean": {
+      if (typeof rawValue === "boolean") return rawValue;
+      if (fromString && typeof rawValue === "string") {
+        const normalized = rawValue.trim().toLowerCase();
+        if (["true", "1", "yes"].includes(normalized)) return true;
+        if (["false", "0", "no"].includes(normalized)) return false;
+      }
+      return fail("a boolean (true/false)");
+    }
+
+    case "string":
+      if (typeof rawValue !== "string") {
+        fail("a string");
+      }
+      if (!schema.allowEmpty && (rawValue as string).trim() === "") {
+        fail("a non-empty string");
+      }
+      return rawValue;
+
+    case "url":
+      if (typeof rawValue !== "string" || !isHttpUrl(rawValue)) {
+        fail("an http(s) URL");
+      }
+      return rawValue;
+
+    case "enum":
+      if (
+        typeof rawValue !== "string" ||
+        !schema.values.includes(rawValue)
+      ) {
+        fail(`one of ${schema.values.join(", ")}`);
+      }
+      return rawValue;
+
+    case "cityTargets": {
+      let value = rawValue;
+      if (fromString && typeof rawValue === "string") {
+        try {
+          value = JSON.parse(rawValue);
+        } catch {
+          fail("a JSON array of city targets");
+        }
+      }
+      if (!Array.isArray(value) || value.length === 0) {
+        return fail("a non-empty list of city targets");
+      }
+      return value.map((target, index) =>
+        validateCityTarget(`${key}[${index}]`, source, target)
+      );
+    }
+
+    case "searchCriteria": {
+      let value = rawValue;
+      if (fromString && typeof rawValue === "string") {
+        try {
+          value = JSON.parse(rawValue);
+        } catch {
+          fail("a JSON object of search criteria");
+        }
+      }
+      return validateSearchCriteria(key, source, value);
+    }
+  }
+}
+
+function validateSearchCriteria(
+  key: string,
+  source: string,
+  criteria: unknown
+): SearchCriteria {
+  if (
+    typeof criteria !== "object" ||
+    criteria === null ||
+    Array.isArray(criteria)
+  ) {
+    throw new ConfigValidationError(
+      key,
+      source,
+      `expected a mapping of ${Object.keys(SEARCH_CRITERIA_SCHEMA).join(", ")}`
+    );
+  }
+
+  const result: { [field: string]: unknown } = {};
+  for (const [field, value] of Object.entries(criteria)) {
+    const schema = (SEARCH_CRITERIA_SCHEMA as { [key: string]: FieldSchema })[
+      field
+    ];
+    if (!schema) {
+      throw new ConfigValidationError(
+        `${key}.${field}`,
+        source,
+        "unknown search criteria field"
+      );
+    }
+    result[field] = validateValue(
+      `${key}.${field}`,
+      source,
+      schema,
+      value,
+      false
+    );
+  }
+
+  const rangeError = findSearchRangeError(result as SearchCriteria);
+  if (rangeError) {
+    throw new ConfigValidationError(key, source, rangeError);
+  }
+  return result as SearchCriteria;
+}
+
+function validateCityTarget(
+  key: string,
+  source: string,
+  target: unknown
+): CityTarget {
+  if (typeof target !== "object" || target === null || Array.isArray(target)) {
+    throw new ConfigValidationError(
+      key,
+      source,
+      "expected a mapping with name, listingUrl, maxPages, maxProperties and outputDir"
+    );
+  }
+
+  const fields = target as { [field: string]: unknown };
+  const check = (field: string, schema: FieldSchema) =>
+    validateValue(`${key}.${field}`, source, schema, fields[field], false);
+
+  for (const field of Object.keys(fields)) {
+    if (
+      ![
+        "name",
+        "listingUrl",
+        "maxPages",
+        "maxProperties",
+        "outputDir",
+        "search",
+      ].includes(field)
+    ) {
+      throw new ConfigValidationError(
+        `${key}.${field}`,
+        source,
+        "unknown city target field"
+      );
+    }
+  }
+
+  return {
+    name: check("name", { type: "string" }) as string,
+    listingUrl: check("listingUrl", { type: "url" }) as string,
+    // Limits left out fall back to MAX_PAGES / MAX_PROPERTIES when scraping
+    ...(fields.maxPages !== undefined && {
+      maxPages: check("maxPages", { type: "integer", min: 1 }) as number,
+    }),
+    ...(fields.maxProperties !== undefined && {
+      maxProperties: check("maxProperties", {
+        type: "integer",
+        min: 1,
+      }) as number,
+    }),
+    outputDir: check("outputDir", { type: "string" }) as string,
+    ...(fields.search !== undefined && {
+      search: validateSearchCriteria(`${key}.search`, source, fields.search),
+    }),
+  };
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
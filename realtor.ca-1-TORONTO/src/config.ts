@@ -61,16 +61,206 @@ export const TIMEOUT_PRESETS = {
 
 // ============ CURRENT TIMEOUT MODE ============
 // Change this to switch between timeout presets: "fast" | "normal" | "slow" | "debug"
-export const CURRENT_TIMEOUT_MODE: TimeoutMode = "fast";
+// (or use setTimeoutMode() / the --timeout-mode CLI flag at runtime)
+export let CURRENT_TIMEOUT_MODE: TimeoutMode = "fast";
+
+// Get current timeout settings based on mode, including any values that were
+// overridden on top of the preset (config file, environment, ConfigPresets)
+const getCurrentTimeouts = () => {
+  const settings = { ...TIMEOUT_PRESETS[CURRENT_TIMEOUT_MODE] };
+  for (const key of Object.keys(settings) as (keyof typeof settings)[]) {
+    settings[key] = ScrapingConfig[key];
+  }
+  return settings;
+};
 
-// Get current timeout settings based on mode
-const getCurrentTimeouts = () => TIMEOUT_PRESETS[CURRENT_TIMEOUT_MODE];
+// ============ MEMORY MODES ============
+export type MemoryMode =
+  | "standard"
+  | "efficient"
+  | "ultra"
+  | "streaming"
+  | "ultra-streaming";
+
+export const MEMORY_MODES: MemoryMode[] = [
+  "standard",
+  "efficient",
+  "ultra",
+  "streaming",
+  "ultra-streaming",
+];
+
+// ============ STORAGE BACKENDS ============
+// "excel": the master workbook is the master dataset, rewritten per write batch
+// "sqlite": the master dataset lives in a local SQLite file, and the master
+//           workbook is exported from it when a run finishes
+export type StorageBackend = "excel" | "sqlite";
+
+export const STORAGE_BACKENDS: StorageBackend[] = ["excel", "sqlite"];
+
+// ============ COLUMN PROFILES ============
+// Columns of the listing workbooks, CSV and JSON files. Each profile extends
+// the one before it, so files written with different profiles line up.
+// "basic": the original 10 columns (plus LEASE TERM for rentals)
+// "standard": basic + LISTING ID, MLS NUMBER and the coordinate source and
+//             confidence
+// "extended": standard + beds, baths, size, types, taxes, description, photos
+export type ColumnProfile = "basic" | "standard" | "extended";
+
+export const COLUMN_PROFILES: ColumnProfile[] = [
+  "basic",
+  "standard",
+  "extended",
+];
+
+export type PageLoadStrategy = "load" | "domcontentloaded" | "networkidle";
+
+// ============ EXTRACTION MODES ============
+// "detail-page": open every listing page and scrape it (slow, most complete)
+// "api": build records from the search API results, no page visits
+export type ExtractionMode = "detail-page" | "api";
+
+export const EXTRACTION_MODES: ExtractionMode[] = ["detail-page", "api"];
+
+// ============ NETWORK RECORDINGS ============
+// "record": save every browser context's network traffic to HAR files of the
+//           run (HAR_DIR/<run ID>/)
+// "replay": serve every request from the HAR files of HAR_RUN_ID instead of
+//           the network, to re-scrape a past run
+export type HarMode = "off" | "record" | "replay";
+
+export const HAR_MODES: HarMode[] = ["off", "record", "replay"];
+
+// ============ SEARCH CRITERIA ============
+export type TransactionType = "sale" | "rent";
+
+export type BuildingType =
+  | "house"
+  | "condo"
+  | "townhouse"
+  | "duplex"
+  | "triplex"
+  | "fourplex"
+  | "mobile";
+
+export type OwnershipType = "freehold" | "condo" | "timeshare" | "leasehold";
+
+export type SearchSort = "newest" | "oldest" | "price-asc" | "price-desc";
+
+export const TRANSACTION_TYPES: TransactionType[] = ["sale", "rent"];
+
+export const BUILDING_TYPES: BuildingType[] = [
+  "house",
+  "condo",
+  "townhouse",
+  "duplex",
+  "triplex",
+  "fourplex",
+  "mobile",
+];
+
+export const OWNERSHIP_TYPES: OwnershipType[] = [
+  "freehold",
+  "condo",
+  "timeshare",
+  "leasehold",
+];
+
+export const SEARCH_SORTS: SearchSort[] = [
+  "newest",
+  "oldest",
+  "price-asc",
+  "price-desc",
+];
+
+// Filters sent with every PropertySearch_Post request. Omitted fields are
+// not filtered on. Prices are in CAD (monthly rent when transactionType is
+// "rent"); bedroom/bathroom bounds are inclusive.
+export interface SearchCriteria {
+  transactionType?: TransactionType;
+  minPrice?: number;
+  maxPrice?: number;
+  minBedrooms?: number;
+  maxBedrooms?: number;
+  minBathrooms?: number;
+  maxBathrooms?: number;
+  buildingType?: BuildingType;
+  ownershipType?: OwnershipType;
+  sort?: SearchSort;
+}
+
+/**
+ * Check that every min/max pair in the criteria is in order. Returns a
+ * description of the first inverted range, or null when all are valid.
+ */
+export function findSearchRangeError(criteria: SearchCriteria): string | null {
+  const ranges: [string, number | undefined, number | undefined][] = [
+    ["price", criteria.minPrice, criteria.maxPrice],
+    ["bedrooms", criteria.minBedrooms, criteria.maxBedrooms],
+    ["bathrooms", criteria.minBathrooms, criteria.maxBathrooms],
+  ];
+
+  for (const [label, min, max] of ranges) {
+    if (min !== undefined && max !== undefined && min > max) {
+      return `minimum ${label} (${min}) is greater than maximum (${max})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether the criteria list every listing of their transaction type (only the
+ * sort order set), so a run that fetched every page saw the whole market
+ */
+export function isUnfilteredSearch(criteria: SearchCriteria): boolean {
+  const { transactionType, sort, ...filters } = criteria;
+  return Object.values(filters).every((value) => value === undefined);
+}
+
+// ============ CITY TARGETS ============
+export interface CityTarget {
+  name: string;
+  listingUrl: string;
+  maxPages?: number; // Defaults to MAX_PAGES
+  maxProperties?: number; // Defaults to MAX_PROPERTIES
+  outputDir: string;
+  search?: SearchCriteria; // Merged over SEARCH_CRITERIA for this city
+}
 
 export const ScrapingConfig = {
+  // Site and search API origins, without a trailing slash. Point both at a
+  // local mock server (realtor-scraper mock) to run without network.
+  SITE_BASE_URL: "https://www.realtor.ca",
+  API_BASE_URL: "https://api2.realtor.ca",
+
   // Default listing URL to scrape (Page 1 uses different URL structure)
-  // DEFAULT_LISTING_URL: "https://www.realtor.ca/on/mississauga/real-estate",
   DEFAULT_LISTING_URL: "https://www.realtor.ca/on/toronto/real-estate",
 
+  // Cities scraped in a single run, in order. Each city gets its own
+  // listing URL, output directory (daily + master files) and optionally its
+  // own limits; without them MAX_PAGES / MAX_PROPERTIES apply.
+  CITY_TARGETS: [
+    {
+      name: "Toronto",
+      listingUrl: "https://www.realtor.ca/on/toronto/real-estate",
+      outputDir: "./output/toronto",
+    },
+    {
+      name: "Mississauga",
+      listingUrl: "https://www.realtor.ca/on/mississauga/real-estate",
+      outputDir: "./output/mississauga",
+    },
+  ] as CityTarget[],
+
+  // Search filters applied to every city (see SearchCriteria), e.g.
+  // { buildingType: "condo", maxPrice: 700000 }
+  SEARCH_CRITERIA: {} as SearchCriteria,
+
+  // Local city URL -> GeoId registry (hand-editable JSON). Entries older
+  // than the max age are rediscovered on the next run.
+  GEOID_REGISTRY_FILE: "./geoid-registry.json",
+  GEOID_REGISTRY_MAX_AGE_DAYS: 90,
+
   // Maximum number of pages to scrape
   MAX_PAGES: 50,
   START_PAGE: 1, // Start from page 1
@@ -92,7 +282,7 @@ export const ScrapingConfig = {
   BROWSER_SLOW_MO: 100, // Slow down for debugging
   ENABLE_CACHE: true,
   USER_DATA_DIR: "./browser-data",
-  PAGE_LOAD_STRATEGY: "domcontentloaded" as const,
+  PAGE_LOAD_STRATEGY: "domcontentloaded" as PageLoadStrategy,
 
   // Timeouts (will be overridden by dynamic timeout functions)
   NAVIGATION_TIMEOUT: 30000,
@@ -123,15 +313,45 @@ export const ScrapingConfig = {
   // Output file names
   JSON_OUTPUT_FILENAME: "listings-scrape",
   CSV_OUTPUT_FILENAME: "listings-scrape",
+  JSON_INCLUDE_NORMALIZED: false, // Add a NORMALIZED object (typed date, price, coordinates...) to each JSON record
 
   // Enable/disable pagination
   USE_PAGINATION: true,
 
   // Memory and performance settings
   USE_DYNAMIC_UPDATES: true,
-  MEMORY_MODE: "ultra-streaming", // Options: "standard", "efficient", "ultra", "streaming", "ultra-streaming"
+  MEMORY_MODE: "ultra-streaming" as MemoryMode, // Options: "standard", "efficient", "ultra", "streaming", "ultra-streaming"
+  STORAGE_BACKEND: "excel" as StorageBackend, // Master dataset: "excel" or "sqlite"
+  WRITE_BATCH_SIZE: 25, // Properties buffered before the workbooks are written
+  WRITE_BATCH_INTERVAL: 30000, // Longest time a buffered property waits to be written (ms)
+  COLUMN_PROFILE: "standard" as ColumnProfile, // Options: "basic", "standard", "extended"
+
+  // Property data source
+  EXTRACTION_MODE: "detail-page" as ExtractionMode, // Options: "detail-page", "api"
+  API_DETAIL_FALLBACK: true, // In "api" mode, load the detail page for fields the API left empty
+
+  // Concurrent property scraping
+  CONCURRENCY: 1, // Browser pages scraping detail pages in parallel
+  MAX_REQUESTS_PER_MINUTE: 30, // Detail pages opened per minute across all pages (0 = no limit)
+
+  // Offline extraction tests
+  FIXTURE_CAPTURE_DIR: "", // Save every scraped detail page here as a test fixture (empty = off)
+
+  // Master workbook backups, rotated after every backup: the newest
+  // BACKUP_KEEP_LAST, plus the newest per day and per week of the windows
+  BACKUP_DIR: "./backups", // One sub-directory per workbook
+  BACKUP_KEEP_LAST: 5,
+  BACKUP_KEEP_DAILY_DAYS: 7, // Daily backups for a week (0 = none)
+  BACKUP_KEEP_WEEKLY_WEEKS: 4, // Weekly backups for a month (0 = none)
+
+  // Network recordings (record/replay a whole run)
+  HAR_MODE: "off" as HarMode, // Options: "off", "record", "replay"
+  HAR_DIR: "./har", // One sub-directory of HAR files per recorded run
+  HAR_RUN_ID: "", // Run to replay; record: name of the recording (empty = timestamp)
 };
 
+export type ScrapingConfigShape = typeof ScrapingConfig;
+
 // ============ HELPER FUNCTIONS ============
 /**
  * Quick function to change timeout mode
@@ -152,8 +372,17 @@ export function setTimeoutMode(mode: TimeoutMode): void {
     `   Navigation timeout: ${TIMEOUT_PRESETS[mode].NAVIGATION_TIMEOUT / 1000}s`
   );
 
-  // Update the current mode (requires restart to take effect)
-  (global as any).CURRENT_TIMEOUT_MODE = mode;
+  // Update the current mode and apply its delays to the live configuration
+  CURRENT_TIMEOUT_MODE = mode;
+  Object.assign(ScrapingConfig, TIMEOUT_PRESETS[mode]);
+}
+
+/**
+ * Apply one of the ConfigPresets to the live configuration
+ */
+export function applyConfigPreset(preset: ConfigPresetName): void {
+  console.log(`🎛️  Applying ${preset} configuration preset`);
+  Object.assign(ScrapingConfig, ConfigPresets[preset]);
 }
 
 /**
@@ -166,6 +395,51 @@ export function getCurrentTimeoutSettings() {
   };
 }
 
+/**
+ * Build a city target from a realtor.ca listing URL, deriving the name and
+ * output directory from the city segment of the URL
+ */
+export function cityTargetFromUrl(
+  listingUrl: string,
+  overrides: Partial<CityTarget> = {}
+): CityTarget {
+  const cityMatch = listingUrl.match(/\/([^\/]+)\/real-estate/);
+  const slug = cityMatch ? cityMatch[1].toLowerCase() : "unknown";
+
+  return {
+    name: slug.charAt(0).toUpperCase() + slug.slice(1),
+    listingUrl,
+    outputDir: `./output/${slug}`,
+    ...overrides,
+  };
+}
+
+/**
+ * Page and property limits of a city target, falling back to MAX_PAGES and
+ * MAX_PROPERTIES. Read when a city is scraped, so presets, the config file,
+ * REALTOR_* variables and flags have all been applied.
+ */
+export function getCityTargetLimits(target: CityTarget): {
+  maxPages: number;
+  maxProperties: number;
+} {
+  return {
+    maxPages: target.maxPages ?? ScrapingConfig.MAX_PAGES,
+    maxProperties: target.maxProperties ?? ScrapingConfig.MAX_PROPERTIES,
+  };
+}
+
+/**
+ * Search criteria for a city: the global SEARCH_CRITERIA with the city's own
+ * search fields layered on top
+ */
+export function resolveSearchCriteria(
+  target: CityTarget,
+  baseCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA
+): SearchCriteria {
+  return { ...baseCriteria, ...target.search };
+}
+
 // Export individual categories for easier imports
 export const TimingConfig = {
   get INITIAL_PAGE_LOAD_DELAY() {
@@ -192,41 +466,66 @@ export const TimingConfig = {
 };
 
 export const PaginationConfig = {
-  MAX_PAGES: ScrapingConfig.MAX_PAGES,
-  MAX_PROPERTIES: ScrapingConfig.MAX_PROPERTIES,
-  USE_PAGINATION: ScrapingConfig.USE_PAGINATION,
-  PROPERTIES_PER_PAGE: ScrapingConfig.PROPERTIES_PER_PAGE,
+  get MAX_PAGES() {
+    return ScrapingConfig.MAX_PAGES;
+  },
+  get MAX_PROPERTIES() {
+    return ScrapingConfig.MAX_PROPERTIES;
+  },
+  get USE_PAGINATION() {
+    return ScrapingConfig.USE_PAGINATION;
+  },
+  get PROPERTIES_PER_PAGE() {
+    return ScrapingConfig.PROPERTIES_PER_PAGE;
+  },
 };
 
 export const BrowserConfig = {
-  HEADLESS_MODE: ScrapingConfig.HEADLESS_MODE,
+  get HEADLESS_MODE() {
+    return ScrapingConfig.HEADLESS_MODE;
+  },
   get NAVIGATION_TIMEOUT() {
     return ScrapingConfig.NAVIGATION_TIMEOUT;
   },
-  COOKIE_BANNER_TIMEOUT: ScrapingConfig.COOKIE_BANNER_TIMEOUT,
-  BROWSER_SLOW_MO: ScrapingConfig.BROWSER_SLOW_MO,
-  VIEWPORT_WIDTH: ScrapingConfig.VIEWPORT_WIDTH,
-  VIEWPORT_HEIGHT: ScrapingConfig.VIEWPORT_HEIGHT,
-  PAGE_LOAD_STRATEGY: ScrapingConfig.PAGE_LOAD_STRATEGY,
+  get COOKIE_BANNER_TIMEOUT() {
+    return ScrapingConfig.COOKIE_BANNER_TIMEOUT;
+  },
+  get BROWSER_SLOW_MO() {
+    return ScrapingConfig.BROWSER_SLOW_MO;
+  },
+  get VIEWPORT_WIDTH() {
+    return ScrapingConfig.VIEWPORT_WIDTH;
+  },
+  get VIEWPORT_HEIGHT() {
+    return ScrapingConfig.VIEWPORT_HEIGHT;
+  },
+  get PAGE_LOAD_STRATEGY() {
+    return ScrapingConfig.PAGE_LOAD_STRATEGY;
+  },
   get ELEMENT_WAIT_TIMEOUT() {
     return ScrapingConfig.ELEMENT_WAIT_TIMEOUT;
   },
   get PAGE_LOAD_WAIT_TIMEOUT() {
     return ScrapingConfig.PAGE_LOAD_WAIT_TIMEOUT;
   },
-  ENABLE_CACHE: ScrapingConfig.ENABLE_CACHE,
-  USER_DATA_DIR: ScrapingConfig.USER_DATA_DIR,
-  NAVIGATION_RETRIES: ScrapingConfig.NAVIGATION_RETRIES,
+  get ENABLE_CACHE() {
+    return ScrapingConfig.ENABLE_CACHE;
+  },
+  get USER_DATA_DIR() {
+    return ScrapingConfig.USER_DATA_DIR;
+  },
+  get NAVIGATION_RETRIES() {
+    return ScrapingConfig.NAVIGATION_RETRIES;
+  },
   get NAVIGATION_RETRY_DELAY() {
     return ScrapingConfig.NAVIGATION_RETRY_DELAY;
   },
 };
 
-// Quick configuration presets
+// Quick configuration presets, holding only the settings each one changes
 export const ConfigPresets = {
   // Fast testing - minimal delays, few properties
   FAST_TEST: {
-    ...ScrapingConfig,
     MAX_PAGES: 2,
     MAX_PROPERTIES: 5,
     PROPERTY_SCRAPING_DELAY: 1000,
@@ -236,7 +535,6 @@ export const ConfigPresets = {
 
   // Production - conservative delays, many properties
   PRODUCTION: {
-    ...ScrapingConfig,
     MAX_PAGES: 10,
     MAX_PROPERTIES: 100,
     PROPERTY_SCRAPING_DELAY: 5000,
@@ -247,7 +545,6 @@ export const ConfigPresets = {
 
   // Debug - visible browser, slow execution
   DEBUG: {
-    ...ScrapingConfig,
     MAX_PAGES: 2,
     MAX_PROPERTIES: 3,
     PROPERTY_SCRAPING_DELAY: 5000,
@@ -258,21 +555,28 @@ export const ConfigPresets = {
   },
 };
 
+export type ConfigPresetName = keyof typeof ConfigPresets;
+
 // ============ TIMEOUT MODE EXAMPLES ============
 /*
 Usage Examples:
 
 1. For quick testing (change at top of file):
-   export const CURRENT_TIMEOUT_MODE: TimeoutMode = "fast";
+   export let CURRENT_TIMEOUT_MODE: TimeoutMode = "fast";
 
 2. For stable production:
-   export const CURRENT_TIMEOUT_MODE: TimeoutMode = "normal";
+   export let CURRENT_TIMEOUT_MODE: TimeoutMode = "normal";
 
 3. For slow/unreliable connections:
-   export const CURRENT_TIMEOUT_MODE: TimeoutMode = "slow";
+   export let CURRENT_TIMEOUT_MODE: TimeoutMode = "slow";
 
 4. For debugging issues:
-   export const CURRENT_TIMEOUT_MODE: TimeoutMode = "debug";
+   export let CURRENT_TIMEOUT_MODE: TimeoutMode = "debug";
+
+5. Without editing this file:
+   TIMEOUT_MODE: slow          (realtor.config.yaml)
+   REALTOR_TIMEOUT_MODE=slow   (environment variable)
+   --timeout-mode slow         (command line)
 
 All timeouts will automatically adjust based on the selected mode!
 */
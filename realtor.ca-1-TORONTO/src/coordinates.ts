@@ -0,0 +1,141 @@
+import { CoordinateBounds, CANADA_BOUNDS } from "./provinces";
+
+// Where a listing's coordinates came from, most trustworthy first
+export type CoordinateSource =
+  | "api" // Property.Address of the search API result
+  | "json-ld" // schema.org geo of the detail page
+  | "map" // Map widget configuration of the detail page
+  | "meta" // geo meta tags
+  | "script" // First coordinate-like numbers in a page script
+  | "none";
+
+export type CoordinateConfidence = "high" | "medium" | "low" | "none";
+
+// Confidence of a source whose point falls inside the city's bounding box
+const SOURCE_CONFIDENCE: {
+  [source in CoordinateSource]: CoordinateConfidence;
+} = {
+  api: "high",
+  "json-ld": "high",
+  map: "high",
+  meta: "medium",
+  script: "low",
+  none: "none",
+};
+
+// Degrees added around the listings of a search to get the city's box
+const SEARCH_BOUNDS_PADDING = 0.02;
+
+// Share of listings ignored at each edge of the search box, so a few badly
+// geocoded listings do not stretch it (only with enough listings)
+const SEARCH_BOUNDS_TRIM = 0.02;
+const SEARCH_BOUNDS_MIN_POINTS = 20;
+
+export interface CoordinateCandidate {
+  latitude: number;
+  longitude: number;
+  source: CoordinateSource;
+}
+
+// Coordinate fields of a PropertyData record
+export interface CoordinateFields {
+  LATITUDE: string;
+  LONGITUDE: string;
+  COORDINATE_SOURCE: CoordinateSource;
+  COORDINATE_CONFIDENCE: CoordinateConfidence;
+}
+
+export function isWithinBounds(
+  latitude: number,
+  longitude: number,
+  bounds: CoordinateBounds
+): boolean {
+  return (
+    latitude >= bounds.minLatitude &&
+    latitude <= bounds.maxLatitude &&
+    longitude >= bounds.minLongitude &&
+    longitude <= bounds.maxLongitude
+  );
+}
+
+// Function to read a latitude/longitude pair, null unless both are numbers
+export function toCoordinateCandidate(
+  latitude: string | number | undefined | null,
+  longitude: string | number | undefined | null,
+  source: CoordinateSource
+): CoordinateCandidate | null {
+  const lat = parseFloat(String(latitude));
+  const lng = parseFloat(String(longitude));
+  if (isNaN(lat) || isNaN(lng)) return null;
+  return { latitude: lat, longitude: lng, source };
+}
+
+/**
+ * Bounding box of the listings of a city's search, padded a little. This is
+ * the city's box that scraped coordinates are checked against; null until
+ * there are listings with coordinates.
+ */
+export function getSearchBounds(
+  points: { latitude: number; longitude: number }[]
+): CoordinateBounds | null {
+  if (points.length === 0) return null;
+
+  const trimmed = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const skip =
+      sorted.length >= SEARCH_BOUNDS_MIN_POINTS
+        ? Math.floor(sorted.length * SEARCH_BOUNDS_TRIM)
+        : 0;
+    return [sorted[skip], sorted[sorted.length - 1 - skip]];
+  };
+  const [minLatitude, maxLatitude] = trimmed(points.map((p) => p.latitude));
+  const [minLongitude, maxLongitude] = trimmed(points.map((p) => p.longitude));
+
+  return {
+    minLatitude: minLatitude - SEARCH_BOUNDS_PADDING,
+    maxLatitude: maxLatitude + SEARCH_BOUNDS_PADDING,
+    minLongitude: minLongitude - SEARCH_BOUNDS_PADDING,
+    maxLongitude: maxLongitude + SEARCH_BOUNDS_PADDING,
+  };
+}
+
+/**
+ * Pick the coordinates of a listing from candidates in source order. Points
+ * outside the province are dropped; the first point inside the city's box
+ * wins with its source's confidence. When every remaining point is outside
+ * the city's box the first one is kept with low confidence.
+ */
+export function chooseCoordinates(
+  candidates: (CoordinateCandidate | null)[],
+  cityBounds: CoordinateBounds | null = null,
+  provinceBounds: CoordinateBounds = CANADA_BOUNDS
+): CoordinateFields {
+  const plausible = candidates.filter(
+    (candidate): candidate is CoordinateCandidate =>
+      candidate !== null &&
+      isWithinBounds(candidate.latitude, candidate.longitude, provinceBounds)
+  );
+
+  const inCity = plausible.find(
+    (candidate) =>
+      !cityBounds ||
+      isWithinBounds(candidate.latitude, candidate.longitude, cityBounds)
+  );
+  const chosen = inCity || plausible[0];
+
+  if (!chosen) {
+    return {
+      LATITUDE: "N/A",
+      LONGITUDE: "N/A",
+      COORDINATE_SOURCE: "none",
+      COORDINATE_CONFIDENCE: "none",
+    };
+  }
+
+  return {
+    LATITUDE: chosen.latitude.toString(),
+    LONGITUDE: chosen.longitude.toString(),
+    COORDINATE_SOURCE: chosen.source,
+    COORDINATE_CONFIDENCE: inCity ? SOURCE_CONFIDENCE[chosen.source] : "low",
+  };
+}
@@ -0,0 +1,340 @@
+import { Page } from "playwright";
+
+// Where a rule reads its value from on the detail page
+export type RuleSource =
+  | "title" // document.title
+  | "meta" // Attribute of a meta tag (content by default)
+  | "selector" // Text or attribute of elements matching a CSS selector
+  | "label" // Value next to a label in the property detail sections
+  | "dataLayer" // Field of a Google Analytics dataLayer entry
+  | "jsonLd" // Object in a JSON-LD block holding every key of `path`
+  | "script" // Content of an inline (non JSON-LD) script
+  | "text"; // Text of the whole page
+
+// How a matched value is cleaned up before it is returned
+export type RuleTransform =
+  | "clean" // Collapse whitespace
+  | "upper" // Upper case
+  | "postal" // Postal code without spaces, upper case
+  | "price" // Number formatted as "$1,234,567"
+  | "largest-price"; // Largest "$" amount of every match, as "$1,234,567"
+
+/**
+ * One way of reading a field from a listing page. Rules are plain data, so
+ * they can be passed into the page and changed without touching the engine.
+ * Regexes are strings; a value is kept when it matches `require`, matches
+ * `pattern` (its `groups` are joined with ",") and does not match `exclude`.
+ */
+export interface ExtractionRule {
+  id: string; // Recorded when the rule matches, unique within its field
+  source: RuleSource;
+  selector?: string | string[]; // meta: several are read and joined with ","
+  attribute?: string | string[]; // meta, selector; several are joined with ","
+  all?: boolean; // selector: join the distinct values of every element
+  label?: string; // label: regex of the label text
+  path?: string | string[]; // dataLayer: dotted path; jsonLd: keys
+  require?: string; // Tested against the value, which is then kept whole
+  pattern?: string;
+  flags?: string; // Flags of require, pattern and exclude, "i" by default
+  groups?: number[]; // Capture groups kept, [1] by default when there is one
+  exclude?: string;
+  minLength?: number;
+  maxLength?: number;
+  transform?: RuleTransform;
+  kind?: string; // Category of the value, e.g. the coordinate source
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  kind?: string;
+  value: string;
+}
+
+// Field name -> its rules, tried in order
+export interface FieldRules {
+  [field: string]: ExtractionRule[];
+}
+
+/**
+ * Resolve fields on the page. In "first" mode each field gets the match of
+ * its first matching rule; in "all" mode every matching rule contributes one
+ * match, in rule order. Fields without a match get an empty list.
+ */
+export async function resolveFields(
+  page: Page,
+  fields: FieldRules,
+  labelSelector: string,
+  mode: "first" | "all" = "first"
+): Promise<{ [field: string]: RuleMatch[] }> {
+  return page.evaluate(
+    ({ fields, labelSelector, mode }) => {
+      const clean = (text: string | null | undefined) =>
+        (text || "").replace(/\s+/g, " ").trim();
+
+      // Same fixed locale as formatPrice() in normalize.ts
+      const formatPrice = (amount: number) =>
+        "$" + amount.toLocaleString("en-CA");
+
+      const toList = (value: string | string[] | undefined): string[] =>
+        value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+      const applyPattern = (
+        rule: ExtractionRule,
+        value: string
+      ): string | null => {
+        if (!rule.pattern) return value;
+        const match = value.match(new RegExp(rule.pattern, rule.flags ?? "i"));
+        if (!match) return null;
+        const groups: number[] =
+          rule.groups || (match.length > 1 ? [1] : [0]);
+        return groups.map((group) => (match[group] || "").trim()).join(",");
+      };
+
+      const accept = (
+        rule: ExtractionRule,
+        raw: string | null | undefined
+      ): string | null => {
+        if (raw === null || raw === undefined) return null;
+        let value: string | null = raw.trim();
+        if (!value) return null;
+
+        if (rule.transform === "largest-price") {
+          if (!rule.pattern) return null;
+          const flags = (rule.flags ?? "i").replace("g", "") + "g";
+          const amounts = (
+            value.match(new RegExp(rule.pattern, flags)) || []
+          ).map((amount) => parseFloat(amount.replace(/[$,]/g, "")));
+          return amounts.length > 0 ? formatPrice(Math.max(...amounts)) : null;
+        }
+
+        const test = (regex: string | undefined) =>
+          !!regex && new RegExp(regex, rule.flags ?? "i").test(value!);
+        if (rule.require && !test(rule.require)) return null;
+        value = applyPattern(rule, value);
+        if (!value || test(rule.exclude)) return null;
+        if (rule.minLength !== undefined && value.length < rule.minLength) {
+          return null;
+        }
+        if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+          return null;
+        }
+
+        switch (rule.transform) {
+          case "clean":
+            return clean(value);
+          case "upper":
+            return value.toUpperCase();
+          case "postal":
+            return value.replace(/\s/g, "").toUpperCase();
+          case "price": {
+            const amount = parseFloat(value.replace(/[$,]/g, ""));
+            return isNaN(amount) ? null : formatPrice(amount);
+          }
+          default:
+            return value;
+        }
+      };
+
+      const readElement = (element: Element, rule: ExtractionRule) => {
+        const attributes = toList(rule.attribute);
+        if (attributes.length === 0) return element.textContent;
+
+        const values = attributes.map((name) => element.getAttribute(name));
+        return values.every((value) => value !== null)
+          ? values.join(",")
+          : null;
+      };
+
+      const getPath = (value: unknown, path: string) =>
+        path
+          .split(".")
+          .reduce<unknown>(
+            (current, key) =>
+              current !== null && typeof current === "object"
+                ? (current as Record<string, unknown>)[key]
+                : undefined,
+            value
+          );
+
+      const findJsonLd = (value: unknown, keys: string[]): string | null => {
+        if (!value || typeof value !== "object") return null;
+        if (Array.isArray(value)) {
+          for (const item of value) {
+            const found = findJsonLd(item, keys);
+            if (found) return found;
+          }
+          return null;
+        }
+        const record = value as Record<string, unknown>;
+        if (keys.every((key) => record[key] !== undefined)) {
+          return keys.map((key) => String(record[key])).join(",");
+        }
+        for (const item of Object.values(record)) {
+          const found = findJsonLd(item, keys);
+          if (found) return found;
+        }
+        return null;
+      };
+
+      const inlineScripts = () =>
+        Array.from(
+          document.querySelectorAll("script:not([type='application/ld+json'])")
+        ).map((script) => script.textContent || "");
+
+      const evaluateRule = (rule: ExtractionRule): string | null => {
+        switch (rule.source) {
+          case "title":
+            return accept(rule, document.title);
+
+          case "meta": {
+            const attribute = toList(rule.attribute)[0] || "content";
+            const values = toList(rule.selector).map(
+              (selector) =>
+                document.querySelector(selector)?.getAttribute(attribute) ||
+                ""
+            );
+            return values.every((value) => value.trim())
+              ? accept(rule, values.join(","))
+              : null;
+          }
+
+          case "selector": {
+            const elements = Array.from(
+              document.querySelectorAll(toList(rule.selector).join(", "))
+            );
+            if (rule.all) {
+              const values = elements
+                .map((element) => accept(rule, readElement(element, rule)))
+                .filter((value): value is string => !!value);
+              return values.length > 0
+                ? Array.from(new Set(values)).join(" ")
+                : null;
+            }
+            for (const element of elements) {
+              const value = accept(rule, readElement(element, rule));
+              if (value) return value;
+            }
+            return null;
+          }
+
+          case "label": {
+            if (!rule.label) return null;
+            const labelPattern = new RegExp(rule.label, "i");
+            const labels = Array.from(document.querySelectorAll(labelSelector));
+            for (const label of labels) {
+              const text = clean(label.textContent).replace(/:$/, "");
+              if (labelPattern.test(text)) {
+                const value = accept(
+                  rule,
+                  clean(label.nextElementSibling?.textContent)
+                );
+                if (value) return value;
+              }
+            }
+            return null;
+          }
+
+          case "dataLayer": {
+            const dataLayer = (window as Window & { dataLayer?: unknown })
+              .dataLayer;
+            if (!Array.isArray(dataLayer) || typeof rule.path !== "string") {
+              return null;
+            }
+            for (const entry of dataLayer) {
+              const value = getPath(entry, rule.path);
+              if (value !== undefined && value !== null && value !== "") {
+                return accept(rule, String(value));
+              }
+            }
+            return null;
+          }
+
+          case "jsonLd": {
+            const keys = toList(rule.path);
+            const blocks = document.querySelectorAll(
+              'script[type="application/ld+json"]'
+            );
+            for (const block of Array.from(blocks)) {
+              try {
+                const found = findJsonLd(
+                  JSON.parse(block.textContent || ""),
+                  keys
+                );
+                const value = found ? accept(rule, found) : null;
+                if (value) return value;
+              } catch {
+                // Malformed JSON-LD blocks are skipped
+              }
+            }
+            return null;
+          }
+
+          case "script":
+            for (const content of inlineScripts()) {
+              const value = accept(rule, content);
+              if (value) return value;
+            }
+            return null;
+
+          case "text":
+            return accept(rule, document.body.textContent || "");
+        }
+        return null;
+      };
+
+      const results: { [field: string]: RuleMatch[] } = {};
+      for (const [field, rules] of Object.entries(fields)) {
+        results[field] = [];
+        for (const rule of rules) {
+          let value: string | null = null;
+          try {
+            value = evaluateRule(rule);
+          } catch {
+            // A broken rule (e.g. an invalid selector) counts as no match
+          }
+          if (value) {
+            results[field].push({ ruleId: rule.id, kind: rule.kind, value });
+            if (mode === "first") break;
+          }
+        }
+      }
+      return results;
+    },
+    { fields, labelSelector, mode }
+  );
+}
+
+/**
+ * Counts of the rules that matched each field, to see which rules still
+ * work after a site change and which fields fall back to weaker rules
+ */
+export class RuleMatchLog {
+  private counts: { [field: string]: { [ruleId: string]: number } } = {};
+  private misses: { [field: string]: number } = {};
+
+  constructor(readonly version: string) {}
+
+  record(field: string, match: RuleMatch | undefined): void {
+    if (!match) {
+      this.misses[field] = (this.misses[field] || 0) + 1;
+      return;
+    }
+    const fieldCounts = (this.counts[field] = this.counts[field] || {});
+    fieldCounts[match.ruleId] = (fieldCounts[match.ruleId] || 0) + 1;
+  }
+
+  // One line per field, e.g. "ADDRESS: title x12, h1 x2, no match x1"
+  summary(): string[] {
+    const fields = new Set([
+      ...Object.keys(this.counts),
+      ...Object.keys(this.misses),
+    ]);
+    return [...fields].map((field) => {
+      const parts = Object.entries(this.counts[field] || {})
+        .sort((a, b) => b[1] - a[1])
+        .map(([ruleId, count]) => `${ruleId} x${count}`);
+      if (this.misses[field]) parts.push(`no match x${this.misses[field]}`);
+      return `${field}: ${parts.join(", ")}`;
+    });
+  }
+}
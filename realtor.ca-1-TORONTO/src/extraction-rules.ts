@@ -0,0 +1,406 @@
+import { ExtractionRule, FieldRules } from "./extraction-engine";
+
+/**
+ * Rules for reading realtor.ca listing pages, as data. When the site changes,
+ * update the rules here (and bump the version, which is logged with the rule
+ * match summary of each run) instead of the scraper.
+ */
+export const EXTRACTION_RULES_VERSION = "1";
+
+// Labels of the label/value pairs in the property detail sections
+export const LABEL_SELECTOR = ".propertyDetailsSectionContentLabel, dt, th";
+
+// Titles read "For sale: ...", "For rent: ..." or "For lease: ..."
+const TITLE_PREFIX = "For (?:sale|rent|lease):\\s*";
+
+const OG_DESCRIPTION = 'meta[property="og:description"]';
+
+// Canadian postal code pattern: A1A 1A1
+const POSTAL_PATTERN = "([A-Z]\\d[A-Z]\\s?\\d[A-Z]\\d)";
+
+// Rules reading the text of the first matching element of each selector, in
+// order; the rule ID is the selector
+function bySelectors(
+  selectors: string[],
+  options: Partial<ExtractionRule> = {}
+): ExtractionRule[] {
+  return selectors.map((selector) => ({
+    id: selector,
+    source: "selector",
+    selector,
+    ...options,
+  }));
+}
+
+// Rules per column, tried in order until one matches
+export const FIELD_RULES: FieldRules = {
+  ADDRESS: [
+    { id: "title", source: "title", pattern: `${TITLE_PREFIX}(.+?),\\s*` },
+    {
+      id: "og-description",
+      source: "meta",
+      selector: OG_DESCRIPTION,
+      pattern: "(.+?),\\s*",
+    },
+    ...bySelectors(
+      [
+        'h1[data-testid="listing-address"]',
+        ".listingAddress h1",
+        "h1.listingAddress",
+        ".property-address",
+        ".listing-address",
+        'h1[class*="address"]',
+        ".listing-details h1",
+        ".property-info h1",
+        "h1",
+      ],
+      {
+        // Only text that looks like a street address
+        require:
+          "\\d|\\b(street|st|avenue|ave|road|rd|drive|dr|lane|ln|way|circle|cir|court|ct)\\b",
+      }
+    ),
+  ],
+
+  CITY: [
+    {
+      id: "title",
+      source: "title",
+      pattern: `${TITLE_PREFIX}.+?,\\s*(.+?),\\s*`,
+    },
+    {
+      id: "og-description",
+      source: "meta",
+      selector: OG_DESCRIPTION,
+      pattern: ".+?,\\s*(.+?),\\s*",
+    },
+    { id: "dataLayer", source: "dataLayer", path: "property.city" },
+    ...bySelectors([
+      '[data-testid="listing-city"]',
+      ".listingCity",
+      ".property-city",
+      ".listing-location",
+    ]),
+    {
+      id: "breadcrumb",
+      source: "selector",
+      selector: ".breadcrumb span, .breadcrumb a",
+      require: "\\(.*\\)",
+    },
+  ],
+
+  POSTAL: [
+    {
+      id: "title",
+      source: "title",
+      pattern: POSTAL_PATTERN,
+      flags: "",
+      transform: "postal",
+    },
+    {
+      id: "og-description",
+      source: "meta",
+      selector: OG_DESCRIPTION,
+      pattern: POSTAL_PATTERN,
+      flags: "",
+      transform: "postal",
+    },
+    {
+      id: "page-text",
+      source: "text",
+      pattern: POSTAL_PATTERN,
+      flags: "",
+      transform: "postal",
+    },
+  ],
+
+  AGENT: [
+    {
+      id: "realtorCardName",
+      source: "selector",
+      selector: ".realtorCardName",
+      maxLength: 49,
+      transform: "upper",
+    },
+    {
+      // A short all-caps name in an agent or realtor container
+      id: "agent-class",
+      source: "selector",
+      selector: '[class*="agent"], [class*="realtor"]',
+      require: "^[A-Z\\s]+$",
+      exclude: "HOMELIFE|REALTY|INC",
+      flags: "",
+      minLength: 3,
+      maxLength: 29,
+    },
+    ...bySelectors(
+      [
+        '[data-testid="agent-name"]',
+        ".agent-name",
+        ".listing-agent",
+        ".contact-agent .name",
+        ".agent-info .name",
+      ],
+      { transform: "upper" }
+    ),
+    {
+      id: "page-text",
+      source: "text",
+      pattern: "Agent:?\\s*([A-Z\\s]+)",
+      transform: "upper",
+    },
+  ],
+
+  BROKER: [
+    {
+      id: "officeCardName",
+      source: "selector",
+      selector: ".officeCardName",
+      minLength: 6,
+      transform: "upper",
+    },
+    {
+      id: "listingCardOfficeName",
+      source: "selector",
+      selector: ".listingCardOfficeName",
+      require: "BROKERAGE",
+      flags: "",
+      transform: "upper",
+    },
+    ...bySelectors(
+      [
+        '[data-testid="brokerage-name"]',
+        ".brokerage-name",
+        ".broker-name",
+        ".listing-brokerage",
+        ".contact-info .brokerage",
+      ],
+      { transform: "upper" }
+    ),
+    {
+      id: "page-text",
+      source: "text",
+      pattern: "(?:Broker|Brokerage|Office):?\\s*([A-Z\\s\\d\\-,]+)",
+      transform: "upper",
+    },
+  ],
+
+  PRICE: [
+    {
+      // Google Analytics dataLayer (most reliable)
+      id: "dataLayer",
+      source: "dataLayer",
+      path: "property.price",
+      transform: "price",
+    },
+    ...bySelectors(
+      [
+        '[data-testid="listing-price"]',
+        ".listing-price",
+        ".property-price",
+        ".price-display",
+        ".current-price",
+      ],
+      { require: "\\$" }
+    ),
+    {
+      // The largest amount on the page is likely the listing price
+      id: "largest-amount",
+      source: "text",
+      pattern: "\\$[\\d,]+(?:\\.\\d{2})?",
+      transform: "largest-price",
+    },
+  ],
+
+  LEASE_TERM: [
+    { id: "label", source: "label", label: "lease\\s*term|term of lease" },
+    {
+      id: "page-text",
+      source: "text",
+      pattern:
+        "Lease\\s*Term:?\\s*(\\d+\\s*(?:months?|years?)|month[\\s-]to[\\s-]month|short term|long term)",
+    },
+  ],
+
+  MLS_NUMBER: [
+    { id: "MLNumberVal", source: "selector", selector: "#MLNumberVal" },
+    {
+      // "MLS® Number: C1234567"
+      id: "page-text",
+      source: "text",
+      pattern: "MLS®?\\s*(?:Number|#):?\\s*([A-Z]*\\d+)",
+    },
+  ],
+};
+
+// Property details, read from the detail section labels first and then the
+// header icons. Only used by the extended column profile but always read.
+export const DETAIL_RULES: FieldRules = {
+  BEDROOMS: [
+    { id: "label", source: "label", label: "^bedrooms?\\b" },
+    {
+      id: "icon",
+      source: "selector",
+      selector: "#BedroomIcon .listingIconNum",
+      transform: "clean",
+    },
+  ],
+  BATHROOMS: [
+    { id: "label", source: "label", label: "^bathrooms?\\b" },
+    {
+      id: "icon",
+      source: "selector",
+      selector: "#BathroomIcon .listingIconNum",
+      transform: "clean",
+    },
+  ],
+  SQUARE_FEET: [
+    {
+      id: "label",
+      source: "label",
+      label: "square\\s*footage|interior\\s*(floor\\s*)?(size|space)",
+    },
+    {
+      id: "icon",
+      source: "selector",
+      selector: "#SquareFootageIcon .listingIconNum",
+      transform: "clean",
+    },
+  ],
+  LAND_SIZE: [
+    { id: "label", source: "label", label: "land\\s*size|lot\\s*size" },
+  ],
+  PROPERTY_TYPE: [{ id: "label", source: "label", label: "^property\\s*type" }],
+  BUILDING_TYPE: [{ id: "label", source: "label", label: "^building\\s*type" }],
+  STOREYS: [{ id: "label", source: "label", label: "^stor(e)?ys" }],
+  PARKING: [{ id: "label", source: "label", label: "^parking" }],
+  ANNUAL_TAXES: [{ id: "label", source: "label", label: "property\\s*tax" }],
+  MAINTENANCE_FEES: [
+    { id: "label", source: "label", label: "maintenance\\s*fee|condo\\s*fee" },
+  ],
+  YEAR_BUILT: [
+    { id: "label", source: "label", label: "built\\s*in|year\\s*built" },
+  ],
+  DESCRIPTION: [
+    {
+      id: "description",
+      source: "selector",
+      selector: "#propertyDescriptionCon, .propertyDescription",
+      transform: "clean",
+    },
+  ],
+  PHOTO_URLS: [
+    {
+      // Gallery photos, space-separated
+      id: "gallery",
+      source: "selector",
+      selector: "#listingPhotoGallery img, #heroImage img, .gallery img",
+      attribute: "src",
+      require: "^https?:",
+      all: true,
+    },
+    {
+      // The page's share image when there is no gallery
+      id: "og-image",
+      source: "meta",
+      selector: 'meta[property="og:image"]',
+    },
+  ],
+};
+
+// Text searched for the province name; every matching rule contributes
+export const PROVINCE_RULES: ExtractionRule[] = [
+  { id: "title", source: "title" },
+  { id: "og-description", source: "meta", selector: OG_DESCRIPTION },
+];
+
+// Coordinates as "latitude,longitude", most structured source first. `kind`
+// is the CoordinateSource; every matching rule gives a candidate.
+export const COORDINATE_RULES: ExtractionRule[] = [
+  {
+    // schema.org geo, or any JSON-LD object with latitude and longitude
+    id: "json-ld-geo",
+    source: "jsonLd",
+    path: ["latitude", "longitude"],
+    kind: "json-ld",
+  },
+  {
+    id: "data-lat-lng",
+    source: "selector",
+    selector: "[data-lat][data-lng]",
+    attribute: ["data-lat", "data-lng"],
+    kind: "map",
+  },
+  {
+    id: "data-lat-lon",
+    source: "selector",
+    selector: "[data-lat][data-lon]",
+    attribute: ["data-lat", "data-lon"],
+    kind: "map",
+  },
+  {
+    id: "data-latitude",
+    source: "selector",
+    selector: "[data-latitude][data-longitude]",
+    attribute: ["data-latitude", "data-longitude"],
+    kind: "map",
+  },
+  {
+    // Static map images and embedded map frames
+    id: "map-url",
+    source: "selector",
+    selector: "img[src], iframe[src]",
+    attribute: "src",
+    pattern: "[?&](?:center|q|ll)=(-?\\d+\\.\\d+)(?:,|%2C)\\s*(-?\\d+\\.\\d+)",
+    groups: [1, 2],
+    kind: "map",
+  },
+  {
+    // Map configuration: named latitude and longitude in the same script
+    id: "map-script",
+    source: "script",
+    pattern:
+      "[\"']?(?:latitude|lat)[\"']?\\s*[:=]\\s*[\"']?(-?\\d+\\.\\d+)[\\s\\S]*?[\"']?(?:longitude|lng|lon)[\"']?\\s*[:=]\\s*[\"']?(-?\\d+\\.\\d+)",
+    groups: [1, 2],
+    kind: "map",
+  },
+  {
+    id: "geo-meta",
+    source: "meta",
+    selector: [
+      'meta[property$="latitude"], meta[name$="latitude"]',
+      'meta[property$="longitude"], meta[name$="longitude"]',
+    ],
+    kind: "meta",
+  },
+  {
+    id: "geo-position-meta",
+    source: "meta",
+    selector: 'meta[name="geo.position"], meta[name="ICBM"]',
+    pattern: "(-?\\d+\\.\\d+)[;,]\\s*(-?\\d+\\.\\d+)",
+    groups: [1, 2],
+    kind: "meta",
+  },
+  {
+    // Last resort: the first two coordinate-like numbers of a script
+    id: "script-numbers",
+    source: "script",
+    pattern: "(-?\\d{2,3}\\.\\d{6,})[\\s\\S]*?(-?\\d{2,3}\\.\\d{6,})",
+    groups: [1, 2],
+    kind: "script",
+  },
+];
+
+// Search result pagination: the "next page" link by its accessible name,
+// then CSS selectors in order
+export const PAGINATION_RULES = {
+  nextPageLinkName: "Go to the next page",
+  nextPageSelectors: [
+    'a[aria-label="Go to the next page"]',
+    ".lnkNextResultsPage",
+    ".paginationLinkForward",
+    "a.lnkNextResultsPage.paginationLink.paginationLinkForward",
+    'a[href="#"]:has-text("Next")',
+    ".pagination a:last-child",
+  ],
+};
@@ -0,0 +1,80 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// A property that could not be scraped. Failures are kept out of the listing
+// workbooks and written to their own log instead.
+export interface ScrapeFailure {
+  url: string;
+  errorClass: string;
+  message: string;
+  attempts: number;
+  timestamp: string;
+}
+
+/**
+ * Build a failure record from whatever a scrape threw. Errors that carry an
+ * `attempts` count (e.g. NavigationError) keep it, anything else counts as one.
+ */
+export function toScrapeFailure(url: string, error: unknown): ScrapeFailure {
+  const attempts =
+    error && typeof (error as { attempts?: unknown }).attempts === "number"
+      ? (error as { attempts: number }).attempts
+      : 1;
+
+  return {
+    url,
+    errorClass: error instanceof Error ? error.name : typeof error,
+    message: error instanceof Error ? error.message : String(error),
+    attempts,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Failure log for a run. With a filename every failure is appended to it as a
+ * JSON line right away, so the log survives an interrupted run.
+ */
+export class FailureLog {
+  private failures: ScrapeFailure[] = [];
+
+  constructor(readonly filename?: string) {}
+
+  /**
+   * Failure log that sits next to a daily workbook
+   * (listings-scrape-<timestamp>.xlsx -> listings-scrape-<timestamp>-failures.jsonl)
+   */
+  static forDailyFile(dailyFile: string): FailureLog {
+    return new FailureLog(dailyFile.replace(/\.xlsx$/i, "") + "-failures.jsonl");
+  }
+
+  record(failure: ScrapeFailure): void {
+    this.failures.push(failure);
+    console.log(
+      `📝 Logged failure (${failure.errorClass}, ${failure.attempts} attempt${
+        failure.attempts === 1 ? "" : "s"
+      }): ${failure.url}`
+    );
+
+    if (this.filename) {
+      fs.mkdirSync(path.dirname(this.filename), { recursive: true });
+      fs.appendFileSync(this.filename, JSON.stringify(failure) + "\n");
+    }
+  }
+
+  get count(): number {
+    return this.failures.length;
+  }
+
+  list(): ScrapeFailure[] {
+    return [...this.failures];
+  }
+}
+
+// Function to save failure records as a JSON array
+export function saveFailuresToJSON(
+  failures: ScrapeFailure[],
+  filename: string
+): void {
+  fs.writeFileSync(filename, JSON.stringify(failures, null, 2));
+  console.log(`📝 Saved ${failures.length} failures to ${filename}`);
+}
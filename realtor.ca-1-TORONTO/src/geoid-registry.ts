@@ -0,0 +1,156 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ScrapingConfig } from "./config";
+import { CityGeoIdFinder, CityApiConfig } from "./city-geoid-finder";
+import { isHarReplay } from "./har";
+
+export interface GeoIdRegistryEntry extends CityApiConfig {
+  // ISO timestamp of the last successful discovery. Entries added by hand
+  // without it are treated as pinned and never go stale.
+  updatedAt?: string;
+}
+
+// On-disk layout: { "<city listing URL>": GeoIdRegistryEntry, ... }
+type RegistryFileContents = { [cityUrl: string]: GeoIdRegistryEntry };
+
+export interface ResolvedCityConfig {
+  cityConfig: CityApiConfig;
+  fromRegistry: boolean;
+}
+
+/**
+ * Local registry of city URL -> CityApiConfig, stored as a hand-editable
+ * JSON file so GeoId discovery only runs for new or stale cities
+ */
+export class GeoIdRegistry {
+  private entries: RegistryFileContents = {};
+
+  constructor(
+    private filename: string = ScrapingConfig.GEOID_REGISTRY_FILE,
+    private maxAgeDays: number = ScrapingConfig.GEOID_REGISTRY_MAX_AGE_DAYS
+  ) {
+    this.load();
+  }
+
+  /**
+   * Normalize a city URL so trailing slashes and casing don't create
+   * separate entries
+   */
+  static normalizeUrl(cityUrl: string): string {
+    return cityUrl.trim().replace(/\/+$/, "").toLowerCase();
+  }
+
+  get(cityUrl: string): GeoIdRegistryEntry | undefined {
+    return this.entries[GeoIdRegistry.normalizeUrl(cityUrl)];
+  }
+
+  isStale(entry: GeoIdRegistryEntry): boolean {
+    if (!entry.updatedAt) return false;
+
+    const updatedAt = Date.parse(entry.updatedAt);
+    if (isNaN(updatedAt)) return true;
+
+    const ageDays = (Date.now() - updatedAt) / (1000 * 60 * 60 * 24);
+    return ageDays > this.maxAgeDays;
+  }
+
+  /**
+   * Record a freshly discovered configuration and write the registry to disk
+   */
+  set(cityConfig: CityApiConfig): void {
+    this.entries[GeoIdRegistry.normalizeUrl(cityConfig.url)] = {
+      ...cityConfig,
+      updatedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  list(): GeoIdRegistryEntry[] {
+    return Object.values(this.entries);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filename)) return;
+
+    try {
+      const contents = JSON.parse(fs.readFileSync(this.filename, "utf8"));
+      for (const [cityUrl, entry] of Object.entries(
+        contents as RegistryFileContents
+      )) {
+        if (entry && entry.geoId) {
+          this.entries[GeoIdRegistry.normalizeUrl(cityUrl)] = {
+            ...entry,
+            url: entry.url || cityUrl,
+          };
+        } else {
+          console.log(
+            `⚠️  Ignoring GeoId registry entry without geoId: ${cityUrl}`
+          );
+        }
+      }
+    } catch (error) {
+      // A broken registry only costs a rediscovery, never the run
+      console.error(`❌ Could not read GeoId registry ${this.filename}:`, error);
+    }
+  }
+
+  private save(): void {
+    const directory = path.dirname(this.filename);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+    fs.writeFileSync(this.filename, JSON.stringify(this.entries, null, 2));
+    console.log(`💾 GeoId registry updated: ${this.filename}`);
+  }
+}
+
+/**
+ * Get the API configuration for a city: from the registry when a fresh entry
+ * exists, otherwise by browser discovery (saved back to the registry). A stale
+ * entry is still used when rediscovery fails. Replays of recorded runs never
+ * treat an entry as stale.
+ */
+export async function resolveCityConfig(
+  cityUrl: string,
+  options: { refresh?: boolean; registry?: GeoIdRegistry } = {}
+): Promise<ResolvedCityConfig | null> {
+  const registry = options.registry || new GeoIdRegistry();
+  const entry = registry.get(cityUrl);
+
+  if (
+    entry &&
+    !options.refresh &&
+    (isHarReplay() || !registry.isStale(entry))
+  ) {
+    console.log(
+      `📒 Using registered GeoId for ${entry.cityName}: ${entry.geoId}${
+        entry.updatedAt ? ` (updated ${entry.updatedAt})` : " (pinned)"
+      }`
+    );
+    return { cityConfig: entry, fromRegistry: true };
+  }
+
+  console.log(
+    entry
+      ? `🔄 Registered GeoId for ${entry.cityName} is ${
+          options.refresh ? "being refreshed" : "stale"
+        }, rediscovering...`
+      : `🆕 No registered GeoId for ${cityUrl}, discovering...`
+  );
+
+  const cityConfig = await new CityGeoIdFinder().findGeoIdForCity(cityUrl);
+
+  if (cityConfig) {
+    registry.set(cityConfig);
+    return { cityConfig, fromRegistry: false };
+  }
+
+  if (entry && !options.refresh) {
+    console.log(
+      `⚠️  Discovery failed, falling back to stale registry entry: ${entry.geoId}`
+    );
+    return { cityConfig: entry, fromRegistry: true };
+  }
+
+  return null;
+}
@@ -0,0 +1,226 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Browser, BrowserContext, BrowserContextOptions } from "playwright";
+import { ScrapingConfig } from "./config";
+import { generateTimestamp } from "./utils";
+
+/**
+ * Network recordings of scraping runs. In "record" mode every browser context
+ * (GeoId discovery, API session, detail pages) writes its traffic to a HAR
+ * file in HAR_DIR/<run ID>/; in "replay" mode the same contexts are served
+ * from those files, so a past run can be re-scraped while an extractor is
+ * fixed. Files are named after the session and the city, and numbered when
+ * a session repeats, so a replay opens them in the order they were recorded.
+ */
+
+/**
+ * Error raised when a replayed run lacks a recording the scraper asks for
+ */
+export class HarReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HarReplayError";
+  }
+}
+
+// Run ID of this process's recording, fixed when the first context opens
+let recordingRunId: string | null = null;
+// Contexts opened per mode and HAR file name, to number repeated sessions
+const sessionCounts = new Map<string, number>();
+// HAR file each replaying context is served from, and the parsed files
+const replayedFiles = new WeakMap<BrowserContext, string>();
+const harEntries = new Map<string, HarEntry[]>();
+// API calls each replaying context has answered, per method, URL and body
+const replayedCalls = new WeakMap<BrowserContext, Map<string, number>>();
+
+export function isHarReplay(): boolean {
+  return ScrapingConfig.HAR_MODE === "replay";
+}
+
+/**
+ * Run ID of the recording being written or replayed
+ */
+export function getHarRunId(): string {
+  if (ScrapingConfig.HAR_MODE === "replay") {
+    if (!ScrapingConfig.HAR_RUN_ID) {
+      throw new HarReplayError(
+        "HAR_RUN_ID must name the recorded run to replay"
+      );
+    }
+    return ScrapingConfig.HAR_RUN_ID;
+  }
+
+  if (!recordingRunId) {
+    recordingRunId = ScrapingConfig.HAR_RUN_ID || generateTimestamp();
+    console.log(
+      `🎙️  Recording network traffic of run ${recordingRunId} to ${getHarRunDirectory()} (replay with --replay-har ${recordingRunId})`
+    );
+  }
+  return recordingRunId;
+}
+
+export function getHarRunDirectory(): string {
+  return path.join(ScrapingConfig.HAR_DIR, getHarRunId());
+}
+
+/**
+ * HAR file of a session, e.g. ("api", ".../on/toronto/real-estate") ->
+ * api-on-toronto.har, then api-on-toronto-2.har when it opens again
+ */
+function nextHarFilename(session: string, url: string): string {
+  const place = new URL(url).pathname
+    .replace(/\/real-estate\/?$/, "")
+    .split("/")
+    .filter(Boolean)
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9-]/g, "");
+  const name = place ? `${session}-${place}` : session;
+
+  const key = `${ScrapingConfig.HAR_MODE}:${name}`;
+  const count = (sessionCounts.get(key) || 0) + 1;
+  sessionCounts.set(key, count);
+  return path.join(
+    getHarRunDirectory(),
+    count === 1 ? `${name}.har` : `${name}-${count}.har`
+  );
+}
+
+/**
+ * Open a browser context that records to or replays from the run's HAR files
+ * (a plain context when HAR_MODE is "off"). The recording is only written
+ * when the context is closed.
+ */
+export async function newHarContext(
+  browser: Browser,
+  session: string,
+  url: string,
+  options: BrowserContextOptions = {}
+): Promise<BrowserContext> {
+  if (ScrapingConfig.HAR_MODE === "off") {
+    return browser.newContext(options);
+  }
+
+  const filename = nextHarFilename(session, url);
+
+  if (ScrapingConfig.HAR_MODE === "record") {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    return browser.newContext({
+      ...options,
+      recordHar: { path: filename, mode: "full", content: "embed" },
+    });
+  }
+
+  if (!fs.existsSync(filename)) {
+    throw new HarReplayError(`Run ${getHarRunId()} has no ${filename}`);
+  }
+  console.log(`📼 Replaying ${filename}`);
+  const context = await browser.newContext(options);
+  // Requests that were never recorded fail instead of reaching the network
+  await context.routeFromHAR(filename, { notFound: "abort" });
+  replayedFiles.set(context, filename);
+  return context;
+}
+
+interface HarEntry {
+  request: { method: string; url: string; postData?: { text?: string } };
+  response: {
+    status: number;
+    statusText: string;
+    content: { text?: string; encoding?: string };
+  };
+}
+
+/**
+ * Response of a replayed API request, with the part of Playwright's
+ * APIResponse the API scraper reads
+ */
+export class HarResponse {
+  constructor(private entry: HarEntry) {}
+
+  ok(): boolean {
+    return this.status() >= 200 && this.status() < 300;
+  }
+
+  status(): number {
+    return this.entry.response.status;
+  }
+
+  statusText(): string {
+    return this.entry.response.statusText;
+  }
+
+  async text(): Promise<string> {
+    const { text = "", encoding } = this.entry.response.content;
+    return encoding === "base64"
+      ? Buffer.from(text, "base64").toString("utf8")
+      : text;
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(await this.text());
+  }
+}
+
+/**
+ * Find the recorded response of an API request in a context's HAR file.
+ * Playwright routes only requests of pages, so API calls made through
+ * page.request are replayed from here, matched on method, URL and form body.
+ * Playwright records the body of form requests only, so entries recorded
+ * without one are matched by call order: the n-th call to a method and URL
+ * gets the n-th recorded response.
+ */
+export function findHarResponse(
+  context: BrowserContext,
+  method: string,
+  url: string,
+  postData: string
+): HarResponse {
+  const filename = replayedFiles.get(context);
+  if (!replayedCalls.has(context)) {
+    replayedCalls.set(context, new Map());
+  }
+  const calls = replayedCalls.get(context)!;
+
+  const recorded = filename
+    ? loadHarEntries(filename).filter(
+        ({ request }) => request.method === method && request.url === url
+      )
+    : [];
+  const withBodies = recorded.some(({ request }) => request.postData?.text);
+  const candidates = withBodies
+    ? recorded.filter(({ request }) =>
+        isSameForm(request.postData?.text || "", postData)
+      )
+    : recorded;
+
+  // The same request may be repeated (e.g. a GeoId check, then page 1)
+  const key = withBodies ? `${method} ${url} ${postData}` : `${method} ${url}`;
+  const call = calls.get(key) || 0;
+  const entry = candidates[call];
+
+  if (!entry) {
+    throw new HarReplayError(
+      `Run ${getHarRunId()} has no recording of call ${
+        call + 1
+      } to ${method} ${url}${withBodies ? ` with body ${postData}` : ""}`
+    );
+  }
+  calls.set(key, call + 1);
+  return new HarResponse(entry);
+}
+
+// Whether two form bodies hold the same fields, however they were encoded
+function isSameForm(a: string, b: string): boolean {
+  return (
+    new URLSearchParams(a).toString() === new URLSearchParams(b).toString()
+  );
+}
+
+function loadHarEntries(filename: string): HarEntry[] {
+  if (!harEntries.has(filename)) {
+    const har = JSON.parse(fs.readFileSync(filename, "utf8"));
+    harEntries.set(filename, har.log.entries);
+  }
+  return harEntries.get(filename)!;
+}
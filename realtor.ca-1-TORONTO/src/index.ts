@@ -1,3 +1,6 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
 import {
   scrapeFromListingsPage,
   scrapeFromListingsPageWithPagination,
@@ -5,34 +8,211 @@ import {
   scrapeFromListingsPageUltraMemoryEfficient,
   scrapeFromListingsPageWithStreaming,
   scrapeFromListingsPageWithUltraStreaming,
+  StreamedScrapeResult,
 } from "./workflow";
-import { saveToCSV, saveToJSON, generateTimestamp } from "./utils";
-import { ScrapingConfig, ConfigPresets } from "./config";
+import { saveFailuresToJSON } from "./failures";
+import {
+  saveToCSV,
+  saveToJSON,
+  saveToExcel,
+  generateTimestamp,
+  ensureOutputDirectory,
+  getMasterFilename,
+  getScrapeFilePrefix,
+  loadPropertiesFromExcel,
+} from "./utils";
+import {
+  ScrapingConfig,
+  CityTarget,
+  SearchCriteria,
+  cityTargetFromUrl,
+  getCityTargetLimits,
+  resolveSearchCriteria,
+} from "./config";
+import { CliOptions, CliUsageError, USAGE, parseCliArgs } from "./cli";
+import { ConfigValidationError, loadConfig } from "./config-loader";
+import { GeoIdRegistry, resolveCityConfig } from "./geoid-registry";
+import { IntegratedRealtorScraper } from "./integrated-scraper";
+import { describeSearchCriteria } from "./api-scraper";
+import { shutdown } from "./shutdown";
+import { MockRealtorServer } from "./mock-server";
+import {
+  MAINTENANCE_EXIT_CODES,
+  compactWorkbookFile,
+  dedupeWorkbook,
+  listWorkbookBackups,
+  printWorkbookStats,
+  pruneWorkbookBackups,
+  repairWorkbook,
+  restoreWorkbookBackup,
+  verifyWorkbook,
+} from "./maintenance";
+
+type RunConfig = typeof ScrapingConfig;
+
+// Outcome of scraping a single city target
+interface CityRunSummary {
+  city: string;
+  status: "completed" | "empty" | "failed" | "interrupted";
+  propertiesProcessed: number;
+  propertiesFailed: number;
+  outputs: string[];
+  durationSeconds: number;
+}
+
+async function main(): Promise<number> {
+  let command;
+  let options: CliOptions;
+
+  try {
+    ({ command, options } = parseCliArgs(process.argv.slice(2)));
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(USAGE);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
 
-async function main() {
   // ============ CONFIGURATION ============
-  // You can easily change these settings or use one of the presets below
+  // Defaults come from config.ts, then a config file (JSON/YAML) and REALTOR_*
+  // environment variables are layered on top (PRESET / TIMEOUT_MODE select
+  // one of ConfigPresets / TIMEOUT_PRESETS). Command-line flags win last,
+  // except --timeout-mode, which only picks the preset under those layers.
+  try {
+    loadConfig({
+      file: options.configFile,
+      timeoutMode: options.timeoutMode,
+    });
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      console.error(`❌ ${error.message}`);
+      return 2;
+    }
+    throw error;
+  }
+
+  // The scraper reads the extraction mode and concurrency from the live config
+  if (options.extractionMode) {
+    ScrapingConfig.EXTRACTION_MODE = options.extractionMode;
+  }
+  if (options.concurrency !== undefined) {
+    ScrapingConfig.CONCURRENCY = options.concurrency;
+  }
+  if (options.storageBackend) {
+    ScrapingConfig.STORAGE_BACKEND = options.storageBackend;
+  }
+  if (options.columnProfile) {
+    ScrapingConfig.COLUMN_PROFILE = options.columnProfile;
+  }
+  if (options.fixturesDir) {
+    ScrapingConfig.FIXTURE_CAPTURE_DIR = options.fixturesDir;
+  }
+  if (options.recordHar) {
+    ScrapingConfig.HAR_MODE = "record";
+  }
+  if (options.replayHar) {
+    ScrapingConfig.HAR_MODE = "replay";
+    ScrapingConfig.HAR_RUN_ID = options.replayHar;
+  }
 
-  // Option 1: Use current config from config.ts
-  const config = ScrapingConfig;
+  const config = buildRunConfig(ScrapingConfig, options);
 
-  // Option 2: Use a preset (uncomment one of these if needed)
-  // const config = ConfigPresets.PRODUCTION;   // Production settings
+  switch (command) {
+    case "scrape":
+      return runScrape(config, options);
+    case "urls":
+      return runUrls(config);
+    case "geoid":
+      return runGeoId(config, options);
+    case "repair":
+      return runOnWorkbooks(config, options, repairWorkbook);
+    case "verify":
+      return runOnWorkbooks(config, options, verifyWorkbook);
+    case "dedupe":
+      return runOnWorkbooks(config, options, dedupeWorkbook);
+    case "compact":
+      return runOnWorkbooks(config, options, compactWorkbookFile);
+    case "backup":
+      return runBackup(config, options);
+    case "stats":
+      return runOnWorkbooks(config, options, printWorkbookStats);
+    case "export":
+      return runExport(config, options);
+    case "mock":
+      return runMockServer(options);
+  }
+}
 
-  // Option 3: Override specific settings (example)
-  // const config = {
-  //   ...ScrapingConfig,
-  //   MAX_PAGES: 5,
-  //   MAX_PROPERTIES: 50,
-  //   PROPERTY_SCRAPING_DELAY: 2000
-  // };
+/**
+ * Apply command-line overrides on top of a base configuration
+ */
+function buildRunConfig(baseConfig: RunConfig, options: CliOptions): RunConfig {
+  const limits: Partial<CityTarget> = {};
+  if (options.maxPages !== undefined) limits.maxPages = options.maxPages;
+  if (options.maxProperties !== undefined) {
+    limits.maxProperties = options.maxProperties;
+  }
 
-  const PAGE: string = config.DEFAULT_LISTING_URL;
-  const ITEMS_TO_SCRAPE: number = config.MAX_PROPERTIES;
-  const MAX_PAGES: number = config.MAX_PAGES;
+  let targets: CityTarget[];
+  if (options.cityUrls.length > 0) {
+    targets = options.cityUrls.map((url) => cityTargetFromUrl(url, limits));
+  } else {
+    targets = baseConfig.CITY_TARGETS.map((target) => ({
+      ...target,
+      ...limits,
+    }));
+  }
+
+  // A single city writes straight into --output-dir, several cities get one
+  // sub-directory each so their master files never mix
+  if (options.outputDir) {
+    const outputDir = options.outputDir;
+    targets = targets.map((target) => ({
+      ...target,
+      outputDir:
+        targets.length === 1
+          ? outputDir
+          : path.join(outputDir, path.basename(target.outputDir)),
+    }));
+  }
+
+  // Search flags win over both the global and the per-city criteria
+  if (Object.keys(options.search).length > 0) {
+    targets = targets.map((target) => ({
+      ...target,
+      search: { ...target.search, ...options.search },
+    }));
+  }
+
+  return {
+    ...baseConfig,
+    CITY_TARGETS: targets,
+    SEARCH_CRITERIA: { ...baseConfig.SEARCH_CRITERIA, ...options.search },
+    MEMORY_MODE: options.memoryMode || baseConfig.MEMORY_MODE,
+    HEADLESS_MODE:
+      options.headless !== undefined
+        ? options.headless
+        : baseConfig.HEADLESS_MODE,
+  };
+}
+
+/**
+ * Scrape every configured city target in order
+ */
+async function runScrape(
+  config: RunConfig,
+  options: CliOptions
+): Promise<number> {
+  const CITY_TARGETS: CityTarget[] = config.CITY_TARGETS;
   const USE_PAGINATION: boolean = config.USE_PAGINATION;
   const HEADLESS_MODE: boolean = config.HEADLESS_MODE;
-  const USE_DYNAMIC_UPDATES: boolean = config.USE_DYNAMIC_UPDATES || true; // Default to true
   const MEMORY_MODE: string = config.MEMORY_MODE || "efficient";
 
   // Enhanced Realtor.ca Property Scraper with Configurable Settings
@@ -46,8 +226,7 @@ async function main() {
   console.log(`⏰ Started at: ${startTime.toISOString()}`);
   console.log("=======================================");
   console.log(`⚙️  Configuration Summary:`);
-  console.log(`   🎯 Max Properties: ${ITEMS_TO_SCRAPE}`);
-  console.log(`   📄 Max Pages: ${MAX_PAGES}`);
+  console.log(`   🏙️  Cities: ${CITY_TARGETS.map((t) => t.name).join(", ")}`);
   console.log(
     `   🔄 Use Pagination: ${USE_PAGINATION ? "Enabled" : "Disabled"}`
   );
@@ -55,12 +234,355 @@ async function main() {
     `   👁️  Headless Mode: ${HEADLESS_MODE ? "Enabled" : "Disabled"}`
   );
   console.log(`   🧠 Memory Mode: ${MEMORY_MODE.toUpperCase()}`);
+  console.log(`   🗄️  Storage: ${config.STORAGE_BACKEND.toUpperCase()}`);
+  console.log(`   📋 Columns: ${config.COLUMN_PROFILE.toUpperCase()}`);
+  if (options.resume) {
+    console.log(`   ♻️  Resume: continuing interrupted runs from checkpoints`);
+  }
+  console.log(
+    `   📡 Extraction Mode: ${config.EXTRACTION_MODE.toUpperCase()}${
+      config.EXTRACTION_MODE === "api" && config.API_DETAIL_FALLBACK
+        ? " (detail-page fallback)"
+        : ""
+    }`
+  );
+  console.log(
+    `   👷 Concurrency: ${config.CONCURRENCY} page(s), max ${
+      config.MAX_REQUESTS_PER_MINUTE || "unlimited"
+    } detail pages/minute`
+  );
   console.log(
     `   ⏱️  Property Delay: ${config.PROPERTY_SCRAPING_DELAY / 1000}s`
   );
-  console.log(`   📍 Target URL: ${PAGE}`);
   console.log("=======================================\n");
 
+  const summaries: CityRunSummary[] = [];
+
+  // Ctrl-C / SIGTERM let the current city finish its properties in flight
+  // and save its outputs; the remaining cities are skipped
+  shutdown.install();
+
+  for (let i = 0; i < CITY_TARGETS.length; i++) {
+    if (shutdown.requested) {
+      console.log(
+        `🛑 Shutting down: skipping ${CITY_TARGETS.length - i} remaining cities`
+      );
+      break;
+    }
+
+    const target = CITY_TARGETS[i];
+    console.log("\n=======================================");
+    console.log(
+      `🏙️  City ${i + 1}/${CITY_TARGETS.length}: ${target.name.toUpperCase()}`
+    );
+    console.log("=======================================");
+
+    summaries.push(await scrapeCity(target, config, options.resume));
+  }
+
+  const endTime = new Date();
+  const duration = endTime.getTime() - startTime.getTime();
+
+  console.log("\n=== MULTI-CITY RUN SUMMARY ===");
+  console.table(
+    summaries.map((summary) => ({
+      City: summary.city,
+      Status: summary.status,
+      Properties: summary.propertiesProcessed,
+      Failed: summary.propertiesFailed,
+      Duration: `${summary.durationSeconds}s`,
+      Outputs: summary.outputs.join(" | "),
+    }))
+  );
+  console.log(`⏰ Start Time: ${startTime.toISOString()}`);
+  console.log(`⏰ End Time: ${endTime.toISOString()}`);
+  console.log(`⏱️  Total Duration: ${Math.round(duration / 1000)}s`);
+
+  saveRunSummary(
+    path.join(
+      options.outputDir || "output",
+      `run-summary-${generateTimestamp()}.json`
+    ),
+    startTime,
+    endTime,
+    summaries
+  );
+  shutdown.uninstall();
+
+  if (shutdown.requested) return shutdown.exitCode;
+  return summaries.some((summary) => summary.status === "failed") ? 1 : 0;
+}
+
+// Function to save the outcome of a scrape run, marked "interrupted" when a
+// shutdown signal stopped it early
+function saveRunSummary(
+  filename: string,
+  startTime: Date,
+  endTime: Date,
+  cities: CityRunSummary[]
+): void {
+  ensureOutputDirectory(path.dirname(filename));
+  const summary = {
+    status: shutdown.requested ? "interrupted" : "completed",
+    startedAt: startTime.toISOString(),
+    endedAt: endTime.toISOString(),
+    cities,
+  };
+  fs.writeFileSync(filename, JSON.stringify(summary, null, 2));
+  console.log(`📝 Run summary (${summary.status}) saved to ${filename}`);
+}
+
+/**
+ * Extract listing URLs for each city without scraping detail pages
+ */
+async function runUrls(config: RunConfig): Promise<number> {
+  let exitCode = 0;
+
+  for (const target of config.CITY_TARGETS) {
+    try {
+      const { maxPages, maxProperties } = getCityTargetLimits(target);
+      const scraper = new IntegratedRealtorScraper({
+        headless: config.HEADLESS_MODE,
+        maxPages,
+      });
+      const urls = (
+        await scraper.scrapeCity(
+          target.listingUrl,
+          resolveSearchCriteria(target, config.SEARCH_CRITERIA)
+        )
+      ).slice(0, maxProperties);
+
+      ensureOutputDirectory(target.outputDir);
+      const urlsFilename = path.join(
+        target.outputDir,
+        `listing-urls-${generateTimestamp()}.json`
+      );
+      fs.writeFileSync(urlsFilename, JSON.stringify(urls, null, 2));
+
+      console.log(`💾 ${urls.length} URLs for ${target.name}: ${urlsFilename}`);
+    } catch (error) {
+      console.error(`❌ URL extraction failed for ${target.name}:`, error);
+      exitCode = 1;
+    }
+  }
+
+  return exitCode;
+}
+
+/**
+ * Populate the GeoId registry for each city (--refresh rediscovers cities
+ * that already have an entry) and print the resulting entries
+ */
+async function runGeoId(
+  config: RunConfig,
+  options: CliOptions
+): Promise<number> {
+  const registry = new GeoIdRegistry();
+  let exitCode = 0;
+
+  for (const target of config.CITY_TARGETS) {
+    const resolved = await resolveCityConfig(target.listingUrl, {
+      refresh: options.refresh,
+      registry,
+    });
+
+    if (!resolved) {
+      console.error(`❌ Could not discover GeoId for ${target.listingUrl}`);
+      exitCode = 1;
+    }
+  }
+
+  console.log(`\n📒 GeoId registry: ${config.GEOID_REGISTRY_FILE}`);
+  console.table(
+    registry.list().map((entry) => ({
+      city: entry.cityName,
+      geoId: entry.geoId,
+      geoName: entry.geoName,
+      updatedAt: entry.updatedAt || "pinned",
+      stale: registry.isStale(entry),
+    }))
+  );
+
+  return exitCode;
+}
+
+/**
+ * Resolve the workbooks a maintenance command works on: the given paths, or
+ * the master file of every configured city
+ */
+function resolveWorkbooks(config: RunConfig, options: CliOptions): string[] {
+  if (options.files.length > 0) {
+    return options.files;
+  }
+  return config.CITY_TARGETS.map((target) =>
+    getMasterFilename(
+      target.outputDir,
+      resolveSearchCriteria(target, config.SEARCH_CRITERIA).transactionType
+    )
+  );
+}
+
+/**
+ * Run a maintenance command on every workbook; the exit code is the worst
+ * of theirs
+ */
+async function runOnWorkbooks(
+  config: RunConfig,
+  options: CliOptions,
+  maintain: (filename: string) => Promise<number> | number
+): Promise<number> {
+  let exitCode: number = MAINTENANCE_EXIT_CODES.OK;
+
+  for (const filename of resolveWorkbooks(config, options)) {
+    exitCode = Math.max(exitCode, await maintain(filename));
+  }
+
+  return exitCode;
+}
+
+async function runBackup(
+  config: RunConfig,
+  options: CliOptions
+): Promise<number> {
+  if (options.backupAction === "list") {
+    return runOnWorkbooks(config, options, listWorkbookBackups);
+  }
+  if (options.backupAction === "prune") {
+    return runOnWorkbooks(config, options, pruneWorkbookBackups);
+  }
+
+  const workbooks = resolveWorkbooks(config, options);
+  if (options.backupFile && workbooks.length !== 1) {
+    console.error("❌ --backup restores exactly one workbook, name it");
+    return MAINTENANCE_EXIT_CODES.USAGE;
+  }
+
+  return runOnWorkbooks(config, options, (filename) =>
+    restoreWorkbookBackup(filename, options.backupFile)
+  );
+}
+
+async function runExport(
+  config: RunConfig,
+  options: CliOptions
+): Promise<number> {
+  const timestamp = generateTimestamp();
+
+  return runOnWorkbooks(config, options, async (filename) => {
+    if (!fs.existsSync(filename)) {
+      console.error(`❌ File does not exist: ${filename}`);
+      return MAINTENANCE_EXIT_CODES.NOT_FOUND;
+    }
+
+    try {
+      const properties = await loadPropertiesFromExcel(filename);
+      const outputDir = options.outputDir || path.dirname(filename);
+      ensureOutputDirectory(outputDir);
+
+      const exportFilename = path.join(
+        outputDir,
+        `${path.basename(filename, ".xlsx")}-export-${timestamp}.${
+          options.format
+        }`
+      );
+
+      if (options.format === "csv") {
+        saveToCSV(properties, exportFilename);
+      } else if (options.format === "xlsx") {
+        await saveToExcel(properties, exportFilename);
+      } else {
+        saveToJSON(properties, exportFilename);
+      }
+      return MAINTENANCE_EXIT_CODES.OK;
+    } catch (error) {
+      console.error(`❌ Export failed for ${filename}:`, error);
+      return MAINTENANCE_EXIT_CODES.FAILED;
+    }
+  });
+}
+
+/**
+ * Serve the local realtor.ca stand-in until SIGINT/SIGTERM
+ */
+async function runMockServer(options: CliOptions): Promise<number> {
+  const server = new MockRealtorServer({ scenario: options.scenario });
+  const baseUrl = await server.start(options.port || 8080);
+
+  console.log(`🧪 Mock realtor.ca (${server.scenario}) listening on ${baseUrl}`);
+  console.log(
+    `   Run against it with REALTOR_SITE_BASE_URL=${baseUrl} REALTOR_API_BASE_URL=${baseUrl}`
+  );
+  console.log(`   and city URLs such as ${baseUrl}/on/toronto/real-estate`);
+  console.log("   Press Ctrl+C to stop");
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", () => resolve());
+    process.once("SIGTERM", () => resolve());
+  });
+  await server.stop();
+  console.log(`🛑 Mock server stopped after ${server.requests.length} requests`);
+  return 0;
+}
+
+/**
+ * Scrape a single city target using the configured memory mode
+ */
+async function scrapeCity(
+  target: CityTarget,
+  config: RunConfig,
+  resume: boolean = false
+): Promise<CityRunSummary> {
+  const PAGE: string = target.listingUrl;
+  const limits = getCityTargetLimits(target);
+  const ITEMS_TO_SCRAPE: number = limits.maxProperties;
+  const MAX_PAGES: number = limits.maxPages;
+  const OUTPUT_DIR: string = target.outputDir;
+  const SEARCH: SearchCriteria = resolveSearchCriteria(
+    target,
+    config.SEARCH_CRITERIA
+  );
+  const USE_PAGINATION: boolean = config.USE_PAGINATION;
+  const HEADLESS_MODE: boolean = config.HEADLESS_MODE;
+  const USE_DYNAMIC_UPDATES: boolean = config.USE_DYNAMIC_UPDATES || true; // Default to true
+  const MEMORY_MODE: string = config.MEMORY_MODE || "efficient";
+
+  const startTime = new Date();
+  console.log(`   🎯 Max Properties: ${ITEMS_TO_SCRAPE}`);
+  console.log(`   📄 Max Pages: ${MAX_PAGES}`);
+  console.log(`   📍 Target URL: ${PAGE}`);
+  console.log(`   🔎 Search: ${describeSearchCriteria(SEARCH)}`);
+  console.log(`   📁 Output Directory: ${OUTPUT_DIR}\n`);
+
+  // Only the modes that write each property to Excel as they go keep a
+  // checkpoint; the others hold results in memory until the end
+  const CHECKPOINTED: boolean =
+    USE_DYNAMIC_UPDATES && USE_PAGINATION && MEMORY_MODE !== "streaming";
+  if (resume && !CHECKPOINTED) {
+    console.log(
+      "⚠️  --resume has no effect in this mode: results are only saved at the end of the run\n"
+    );
+  }
+  // The same modes are the ones that keep a master dataset
+  if (config.STORAGE_BACKEND !== "excel" && !CHECKPOINTED) {
+    console.log(
+      `⚠️  STORAGE_BACKEND ${config.STORAGE_BACKEND} has no effect in this mode: it writes JSON/CSV only\n`
+    );
+  }
+
+  const summarize = (
+    status: CityRunSummary["status"],
+    propertiesProcessed: number,
+    outputs: string[],
+    propertiesFailed: number = 0
+  ): CityRunSummary => ({
+    city: target.name,
+    status,
+    propertiesProcessed,
+    propertiesFailed,
+    outputs,
+    durationSeconds: Math.round((Date.now() - startTime.getTime()) / 1000),
+  });
+
   try {
     let results;
 
@@ -85,24 +607,38 @@ async function main() {
             PAGE,
             HEADLESS_MODE,
             ITEMS_TO_SCRAPE,
-            MAX_PAGES
+            MAX_PAGES,
+            OUTPUT_DIR,
+            SEARCH,
+            resume
           );
 
         const endTime = new Date();
         const duration = endTime.getTime() - startTime.getTime();
 
         console.log("\n=== ULTRA STREAMING EXECUTION SUMMARY ===");
-        console.log(`✅ Status: Completed successfully`);
+        console.log(getStreamedStatusLine(ultraStreamResult));
+        console.log(`🏙️  City: ${target.name}`);
         console.log(
           `📊 Properties Processed: ${ultraStreamResult.totalProcessed}`
         );
+        console.log(`❌ Properties Failed: ${ultraStreamResult.failed}`);
         console.log(`📁 Daily File: ${ultraStreamResult.dailyFile}`);
         console.log(`📁 Master File: ${ultraStreamResult.masterFile}`);
+        if (ultraStreamResult.failed > 0) {
+          console.log(`📝 Failure Log: ${ultraStreamResult.failureLog}`);
+        }
         console.log(`⏰ Start Time: ${startTime.toISOString()}`);
         console.log(`⏰ End Time: ${endTime.toISOString()}`);
         console.log(`⏱️  Total Duration: ${Math.round(duration / 1000)}s`);
         console.log("🎯 All data has been streamed directly to Excel files");
-        return; // No results to save since everything was streamed
+        // No results to save since everything was streamed
+        return summarize(
+          ultraStreamResult.interrupted ? "interrupted" : "completed",
+          ultraStreamResult.totalProcessed,
+          getStreamedOutputs(ultraStreamResult),
+          ultraStreamResult.failed
+        );
       } else if (MEMORY_MODE === "streaming") {
         // 🚀 STREAMING PIPELINE: Process URLs as they're discovered
         console.log("🚀 Execution Mode: STREAMING PIPELINE");
@@ -121,7 +657,9 @@ async function main() {
           PAGE,
           HEADLESS_MODE,
           ITEMS_TO_SCRAPE,
-          MAX_PAGES
+          MAX_PAGES,
+          undefined,
+          SEARCH
         );
       } else if (MEMORY_MODE === "ultra") {
         // 🚀 ULTRA MEMORY EFFICIENT: No data kept in memory
@@ -139,22 +677,36 @@ async function main() {
           PAGE,
           HEADLESS_MODE,
           ITEMS_TO_SCRAPE,
-          MAX_PAGES
+          MAX_PAGES,
+          OUTPUT_DIR,
+          SEARCH,
+          resume
         );
 
         const endTime = new Date();
         const duration = endTime.getTime() - startTime.getTime();
 
         console.log("\n=== ULTRA MODE EXECUTION SUMMARY ===");
-        console.log(`✅ Status: Completed successfully`);
+        console.log(getStreamedStatusLine(ultraResult));
+        console.log(`🏙️  City: ${target.name}`);
         console.log(`📊 Properties Processed: ${ultraResult.totalProcessed}`);
-        console.log(`� Daily File: ${ultraResult.dailyFile}`);
+        console.log(`❌ Properties Failed: ${ultraResult.failed}`);
+        console.log(`📁 Daily File: ${ultraResult.dailyFile}`);
         console.log(`📁 Master File: ${ultraResult.masterFile}`);
+        if (ultraResult.failed > 0) {
+          console.log(`📝 Failure Log: ${ultraResult.failureLog}`);
+        }
         console.log(`⏰ Start Time: ${startTime.toISOString()}`);
         console.log(`⏰ End Time: ${endTime.toISOString()}`);
         console.log(`⏱️  Total Duration: ${Math.round(duration / 1000)}s`);
         console.log("🎯 All data has been saved to Excel files");
-        return; // No results to save since everything was streamed
+        // No results to save since everything was streamed
+        return summarize(
+          ultraResult.interrupted ? "interrupted" : "completed",
+          ultraResult.totalProcessed,
+          getStreamedOutputs(ultraResult),
+          ultraResult.failed
+        );
       } else {
         // 🚀 EFFICIENT: Use temp files + limited memory
         console.log(
@@ -173,7 +725,10 @@ async function main() {
           PAGE,
           HEADLESS_MODE,
           ITEMS_TO_SCRAPE,
-          MAX_PAGES
+          MAX_PAGES,
+          OUTPUT_DIR,
+          SEARCH,
+          resume
         );
       }
     } else if (USE_PAGINATION) {
@@ -192,7 +747,8 @@ async function main() {
         PAGE,
         HEADLESS_MODE,
         ITEMS_TO_SCRAPE,
-        MAX_PAGES
+        MAX_PAGES,
+        SEARCH
       );
     } else {
       // Single page scraping (original method)
@@ -204,61 +760,140 @@ async function main() {
       results = await scrapeFromListingsPage(
         PAGE,
         HEADLESS_MODE,
-        ITEMS_TO_SCRAPE
+        ITEMS_TO_SCRAPE,
+        SEARCH
       );
     }
 
-    if (results.length > 0) {
+    const properties = results.properties;
+    ensureOutputDirectory(OUTPUT_DIR);
+    const timestamp = generateTimestamp();
+    const filePrefix = getScrapeFilePrefix(SEARCH.transactionType);
+
+    // Failures go to their own file, never into the listing outputs
+    let failureLog = results.failureLog;
+    if (results.failed > 0 && !failureLog) {
+      failureLog = path.join(
+        OUTPUT_DIR,
+        `${filePrefix}-${timestamp}-failures.json`
+      );
+      saveFailuresToJSON(results.failures, failureLog);
+    }
+    const failureOutputs = results.failed > 0 && failureLog ? [failureLog] : [];
+
+    if (properties.length > 0) {
       // Calculate execution metrics
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
-      const propertiesPerSecond = (results.length / (duration / 1000)).toFixed(
-        2
-      );
+      const propertiesPerSecond = (
+        properties.length /
+        (duration / 1000)
+      ).toFixed(2);
 
-      // Save results with timestamp
-      const timestamp = generateTimestamp();
-      const jsonFilename = `listings-scrape-${timestamp}.json`;
-      const csvFilename = `listings-scrape-${timestamp}.csv`;
+      // Save results with timestamp into the city's output directory
+      const jsonFilename = path.join(
+        OUTPUT_DIR,
+        `${filePrefix}-${timestamp}.json`
+      );
+      const csvFilename = path.join(
+        OUTPUT_DIR,
+        `${filePrefix}-${timestamp}.csv`
+      );
 
-      saveToJSON(results, jsonFilename);
-      saveToCSV(results, csvFilename);
+      saveToJSON(properties, jsonFilename);
+      saveToCSV(properties, csvFilename, SEARCH.transactionType);
 
       console.log("\n=== EXECUTION SUMMARY ===");
-      console.log(`✅ Status: Scraping completed successfully`);
-      console.log(`📊 Properties Scraped: ${results.length}`);
+      console.log(
+        results.interrupted
+          ? `🛑 Status: Interrupted, partial results saved`
+          : `✅ Status: Scraping completed successfully`
+      );
+      console.log(`🏙️  City: ${target.name}`);
+      console.log(`📊 Properties Scraped: ${properties.length}`);
+      console.log(`❌ Properties Failed: ${results.failed}`);
       console.log(`⏰ Start Time: ${startTime.toISOString()}`);
       console.log(`⏰ End Time: ${endTime.toISOString()}`);
       console.log(`⏱️  Total Duration: ${Math.round(duration / 1000)}s`);
       console.log(`⚡ Average Speed: ${propertiesPerSecond} properties/second`);
       console.log(`💾 JSON Output: ${jsonFilename}`);
       console.log(`💾 CSV Output: ${csvFilename}`);
+      if (failureLog && results.failed > 0) {
+        console.log(`📝 Failure Log: ${failureLog}`);
+      }
 
       console.log("\n=== SAMPLE DATA PREVIEW ===");
-      console.table(results.slice(0, 3)); // Show first 3 properties as preview
-    } else {
-      console.log("\n=== EXECUTION SUMMARY ===");
-      console.log("❌ Status: No properties were scraped");
-      console.log(
-        "💡 Suggestion: Check if the target URL is valid and contains listings"
+      console.table(properties.slice(0, 3)); // Show first 3 properties as preview
+
+      return summarize(
+        results.interrupted ? "interrupted" : "completed",
+        properties.length,
+        [jsonFilename, csvFilename, ...failureOutputs],
+        results.failed
       );
     }
+
+    console.log("\n=== EXECUTION SUMMARY ===");
+    console.log(`❌ Status: No properties were scraped for ${target.name}`);
+    if (results.failed > 0) {
+      console.log(`📝 ${results.failed} failures logged to ${failureLog}`);
+    }
+    console.log(
+      "💡 Suggestion: Check if the target URL is valid and contains listings"
+    );
+    return summarize(
+      results.interrupted ? "interrupted" : "empty",
+      0,
+      failureOutputs,
+      results.failed
+    );
   } catch (error) {
     const endTime = new Date();
     const duration = endTime.getTime() - startTime.getTime();
 
     console.log("\n=== EXECUTION FAILED ===");
-    console.log("❌ Status: Scraping failed due to error");
+    console.log(`❌ Status: Scraping failed for ${target.name}`);
     console.log(`⏰ Failed at: ${endTime.toISOString()}`);
     console.log(`⏱️  Runtime before failure: ${Math.round(duration / 1000)}s`);
     console.error("🐛 Error Details:", error);
     console.log(
       "💡 Suggestion: Check network connection, target URL, or configuration settings"
     );
+    console.log("➡️  Continuing with the next city...");
+    return summarize("failed", 0, []);
   }
+}
 
-  return;
+// Status line of a streamed run's execution summary
+function getStreamedStatusLine(result: StreamedScrapeResult): string {
+  return result.interrupted
+    ? `🛑 Status: Interrupted, outputs saved (continue with --resume)`
+    : `✅ Status: Completed successfully`;
+}
+
+// Output files of a streamed run, with the failure log when anything failed,
+// the market changes report when anything changed and the master workbook
+// exported from a database master
+function getStreamedOutputs(result: StreamedScrapeResult): string[] {
+  const outputs = [result.dailyFile, result.masterFile];
+  if (result.failed > 0 && result.failureLog) {
+    outputs.push(result.failureLog);
+  }
+  if (result.changesFile) {
+    outputs.push(result.changesFile);
+  }
+  if (result.masterExport) {
+    outputs.push(result.masterExport);
+  }
+  return outputs;
 }
 
-// Run the scraper
-main();
+// Run the CLI
+main()
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error) => {
+    console.error("💥 Unexpected error:", error);
+    process.exitCode = 1;
+  });
@@ -1,12 +1,13 @@
 import { RealtorApiScraper } from "./api-scraper";
-import { CityGeoIdFinder, CityApiConfig } from "./city-geoid-finder";
-import { ScrapingConfig } from "./config";
+import { resolveCityConfig } from "./geoid-registry";
+import { ScrapingConfig, SearchCriteria } from "./config";
 import { chromium, Browser } from "playwright";
 
 interface IntegratedScrapingConfig {
   headless?: boolean;
   maxPages?: number;
   cityUrl?: string;
+  search?: SearchCriteria;
 }
 
 /**
@@ -19,15 +20,20 @@ export class IntegratedRealtorScraper {
   /**
    * Automatically discover GeoId for a city and scrape properties
    */
-  async scrapeCity(cityUrl?: string): Promise<string[]> {
+  async scrapeCity(
+    cityUrl?: string,
+    search?: SearchCriteria
+  ): Promise<string[]> {
     const startTime = Date.now();
     const {
       headless = true,
       maxPages = 5,
       cityUrl: configCityUrl = ScrapingConfig.DEFAULT_LISTING_URL,
+      search: configSearch = ScrapingConfig.SEARCH_CRITERIA,
     } = this.config;
 
     const targetUrl = cityUrl || configCityUrl;
+    const searchCriteria = search || configSearch;
 
     console.log("🚀 Integrated City Scraping Workflow");
     console.log("===========================================");
@@ -47,13 +53,12 @@ export class IntegratedRealtorScraper {
       // Step 1: Discover GeoId for the city
       console.log("🔍 PHASE 1: City GeoId Discovery");
       console.log("===============================");
-      const geoIdFinder = new CityGeoIdFinder();
+      const resolved = await resolveCityConfig(targetUrl);
 
-      const cityConfig = await geoIdFinder.findGeoIdForCity(targetUrl);
-
-      if (!cityConfig) {
+      if (!resolved) {
         throw new Error(`Failed to discover GeoId for city: ${targetUrl}`);
       }
+      const { cityConfig } = resolved;
 
       console.log(`✅ GeoId Discovery Successful!`);
       console.log(`   🏙️  City: ${cityConfig.cityName}`);
@@ -65,9 +70,11 @@ export class IntegratedRealtorScraper {
       console.log("==================================");
       const apiScraper = new RealtorApiScraper();
       apiScraper.setCityConfig(cityConfig);
+      apiScraper.setSearchCriteria(searchCriteria);
 
       await apiScraper.initialize(browser);
-      const urls = await apiScraper.extractPropertyUrls(maxPages);
+      const urls = await apiScraper.scrapePropertyUrls(maxPages);
+      await apiScraper.close();
 
       console.log(`\n🎯 Integrated Scraping Completed Successfully!`);
       console.log(`📊 Results Summary:`);
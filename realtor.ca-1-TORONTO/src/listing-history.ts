@@ -0,0 +1,315 @@
+import * as fs from "fs";
+import * as path from "path";
+import { PropertyData } from "./scraper";
+import {
+  ListingIdentity,
+  ListingIndex,
+  getAddressKey,
+  getPropertyKey,
+} from "./listing-identity";
+import { parsePriceCents } from "./normalize";
+
+// One sighting of a listing, at most one per scrape date
+export interface ListingObservation {
+  date: string;
+  price: string;
+  agent: string;
+  broker: string;
+}
+
+export type ListingStatus = "active" | "possibly-removed";
+
+export interface ListingHistoryEntry {
+  key: string;
+  listingId?: string;
+  mlsNumber?: string;
+  address: string;
+  postal: string;
+  firstSeen: string;
+  lastSeen: string;
+  // "possibly-removed" once a full run no longer finds the listing (sold,
+  // expired or taken off the market)
+  status: ListingStatus;
+  observations: ListingObservation[];
+}
+
+export type ListingEventType =
+  | "new"
+  | "price-drop"
+  | "price-increase"
+  | "relist"
+  | "possibly-removed";
+
+export interface ListingEvent {
+  type: ListingEventType;
+  key: string;
+  address: string;
+  postal: string;
+  date: string;
+  price?: string;
+  previousPrice?: string;
+  previousKey?: string; // Earlier listing at the same address, for relists
+}
+
+interface ListingHistoryFile {
+  updatedAt: string;
+  lastFullRun?: string;
+  listings: ListingHistoryEntry[];
+}
+
+function toIdentity(entry: ListingHistoryEntry): ListingIdentity {
+  return {
+    ADDRESS: entry.address,
+    POSTAL: entry.postal,
+    LISTING_ID: entry.listingId,
+    MLS_NUMBER: entry.mlsNumber,
+  };
+}
+
+/**
+ * Observation history of every listing in a master workbook, kept next to it
+ * as JSON (master-listings.xlsx -> master-listings-history.json). The
+ * workbook holds the current row of each listing; this file keeps what
+ * changed between runs.
+ */
+export class ListingHistory {
+  private entries: ListingHistoryEntry[] = [];
+  private index = new ListingIndex<ListingHistoryEntry>();
+  private latestByAddress = new Map<string, ListingHistoryEntry>();
+  private runEvents: ListingEvent[] = [];
+  private lastFullRun?: string;
+
+  private constructor(readonly filename: string) {}
+
+  static filenameFor(masterFile: string): string {
+    return masterFile.replace(/\.xlsx$/i, "") + "-history.json";
+  }
+
+  /**
+   * Load the history of a master workbook (empty when there is none yet)
+   */
+  static forMasterFile(masterFile: string): ListingHistory {
+    const history = new ListingHistory(ListingHistory.filenameFor(masterFile));
+
+    if (fs.existsSync(history.filename)) {
+      try {
+        const contents: ListingHistoryFile = JSON.parse(
+          fs.readFileSync(history.filename, "utf8")
+        );
+        history.lastFullRun = contents.lastFullRun;
+        (contents.listings || []).forEach((entry) => history.addEntry(entry));
+        console.log(
+          `📈 Loaded history of ${history.entries.length} listings from ${history.filename}`
+        );
+      } catch (error) {
+        console.error(
+          `❌ Could not read listing history ${history.filename}, starting a new one:`,
+          error
+        );
+      }
+    }
+
+    return history;
+  }
+
+  find(property: ListingIdentity): ListingHistoryEntry | undefined {
+    return this.index.find(property)?.value;
+  }
+
+  /**
+   * Record that a listing was seen with these details, returning what changed
+   * since it was last seen
+   */
+  record(property: PropertyData): ListingEvent[] {
+    const observation: ListingObservation = {
+      date: property.DATE,
+      price: property.PRICE,
+      agent: property.AGENT,
+      broker: property.BROKER,
+    };
+    const entry = this.find(property);
+
+    if (!entry) {
+      const previous = this.latestByAddress.get(getAddressKey(property));
+      const newEntry: ListingHistoryEntry = {
+        key: getPropertyKey(property),
+        ...this.identityOf(property),
+        address: property.ADDRESS,
+        postal: property.POSTAL,
+        firstSeen: property.DATE,
+        lastSeen: property.DATE,
+        status: "active",
+        observations: [observation],
+      };
+      this.addEntry(newEntry);
+
+      // A new listing ID at an address listed on an earlier day is a relist
+      const isRelist =
+        previous !== undefined && previous.lastSeen !== property.DATE;
+      return [
+        this.emit({
+          type: isRelist ? "relist" : "new",
+          key: newEntry.key,
+          address: newEntry.address,
+          postal: newEntry.postal,
+          date: property.DATE,
+          price: property.PRICE,
+          ...(isRelist && { previousKey: previous!.key }),
+        }),
+      ];
+    }
+
+    const events: ListingEvent[] = [];
+    const baseEvent = {
+      key: entry.key,
+      address: entry.address,
+      postal: entry.postal,
+      date: property.DATE,
+    };
+
+    if (entry.status === "possibly-removed") {
+      entry.status = "active";
+      events.push(
+        this.emit({ type: "relist", ...baseEvent, price: property.PRICE })
+      );
+    }
+
+    const last = entry.observations[entry.observations.length - 1];
+    const previousPrice = last ? parsePriceCents(last.price) : null;
+    const price = parsePriceCents(property.PRICE);
+    if (previousPrice !== null && price !== null && price !== previousPrice) {
+      events.push(
+        this.emit({
+          type: price < previousPrice ? "price-drop" : "price-increase",
+          ...baseEvent,
+          price: property.PRICE,
+          previousPrice: last.price,
+        })
+      );
+    }
+
+    // One observation per date: a same-day rescrape replaces it
+    if (last && last.date === property.DATE) {
+      entry.observations[entry.observations.length - 1] = observation;
+    } else {
+      entry.observations.push(observation);
+    }
+    entry.lastSeen = property.DATE;
+
+    // Rows from before listing IDs were tracked pick up the ID once seen
+    Object.assign(entry, this.identityOf(property));
+    entry.key = getPropertyKey(toIdentity(entry));
+    this.index.set(toIdentity(entry), entry);
+
+    return events;
+  }
+
+  /**
+   * After a run that listed the whole search, flag every active listing that
+   * was not among its results as possibly sold or removed
+   */
+  markMissing(searchResults: ListingIdentity[], date: string): ListingEvent[] {
+    const listed = new ListingIndex<true>();
+    searchResults.forEach((result) => listed.set(result, true));
+
+    const events: ListingEvent[] = [];
+    for (const entry of this.entries) {
+      if (entry.status !== "active" || entry.lastSeen === date) continue;
+      if (listed.find(toIdentity(entry))) continue;
+
+      entry.status = "possibly-removed";
+      events.push(
+        this.emit({
+          type: "possibly-removed",
+          key: entry.key,
+          address: entry.address,
+          postal: entry.postal,
+          date,
+          price: entry.observations[entry.observations.length - 1]?.price,
+        })
+      );
+    }
+
+    this.lastFullRun = date;
+    return events;
+  }
+
+  save(): void {
+    const contents: ListingHistoryFile = {
+      updatedAt: new Date().toISOString(),
+      lastFullRun: this.lastFullRun,
+      listings: this.entries,
+    };
+
+    // Write then rename so a crash mid-write never leaves a truncated file
+    const directory = path.dirname(this.filename);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+    const tempFilename = `${this.filename}.tmp`;
+    fs.writeFileSync(tempFilename, JSON.stringify(contents, null, 2));
+    fs.renameSync(tempFilename, this.filename);
+  }
+
+  /**
+   * Write this run's price changes, relists and removals, grouped by kind.
+   * Returns false when there was nothing to report.
+   */
+  saveRunReport(filename: string): boolean {
+    const byType = (type: ListingEventType) =>
+      this.runEvents.filter((event) => event.type === type);
+    const report = {
+      generatedAt: new Date().toISOString(),
+      newListings: byType("new").length,
+      priceDrops: byType("price-drop"),
+      priceIncreases: byType("price-increase"),
+      relists: byType("relist"),
+      possiblyRemoved: byType("possibly-removed"),
+    };
+
+    console.log(`📈 Market changes this run:`);
+    console.log(`   🆕 New listings: ${report.newListings}`);
+    console.log(`   📉 Price drops: ${report.priceDrops.length}`);
+    console.log(`   📈 Price increases: ${report.priceIncreases.length}`);
+    console.log(`   🔁 Relists: ${report.relists.length}`);
+    console.log(
+      `   ❓ Possibly sold or removed: ${report.possiblyRemoved.length}`
+    );
+
+    if (this.runEvents.length === 0) return false;
+
+    fs.writeFileSync(filename, JSON.stringify(report, null, 2));
+    console.log(`📝 Saved market changes to ${filename}`);
+    return true;
+  }
+
+  private emit(event: ListingEvent): ListingEvent {
+    this.runEvents.push(event);
+    if (event.type !== "new") {
+      const detail = event.previousPrice
+        ? `${event.previousPrice} -> ${event.price}`
+        : event.price || "";
+      console.log(`📈 ${event.type}: ${event.address} ${detail}`);
+    }
+    return event;
+  }
+
+  private identityOf(
+    property: PropertyData
+  ): Pick<ListingHistoryEntry, "listingId" | "mlsNumber"> {
+    const identity: Pick<ListingHistoryEntry, "listingId" | "mlsNumber"> = {};
+    if (property.LISTING_ID && property.LISTING_ID !== "N/A") {
+      identity.listingId = property.LISTING_ID;
+    }
+    if (property.MLS_NUMBER && property.MLS_NUMBER !== "N/A") {
+      identity.mlsNumber = property.MLS_NUMBER;
+    }
+    return identity;
+  }
+
+  private addEntry(entry: ListingHistoryEntry): void {
+    this.entries.push(entry);
+    this.index.set(toIdentity(entry), entry);
+    this.latestByAddress.set(getAddressKey(toIdentity(entry)), entry);
+  }
+}
@@ -0,0 +1,90 @@
+import { PropertyData } from "./scraper";
+
+// Fields that identify a listing; rows, history entries and API results all
+// carry them
+export type ListingIdentity = Pick<
+  PropertyData,
+  "ADDRESS" | "POSTAL" | "LISTING_ID" | "MLS_NUMBER"
+>;
+
+// Identity keys of a record: realtor.ca listing ID and MLS number, if known
+export function getIdentityKeys(property: ListingIdentity): string[] {
+  const keys: string[] = [];
+  const listingId = normalizeIdentity(property.LISTING_ID);
+  const mlsNumber = normalizeIdentity(property.MLS_NUMBER);
+  if (listingId) keys.push(`ID:${listingId}`);
+  if (mlsNumber) keys.push(`MLS:${mlsNumber}`);
+  return keys;
+}
+
+// Listing ID or MLS number as compared, "" when unknown
+export function normalizeIdentity(value: string | undefined): string {
+  const normalized = (value || "").trim().toUpperCase();
+  return normalized === "N/A" ? "" : normalized;
+}
+
+// Address + postal code key, the fallback for records without an ID
+export function getAddressKey(property: ListingIdentity): string {
+  const address = property.ADDRESS.trim().toUpperCase();
+  const postal = property.POSTAL.trim().toUpperCase();
+  return `ADDRESS:${address}-${postal}`;
+}
+
+// Function to get the key that identifies one listing across daily, master,
+// CSV and JSON output: its listing ID, else its MLS number, else its address
+export function getPropertyKey(property: ListingIdentity): string {
+  return getIdentityKeys(property)[0] || getAddressKey(property);
+}
+
+// How two records refer to the same listing: by a shared listing ID or MLS
+// number, or by address + postal code when either of them carries neither
+export function matchListings(
+  a: ListingIdentity,
+  b: ListingIdentity
+): "identity" | "address" | null {
+  const aKeys = getIdentityKeys(a);
+  const bKeys = getIdentityKeys(b);
+
+  if (aKeys.length > 0 && bKeys.length > 0) {
+    return aKeys.some((key) => bKeys.includes(key)) ? "identity" : null;
+  }
+  return getAddressKey(a) === getAddressKey(b) ? "address" : null;
+}
+
+/**
+ * Lookup of listings already seen, matching the same way as matchListings()
+ * without scanning every record
+ */
+export class ListingIndex<T> {
+  private byIdentity = new Map<string, T>();
+  private byAddress = new Map<string, { value: T; identified: boolean }>();
+
+  find(
+    property: ListingIdentity
+  ): { value: T; matchedBy: "identity" | "address" } | undefined {
+    const identityKeys = getIdentityKeys(property);
+    for (const key of identityKeys) {
+      if (this.byIdentity.has(key)) {
+        return { value: this.byIdentity.get(key)!, matchedBy: "identity" };
+      }
+    }
+
+    const addressEntry = this.byAddress.get(getAddressKey(property));
+    if (
+      addressEntry &&
+      (identityKeys.length === 0 || !addressEntry.identified)
+    ) {
+      return { value: addressEntry.value, matchedBy: "address" };
+    }
+    return undefined;
+  }
+
+  set(property: ListingIdentity, value: T): void {
+    const identityKeys = getIdentityKeys(property);
+    identityKeys.forEach((key) => this.byIdentity.set(key, value));
+    this.byAddress.set(getAddressKey(property), {
+      value,
+      identified: identityKeys.length > 0,
+    });
+  }
+}
@@ -0,0 +1,250 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ExcelJS from "exceljs";
+import {
+  compactWorkbook,
+  createAutomaticBackup,
+  readPropertyRow,
+  rebuildCorruptedMasterFile,
+  validateExcelFileHealth,
+  validateMasterFileIntegrity,
+} from "./utils";
+import { compareScrapeDates, parsePriceCents } from "./normalize";
+import { BackupManager } from "./backups";
+
+/**
+ * Maintenance commands on listing workbooks (verify, repair, dedupe, compact,
+ * backup list/restore/prune, stats). Each works on one workbook path and returns a
+ * process exit code; the CLI runs it per workbook and exits with the worst.
+ */
+
+export const MAINTENANCE_EXIT_CODES = {
+  OK: 0,
+  UNHEALTHY: 1, // Issues found or left after the operation, no valid backup
+  USAGE: 2, // Same code as invalid command-line usage
+  NOT_FOUND: 3, // Workbook or backup does not exist
+  FAILED: 4, // The operation itself failed
+};
+
+function exists(filename: string): boolean {
+  if (fs.existsSync(filename)) return true;
+  console.error(`❌ File does not exist: ${filename}`);
+  return false;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(2)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Check a workbook's health: UNHEALTHY when validateExcelFileHealth() finds
+ * any issue
+ */
+export async function verifyWorkbook(filename: string): Promise<number> {
+  if (!exists(filename)) return MAINTENANCE_EXIT_CODES.NOT_FOUND;
+
+  const health = await validateExcelFileHealth(filename);
+  console.log(`📁 ${filename}: ${health.isHealthy ? "HEALTHY" : "UNHEALTHY"}`);
+  health.issues.forEach((issue) => console.log(`   - ${issue}`));
+  console.log("   Stats:", health.stats);
+
+  return health.isHealthy
+    ? MAINTENANCE_EXIT_CODES.OK
+    : MAINTENANCE_EXIT_CODES.UNHEALTHY;
+}
+
+/**
+ * Rebuild a workbook from its readable rows (backed up first), then verify
+ * the result
+ */
+export async function repairWorkbook(filename: string): Promise<number> {
+  if (!exists(filename)) return MAINTENANCE_EXIT_CODES.NOT_FOUND;
+
+  const result = await rebuildCorruptedMasterFile(filename);
+  if (!result.success) {
+    console.error(`❌ Repair failed for ${filename}:`, result.stats);
+    return MAINTENANCE_EXIT_CODES.FAILED;
+  }
+
+  return verifyWorkbook(result.newFilename);
+}
+
+/**
+ * Remove duplicate listings, placeholder rows and empty rows in place
+ */
+export async function dedupeWorkbook(filename: string): Promise<number> {
+  if (!exists(filename)) return MAINTENANCE_EXIT_CODES.NOT_FOUND;
+
+  if (!(await createAutomaticBackup(filename))) {
+    return MAINTENANCE_EXIT_CODES.FAILED;
+  }
+
+  const result = await validateMasterFileIntegrity(filename);
+  if (!result.success) return MAINTENANCE_EXIT_CODES.FAILED;
+
+  console.log(
+    `🧹 ${filename}: ${result.duplicatesRemoved} duplicates, ${result.placeholdersRemoved} placeholders, ${result.emptyRowsRemoved} empty rows removed`
+  );
+  return MAINTENANCE_EXIT_CODES.OK;
+}
+
+/**
+ * Rewrite a workbook without empty or phantom rows
+ */
+export async function compactWorkbookFile(filename: string): Promise<number> {
+  if (!exists(filename)) return MAINTENANCE_EXIT_CODES.NOT_FOUND;
+
+  if (!(await createAutomaticBackup(filename))) {
+    return MAINTENANCE_EXIT_CODES.FAILED;
+  }
+
+  const sizeBefore = fs.statSync(filename).size;
+  const result = await compactWorkbook(filename);
+  if (!result.success) return MAINTENANCE_EXIT_CODES.FAILED;
+
+  console.log(
+    `🗜️  ${filename}: ${formatSize(sizeBefore)} -> ${formatSize(
+      fs.statSync(filename).size
+    )}`
+  );
+  return MAINTENANCE_EXIT_CODES.OK;
+}
+
+/**
+ * Backups of a workbook, newest first, with their checksum state
+ */
+export function listWorkbookBackups(filename: string): number {
+  const manager = new BackupManager();
+  const backups = manager.list(filename);
+  console.log(`💾 Backups of ${filename}: ${backups.length}`);
+
+  for (const backup of backups) {
+    const checksum = manager.verifyChecksum(backup.filename);
+    const state = !backup.managed
+      ? "legacy"
+      : checksum === false
+      ? "damaged"
+      : "ok";
+    console.log(
+      `   ${backup.createdAt.toISOString()}  ${formatSize(
+        backup.sizeBytes
+      ).padStart(10)}  ${state.padEnd(8)}  ${backup.filename}`
+    );
+  }
+  return MAINTENANCE_EXIT_CODES.OK;
+}
+
+/**
+ * Delete the backups the retention policy no longer keeps
+ */
+export function pruneWorkbookBackups(filename: string): number {
+  const removed = new BackupManager().prune(filename);
+  console.log(`🗑️  ${filename}: ${removed.length} backup(s) removed`);
+  return MAINTENANCE_EXIT_CODES.OK;
+}
+
+/**
+ * Swap a validated backup (the newest valid one by default) in as the
+ * workbook
+ */
+export async function restoreWorkbookBackup(
+  filename: string,
+  backupFilename?: string
+): Promise<number> {
+  const result = await new BackupManager().restore(filename, backupFilename);
+
+  if (result.status !== "restored") {
+    console.error(`❌ Could not restore ${filename}:`);
+    result.issues.forEach((issue) => console.error(`   - ${issue}`));
+  }
+
+  switch (result.status) {
+    case "restored":
+      return MAINTENANCE_EXIT_CODES.OK;
+    case "not-found":
+      return MAINTENANCE_EXIT_CODES.NOT_FOUND;
+    case "invalid":
+      return MAINTENANCE_EXIT_CODES.UNHEALTHY;
+    case "failed":
+      return MAINTENANCE_EXIT_CODES.FAILED;
+  }
+}
+
+/**
+ * Print what a workbook holds: listings per sheet, scrape date range, cities,
+ * prices and coordinate coverage
+ */
+export async function printWorkbookStats(filename: string): Promise<number> {
+  if (!exists(filename)) return MAINTENANCE_EXIT_CODES.NOT_FOUND;
+
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.readFile(filename);
+  } catch (error) {
+    console.error(`❌ Cannot read ${filename}:`, error);
+    return MAINTENANCE_EXIT_CODES.FAILED;
+  }
+
+  const dates: string[] = [];
+  const prices: number[] = [];
+  const cities = new Map<string, number>();
+  let listings = 0;
+  let withCoordinates = 0;
+
+  console.log(`📁 ${filename} (${formatSize(fs.statSync(filename).size)})`);
+  console.log(`📊 Worksheets: ${workbook.worksheets.length}`);
+
+  for (const worksheet of workbook.worksheets) {
+    let sheetListings = 0;
+
+    for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
+      if (!row.hasValues || !row.getCell(2).value || !row.getCell(5).value) {
+        continue;
+      }
+
+      const property = readPropertyRow(row);
+      sheetListings++;
+      if (property.DATE) dates.push(property.DATE);
+      if (property.CITY) {
+        cities.set(property.CITY, (cities.get(property.CITY) || 0) + 1);
+      }
+      const price = parsePriceCents(property.PRICE);
+      if (price !== null) prices.push(price / 100);
+      if (property.LATITUDE && property.LONGITUDE) withCoordinates++;
+    }
+
+    listings += sheetListings;
+    console.log(
+      `   📋 ${worksheet.name}: ${sheetListings} listings (${Math.max(
+        0,
+        worksheet.rowCount - 1
+      )} rows)`
+    );
+  }
+
+  dates.sort(compareScrapeDates);
+  prices.sort((a, b) => a - b);
+  const topCities = [...cities.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 5)
+    .map(([city, count]) => `${city} (${count})`);
+
+  console.log(`🏠 Listings: ${listings}`);
+  if (dates.length > 0) {
+    console.log(`📅 Scraped: ${dates[0]} to ${dates[dates.length - 1]}`);
+  }
+  console.log(`🏙️  Cities: ${cities.size} ${topCities.join(", ")}`);
+  if (prices.length > 0) {
+    console.log(
+      `💰 Price: min ${prices[0].toLocaleString()}, median ${prices[
+        Math.floor(prices.length / 2)
+      ].toLocaleString()}, max ${prices[prices.length - 1].toLocaleString()}`
+    );
+  }
+  console.log(`📍 With coordinates: ${withCoordinates}/${listings}`);
+
+  return MAINTENANCE_EXIT_CODES.OK;
+}
@@ -0,0 +1,511 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { CityApiConfig } from "./city-geoid-finder";
+import {
+  PROVINCE_BOUNDS,
+  POSTAL_REGION_CODES,
+  getProvinceName,
+} from "./provinces";
+
+/**
+ * Local stand-in for realtor.ca: the home page, city listing pages, a
+ * paginated PropertySearch_Post API and listing detail pages, all generated
+ * from canned data. Start it and point SITE_BASE_URL and API_BASE_URL at it
+ * to run the scraper end to end without network.
+ *
+ * Listings are generated per GeoId and transaction type (search filters other
+ * than the transaction type are ignored). GeoIds name the province and the
+ * city, e.g. g30_mock-on-north-york.
+ */
+
+export type MockScenario =
+  | "normal"
+  | "slow" // Every response is delayed by slowResponseMs
+  | "errors"; // API pages after the first fail once; some detail pages fail
+
+export const MOCK_SCENARIOS: MockScenario[] = ["normal", "slow", "errors"];
+
+export interface MockServerOptions {
+  scenario?: MockScenario;
+  listingsPerCity?: number;
+  slowResponseMs?: number;
+}
+
+// A request served by the mock server, for assertions in tests
+export interface MockRequest {
+  method: string;
+  path: string;
+  status: number;
+}
+
+interface MockListing {
+  id: string;
+  index: number;
+  mlsNumber: string;
+  street: string;
+  cityName: string;
+  provinceCode: string;
+  postal: string;
+  price: number;
+  rent: boolean;
+  latitude: string;
+  longitude: string;
+  bedrooms: string;
+  bathrooms: string;
+  agent: string;
+  broker: string;
+  relativeUrl: string;
+}
+
+const STREETS = [
+  "Queen Street West",
+  "King Street East",
+  "Yonge Street",
+  "Bloor Street West",
+  "Dundas Street East",
+  "College Street",
+];
+const AGENTS = ["Jane Smith", "Alex Chen", "Marie Tremblay", "Sam Patel"];
+const BROKERS = [
+  "MOCK REALTY INC., BROKERAGE",
+  "SAMPLE HOMES REAL ESTATE LTD., BROKERAGE",
+];
+
+// In the "errors" scenario, detail pages of every n-th listing return 500
+const FAILING_DETAIL_INTERVAL = 7;
+
+const GEO_ID_PATTERN = /^g30_mock-([a-z]{2})-([a-z0-9-]+)$/;
+const CITY_PAGE_PATTERN = /^\/([a-z]{2})\/([a-z0-9-]+)\/real-estate\/?$/i;
+const DETAIL_PAGE_PATTERN = /^\/real-estate\/(\d+)(?:\/|$)/;
+
+// GeoId of a mock city, e.g. ("ON", "north-york") -> "g30_mock-on-north-york"
+export function getMockGeoId(provinceCode: string, citySlug: string): string {
+  return `g30_mock-${provinceCode}-${citySlug}`.toLowerCase();
+}
+
+/**
+ * API configuration of a mock city URL, to pin in the GeoId registry so
+ * runs against the mock server skip browser GeoId discovery
+ */
+export function getMockCityConfig(cityUrl: string): CityApiConfig | null {
+  const match = new URL(cityUrl).pathname.match(CITY_PAGE_PATTERN);
+  if (!match) return null;
+
+  const cityName = toTitleCase(match[2].replace(/-/g, " "));
+  return {
+    geoId: getMockGeoId(match[1], match[2]),
+    geoName: `${cityName}, ${match[1].toUpperCase()}`,
+    url: cityUrl,
+    cityName,
+  };
+}
+
+export class MockRealtorServer {
+  private server: http.Server | null = null;
+  private listingsBySearch = new Map<string, MockListing[]>();
+  private listingsById = new Map<string, MockListing>();
+  // API pages that already failed once in the "errors" scenario
+  private failedApiPages = new Set<string>();
+  readonly requests: MockRequest[] = [];
+
+  constructor(private options: MockServerOptions = {}) {}
+
+  get scenario(): MockScenario {
+    return this.options.scenario || "normal";
+  }
+
+  get baseUrl(): string {
+    if (!this.server) {
+      throw new Error("Mock server not started. Call start() first.");
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Listen on a local port (0 picks a free one) and return the base URL
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        console.error("❌ Mock server error:", error);
+        this.send(request, response, 500, "text/plain", "Mock server error");
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(port, "127.0.0.1", () => resolve());
+    });
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handle(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    if (this.scenario === "slow") {
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.options.slowResponseMs ?? 3000)
+      );
+    }
+
+    const { pathname } = new URL(request.url || "/", "http://localhost");
+
+    if (request.method === "POST" && /PropertySearch_Post$/i.test(pathname)) {
+      const form = new URLSearchParams(await readBody(request));
+      return this.handleSearch(request, response, form);
+    }
+
+    if (pathname === "/") {
+      return this.send(request, response, 200, "text/html", renderHomePage());
+    }
+
+    const cityMatch = pathname.match(CITY_PAGE_PATTERN);
+    if (cityMatch) {
+      const geoId = getMockGeoId(cityMatch[1], cityMatch[2]);
+      return this.send(
+        request,
+        response,
+        200,
+        "text/html",
+        renderCityPage(geoId, toTitleCase(cityMatch[2].replace(/-/g, " ")))
+      );
+    }
+
+    const detailMatch = pathname.match(DETAIL_PAGE_PATTERN);
+    const listing = detailMatch && this.listingsById.get(detailMatch[1]);
+    if (listing) {
+      if (
+        this.scenario === "errors" &&
+        listing.index % FAILING_DETAIL_INTERVAL === FAILING_DETAIL_INTERVAL - 1
+      ) {
+        return this.send(request, response, 500, "text/html", "Server Error");
+      }
+      return this.send(
+        request,
+        response,
+        200,
+        "text/html",
+        renderDetailPage(listing)
+      );
+    }
+
+    this.send(request, response, 404, "text/html", "Not Found");
+  }
+
+  // PropertySearch_Post: one page of the city's listings
+  private handleSearch(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    form: URLSearchParams
+  ): void {
+    const geoMatch = (form.get("GeoIds") || "").match(GEO_ID_PATTERN);
+    if (!geoMatch) {
+      return this.sendJson(request, response, 400, {
+        ErrorCode: { Id: 400, Description: "Unknown GeoIds" },
+      });
+    }
+
+    const rent = form.get("TransactionTypeId") === "3";
+    const currentPage = Math.max(1, parseInt(form.get("CurrentPage") || "1"));
+    const recordsPerPage = Math.max(
+      1,
+      parseInt(form.get("RecordsPerPage") || "12")
+    );
+
+    const searchKey = `${geoMatch[0]}:${rent ? "rent" : "sale"}`;
+    if (
+      this.scenario === "errors" &&
+      currentPage > 1 &&
+      !this.failedApiPages.has(`${searchKey}:${currentPage}`)
+    ) {
+      this.failedApiPages.add(`${searchKey}:${currentPage}`);
+      return this.sendJson(request, response, 503, {
+        ErrorCode: { Id: 503, Description: "Service Unavailable" },
+      });
+    }
+
+    const listings = this.getListings(
+      searchKey,
+      geoMatch[1].toUpperCase(),
+      geoMatch[2],
+      rent
+    );
+    const start = (currentPage - 1) * recordsPerPage;
+
+    this.sendJson(request, response, 200, {
+      ErrorCode: { Id: 200, Description: "Success - OK" },
+      Paging: {
+        RecordsPerPage: recordsPerPage,
+        CurrentPage: currentPage,
+        TotalRecords: listings.length,
+        TotalPages: Math.ceil(listings.length / recordsPerPage),
+      },
+      Results: listings
+        .slice(start, start + recordsPerPage)
+        .map((listing) => toApiResult(listing)),
+    });
+  }
+
+  // Canned listings of a city, generated once per search
+  private getListings(
+    searchKey: string,
+    provinceCode: string,
+    cityKey: string,
+    rent: boolean
+  ): MockListing[] {
+    const existing = this.listingsBySearch.get(searchKey);
+    if (existing) return existing;
+
+    const count = this.options.listingsPerCity ?? 30;
+    const firstId = 80000000 + (hashString(searchKey) % 9000) * 1000;
+    const bounds = PROVINCE_BOUNDS[provinceCode] || PROVINCE_BOUNDS.ON;
+    const centerLatitude = (bounds.minLatitude + bounds.maxLatitude) / 2;
+    const centerLongitude = (bounds.minLongitude + bounds.maxLongitude) / 2;
+    const postalLetter =
+      Object.keys(POSTAL_REGION_CODES).find(
+        (letter) => POSTAL_REGION_CODES[letter] === provinceCode
+      ) || "X";
+    const cityName = toTitleCase(cityKey.replace(/-/g, " "));
+
+    const listings: MockListing[] = [];
+    for (let index = 0; index < count; index++) {
+      const id = (firstId + index).toString();
+      const number = 10 + index * 7;
+      const street = `${number} ${STREETS[index % STREETS.length]}`;
+      const listing: MockListing = {
+        id,
+        index,
+        mlsNumber: `${rent ? "R" : "C"}${(9000000 + index).toString()}`,
+        street,
+        cityName,
+        provinceCode,
+        postal: `${postalLetter}${index % 10}A ${(index * 7) % 10}B${
+          (index * 3) % 10
+        }`,
+        price: rent ? 1800 + index * 50 : 500000 + index * 25000,
+        rent,
+        latitude: (centerLatitude + (index % 6) * 0.005).toFixed(6),
+        longitude: (centerLongitude + Math.floor(index / 6) * 0.005).toFixed(6),
+        bedrooms: `${1 + (index % 4)}`,
+        bathrooms: `${1 + (index % 3)}`,
+        agent: AGENTS[index % AGENTS.length],
+        broker: BROKERS[index % BROKERS.length],
+        relativeUrl: `/real-estate/${id}/${slugify(street)}-${cityKey}`,
+      };
+      listings.push(listing);
+      this.listingsById.set(id, listing);
+    }
+
+    this.listingsBySearch.set(searchKey, listings);
+    return listings;
+  }
+
+  private sendJson(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    status: number,
+    body: unknown
+  ): void {
+    this.send(
+      request,
+      response,
+      status,
+      "application/json",
+      JSON.stringify(body)
+    );
+  }
+
+  private send(
+    request: http.IncomingMessage,
+    response: http.ServerResponse,
+    status: number,
+    contentType: string,
+    body: string
+  ): void {
+    this.requests.push({
+      method: request.method || "GET",
+      path: request.url || "/",
+      status,
+    });
+    response.writeHead(status, {
+      "Content-Type": `${contentType}; charset=utf-8`,
+    });
+    response.end(body);
+  }
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => chunks.push(chunk));
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+// PropertySearch_Post "Results" entry of a listing
+function toApiResult(listing: MockListing) {
+  const provinceName = toTitleCase(getProvinceName(listing.provinceCode));
+  const formattedPrice = `$${listing.price.toLocaleString("en-US")}`;
+
+  return {
+    Id: listing.id,
+    MlsNumber: listing.mlsNumber,
+    RelativeDetailsURL: listing.relativeUrl,
+    PostalCode: listing.postal,
+    ProvinceName: provinceName,
+    PublicRemarks: describeListing(listing),
+    Individual: [
+      { Name: listing.agent, Organization: { Name: listing.broker } },
+    ],
+    Building: {
+      Bedrooms: listing.bedrooms,
+      BathroomTotal: listing.bathrooms,
+      Type: listing.rent ? "Apartment" : "House",
+    },
+    Property: {
+      ...(listing.rent
+        ? {
+            LeaseRent: `${formattedPrice}/Monthly`,
+            LeaseRentUnformattedValue: listing.price.toString(),
+          }
+        : {
+            Price: formattedPrice,
+            PriceUnformattedValue: listing.price.toString(),
+          }),
+      Type: "Single Family",
+      Address: {
+        AddressText: `${listing.street}|${listing.cityName}, ${provinceName} ${
+          listing.postal
+        }`,
+        Latitude: listing.latitude,
+        Longitude: listing.longitude,
+      },
+    },
+  };
+}
+
+function renderHomePage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>REALTOR.ca (mock)</title></head>
+<body>
+<div id="TOUbanner"><a id="TOUdismissBtn" href="#" onclick="this.parentNode.remove(); return false;">Dismiss</a></div>
+<h1>Mock realtor.ca</h1>
+</body>
+</html>`;
+}
+
+// City listing page whose "next page" link calls the search API, so GeoId
+// discovery can capture the request
+function renderCityPage(geoId: string, cityName: string): string {
+  const search = JSON.stringify({ GeoIds: geoId, GeoName: cityName });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(cityName)} Real Estate - REALTOR.ca</title>
+<script>var searchConfig = ${search};</script>
+</head>
+<body>
+<div id="TOUbanner"><a id="TOUdismissBtn" href="#" onclick="this.parentNode.remove(); return false;">Dismiss</a></div>
+<h1>${escapeHtml(cityName)} real estate</h1>
+<div class="ResultsPaginationCon">
+  <a href="#" class="lnkNextResultsPage paginationLink paginationLinkForward" aria-label="Go to the next page"
+     onclick="fetch('/Listing.svc/PropertySearch_Post', { method: 'POST', headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, body: 'CurrentPage=2&GeoIds=' + encodeURIComponent(searchConfig.GeoIds) + '&GeoName=' + encodeURIComponent(searchConfig.GeoName) }); return false;">Next</a>
+</div>
+</body>
+</html>`;
+}
+
+// Detail page with the markup the extraction rules read
+function renderDetailPage(listing: MockListing): string {
+  const provinceName = toTitleCase(getProvinceName(listing.provinceCode));
+  const postal = listing.postal.replace(" ", "");
+  const location = `${listing.street}, ${listing.cityName}, ${provinceName} ${postal}`;
+  const geo = JSON.stringify({
+    "@context": "https://schema.org",
+    "@type": "SingleFamilyResidence",
+    name: listing.street,
+    geo: {
+      "@type": "GeoCoordinates",
+      latitude: listing.latitude,
+      longitude: listing.longitude,
+    },
+  });
+  const dataLayer = JSON.stringify({
+    property: { price: listing.price.toString(), city: listing.cityName },
+  });
+  const leaseTerm = listing.rent
+    ? `<div class="propertyDetailsSectionContentLabel">Lease Term</div><div class="propertyDetailsSectionContentValue">12 Months</div>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>For ${listing.rent ? "rent" : "sale"}: ${escapeHtml(location)} - REALTOR.ca</title>
+<meta property="og:description" content="${escapeHtml(location)}">
+<script type="application/ld+json">${geo}</script>
+<script>window.dataLayer = window.dataLayer || []; window.dataLayer.push(${dataLayer});</script>
+</head>
+<body>
+<h1 class="listingAddress">${escapeHtml(location)}</h1>
+<div id="listingMlsNumCon">MLS® Number: <span id="MLNumberVal">${listing.mlsNumber}</span></div>
+<div id="propertyDescriptionCon">${escapeHtml(describeListing(listing))}</div>
+<div class="propertyDetailsSection">
+<div class="propertyDetailsSectionContentLabel">Bedrooms</div><div class="propertyDetailsSectionContentValue">${listing.bedrooms}</div>
+<div class="propertyDetailsSectionContentLabel">Bathrooms</div><div class="propertyDetailsSectionContentValue">${listing.bathrooms}</div>
+<div class="propertyDetailsSectionContentLabel">Building Type</div><div class="propertyDetailsSectionContentValue">${listing.rent ? "Apartment" : "House"}</div>
+${leaseTerm}
+</div>
+<div class="realtorCard">
+<div class="realtorCardName">${escapeHtml(listing.agent)}</div>
+<div class="officeCardName">${escapeHtml(listing.broker)}</div>
+</div>
+</body>
+</html>`;
+}
+
+function describeListing(listing: MockListing): string {
+  return `Mock ${listing.bedrooms} bedroom listing on ${listing.street} for ${
+    listing.rent ? "rent" : "sale"
+  }.`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toTitleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+}
+
+function hashString(text: string): number {
+  let hash = 0;
+  for (const char of text) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash;
+}
@@ -0,0 +1,104 @@
+import { PropertyData } from "./scraper";
+import { toProvinceCode } from "./provinces";
+
+/**
+ * Typed view of a PropertyData record. The raw strings stay as scraped; this
+ * is what sorting, comparisons and typed spreadsheet cells are built from.
+ * Fields that cannot be parsed are null.
+ */
+export interface NormalizedProperty {
+  date: string | null; // ISO date, YYYY-MM-DD
+  priceCents: number | null; // Sale price, or the monthly rent for rentals
+  latitude: number | null;
+  longitude: number | null;
+  postalCode: string | null; // "A1A 1A1"
+  provinceCode: string | null; // Two-letter code, e.g. "ON"
+}
+
+// Function to read a price ("$1,299,000", "$2,450/Monthly") as whole cents
+export function parsePriceCents(price: string): number | null {
+  const match = price.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+  if (!match) return null;
+  return Math.round(parseFloat(match[0]) * 100);
+}
+
+// Function to read a latitude or longitude, null when outside -limit..limit
+export function parseCoordinate(value: string, limit: number): number | null {
+  const parsed = parseFloat(value);
+  if (isNaN(parsed) || Math.abs(parsed) > limit) return null;
+  return parsed;
+}
+
+/**
+ * Read a scrape date as an ISO date (YYYY-MM-DD). Accepts the DD-MM-YYYY
+ * dates of getCurrentDate(), en-GB DD/MM/YYYY dates from older runs, ISO
+ * dates and Date cells read back from a workbook.
+ */
+export function toIsoDate(value: string | Date): string | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+
+  const trimmed = value.trim();
+  const dayFirst = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  const yearFirst = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:T.*)?$/);
+
+  let year: number, month: number, day: number;
+  if (dayFirst) {
+    [day, month, year] = dayFirst.slice(1).map(Number);
+  } else if (yearFirst) {
+    [year, month, day] = yearFirst.slice(1).map(Number);
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// Function to compare two scrape dates in any accepted format; unreadable
+// dates sort first
+export function compareScrapeDates(a: string, b: string): number {
+  return (toIsoDate(a) || "").localeCompare(toIsoDate(b) || "");
+}
+
+// Function to format a date cell back into the DD-MM-YYYY form of DATE
+export function formatScrapeDate(date: Date): string {
+  return `${String(date.getUTCDate()).padStart(2, "0")}-${String(
+    date.getUTCMonth() + 1
+  ).padStart(2, "0")}-${date.getUTCFullYear()}`;
+}
+
+// Function to format a price as "$1,234,567". The locale is fixed so prices
+// read back from number cells match the scraped strings on any host.
+export function formatPrice(dollars: number): string {
+  return "$" + dollars.toLocaleString("en-CA");
+}
+
+// Function to format a coordinate cell back into its scraped string form
+export function formatCoordinate(value: number): string {
+  return value.toString();
+}
+
+// Canadian postal code in "A1A 1A1" form, null when it is not one
+export function normalizePostalCode(postal: string): string | null {
+  const match = postal
+    .trim()
+    .toUpperCase()
+    .match(/^([A-Z]\d[A-Z])\s*(\d[A-Z]\d)$/);
+  return match ? `${match[1]} ${match[2]}` : null;
+}
+
+export function normalizeProperty(property: PropertyData): NormalizedProperty {
+  return {
+    date: toIsoDate(property.DATE),
+    priceCents: parsePriceCents(property.PRICE),
+    latitude: parseCoordinate(property.LATITUDE, 90),
+    longitude: parseCoordinate(property.LONGITUDE, 180),
+    postalCode: normalizePostalCode(property.POSTAL),
+    provinceCode: toProvinceCode(property.STATE),
+  };
+}
@@ -0,0 +1,161 @@
+// Canadian provinces and territories: names, codes and coordinate bounds used
+// to fill STATE and sanity-check coordinates outside of Ontario too
+
+export const PROVINCE_CODES: { [province: string]: string } = {
+  ALBERTA: "AB",
+  "BRITISH COLUMBIA": "BC",
+  MANITOBA: "MB",
+  "NEW BRUNSWICK": "NB",
+  "NEWFOUNDLAND AND LABRADOR": "NL",
+  "NEWFOUNDLAND & LABRADOR": "NL",
+  "NOVA SCOTIA": "NS",
+  "NORTHWEST TERRITORIES": "NT",
+  NUNAVUT: "NU",
+  ONTARIO: "ON",
+  "PRINCE EDWARD ISLAND": "PE",
+  QUEBEC: "QC",
+  QUÉBEC: "QC",
+  SASKATCHEWAN: "SK",
+  YUKON: "YT",
+};
+
+// Name written to the STATE column for each province code
+export const PROVINCE_NAMES: { [code: string]: string } = {
+  AB: "ALBERTA",
+  BC: "BRITISH COLUMBIA",
+  MB: "MANITOBA",
+  NB: "NEW BRUNSWICK",
+  NL: "NEWFOUNDLAND AND LABRADOR",
+  NS: "NOVA SCOTIA",
+  NT: "NORTHWEST TERRITORIES",
+  NU: "NUNAVUT",
+  ON: "ONTARIO",
+  PE: "PRINCE EDWARD ISLAND",
+  QC: "QUEBEC",
+  SK: "SASKATCHEWAN",
+  YT: "YUKON",
+};
+
+export interface CoordinateBounds {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+function bounds(
+  minLatitude: number,
+  maxLatitude: number,
+  minLongitude: number,
+  maxLongitude: number
+): CoordinateBounds {
+  return { minLatitude, maxLatitude, minLongitude, maxLongitude };
+}
+
+// Slightly generous boxes around each province, so border towns still pass
+export const PROVINCE_BOUNDS: { [code: string]: CoordinateBounds } = {
+  AB: bounds(48.9, 60.1, -120.1, -109.9),
+  BC: bounds(48.2, 60.1, -139.1, -114),
+  MB: bounds(48.9, 60.1, -102.1, -88.9),
+  NB: bounds(44.5, 48.1, -69.1, -63.7),
+  NL: bounds(46.6, 60.4, -67.9, -52.6),
+  NS: bounds(43.3, 47.1, -66.4, -59.6),
+  NT: bounds(59.9, 78.8, -136.5, -101.9),
+  NU: bounds(51.6, 83.2, -121, -61),
+  ON: bounds(41.6, 56.9, -95.2, -74.3),
+  PE: bounds(45.9, 47.1, -64.5, -61.9),
+  QC: bounds(44.9, 62.6, -79.8, -57.1),
+  SK: bounds(48.9, 60.1, -110.1, -101.3),
+  YT: bounds(59.9, 69.7, -141.1, -123.8),
+};
+
+// All of Canada, for listings whose province is unknown
+export const CANADA_BOUNDS = bounds(41.6, 83.2, -141.1, -52.6);
+
+// First letter of a postal code -> province (X is shared by NT and NU)
+export const POSTAL_REGION_CODES: { [letter: string]: string } = {
+  A: "NL",
+  B: "NS",
+  C: "PE",
+  E: "NB",
+  G: "QC",
+  H: "QC",
+  J: "QC",
+  K: "ON",
+  L: "ON",
+  M: "ON",
+  N: "ON",
+  P: "ON",
+  R: "MB",
+  S: "SK",
+  T: "AB",
+  V: "BC",
+  Y: "YT",
+};
+
+const PROVINCE_CODE_VALUES = new Set(Object.values(PROVINCE_CODES));
+
+// Two-letter province code from a province name or code
+export function toProvinceCode(state: string): string | null {
+  const upper = state.trim().toUpperCase();
+  if (PROVINCE_CODE_VALUES.has(upper)) return upper;
+  return PROVINCE_CODES[upper] || null;
+}
+
+// Province code of a realtor.ca URL with a province segment, e.g.
+// https://www.realtor.ca/bc/vancouver/real-estate -> "BC"
+export function getProvinceCodeFromUrl(url: string): string | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url;
+  }
+
+  for (const segment of pathname.toUpperCase().split("/")) {
+    if (PROVINCE_CODE_VALUES.has(segment)) return segment;
+  }
+  return null;
+}
+
+// Province code of a postal code, null for unknown or shared regions
+export function getProvinceCodeFromPostal(postal: string): string | null {
+  const letter = postal.trim().toUpperCase().charAt(0);
+  return POSTAL_REGION_CODES[letter] || null;
+}
+
+/**
+ * Find a province in free text such as a page title
+ * ("For sale: 1 Main St, Calgary, Alberta T2P1J9 - REALTOR.ca"). Full names
+ * win over two-letter codes, which only count between a comma and a space
+ * or postal code.
+ */
+export function findProvinceCodeInText(text: string): string | null {
+  const upper = text.toUpperCase();
+  const names = Object.keys(PROVINCE_CODES).sort(
+    (a, b) => b.length - a.length
+  );
+
+  for (const name of names) {
+    if (new RegExp(`(^|[^A-ZÉ])${name}([^A-ZÉ]|$)`).test(upper)) {
+      return PROVINCE_CODES[name];
+    }
+  }
+
+  const codeMatch = upper.match(/,\s*([A-Z]{2})(?=\s|$)/g) || [];
+  for (const match of codeMatch) {
+    const code = match.replace(/[,\s]/g, "");
+    if (PROVINCE_CODE_VALUES.has(code)) return code;
+  }
+  return null;
+}
+
+// Value of the STATE column for a province code ("N/A" when unknown)
+export function getProvinceName(code: string | null): string {
+  return (code && PROVINCE_NAMES[code]) || "N/A";
+}
+
+// Coordinate bounds of a province, or of Canada when it is unknown
+export function getCoordinateBounds(code: string | null): CoordinateBounds {
+  return (code && PROVINCE_BOUNDS[code]) || CANADA_BOUNDS;
+}
@@ -5,9 +5,42 @@ import {
   TimingConfig,
   CURRENT_TIMEOUT_MODE,
   getCurrentTimeoutSettings,
+  SearchCriteria,
 } from "./config";
 import { RealtorApiScraper } from "./api-scraper";
-import { CityGeoIdFinder } from "./city-geoid-finder";
+import { resolveCityConfig } from "./geoid-registry";
+import { RateLimiter } from "./worker-pool";
+import { getCurrentDate } from "./utils";
+import { shutdown } from "./shutdown";
+import { HarReplayError, newHarContext } from "./har";
+import {
+  findProvinceCodeInText,
+  getCoordinateBounds,
+  getProvinceCodeFromPostal,
+  getProvinceCodeFromUrl,
+  getProvinceName,
+  toProvinceCode,
+} from "./provinces";
+import {
+  CoordinateFields,
+  CoordinateSource,
+  chooseCoordinates,
+  toCoordinateCandidate,
+} from "./coordinates";
+import {
+  FieldRules,
+  RuleMatch,
+  RuleMatchLog,
+  resolveFields,
+} from "./extraction-engine";
+import {
+  COORDINATE_RULES,
+  DETAIL_RULES,
+  EXTRACTION_RULES_VERSION,
+  FIELD_RULES,
+  LABEL_SELECTOR,
+  PROVINCE_RULES,
+} from "./extraction-rules";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -19,17 +52,99 @@ export interface PropertyData {
   POSTAL: string;
   AGENT: string;
   BROKER: string;
-  PRICE: string;
+  PRICE: string; // Sale price, or the monthly rent for rental listings
   LATITUDE: string;
   LONGITUDE: string;
+  LEASE_TERM?: string; // Rental listings only
+  LISTING_ID?: string; // realtor.ca listing ID, from the details URL or API
+  MLS_NUMBER?: string;
+  COORDINATE_SOURCE?: string; // CoordinateSource: "api", "json-ld", "map", ...
+  COORDINATE_CONFIDENCE?: string; // "high", "medium", "low" or "none"
+}
+
+// Listing details beyond the core columns, as shown on the listing page.
+// Fields the listing does not state are left unset.
+export interface PropertyDetails {
+  BEDROOMS?: string; // e.g. "3 + 1"
+  BATHROOMS?: string;
+  SQUARE_FEET?: string; // Interior size, e.g. "1100 - 1500 sqft"
+  LAND_SIZE?: string;
+  PROPERTY_TYPE?: string;
+  BUILDING_TYPE?: string;
+  STOREYS?: string;
+  PARKING?: string;
+  ANNUAL_TAXES?: string;
+  MAINTENANCE_FEES?: string;
+  YEAR_BUILT?: string;
+  DESCRIPTION?: string;
+  PHOTO_URLS?: string; // Space-separated
+}
+
+export const PROPERTY_DETAIL_FIELDS: (keyof PropertyDetails)[] = [
+  "BEDROOMS",
+  "BATHROOMS",
+  "SQUARE_FEET",
+  "LAND_SIZE",
+  "PROPERTY_TYPE",
+  "BUILDING_TYPE",
+  "STOREYS",
+  "PARKING",
+  "ANNUAL_TAXES",
+  "MAINTENANCE_FEES",
+  "YEAR_BUILT",
+  "DESCRIPTION",
+  "PHOTO_URLS",
+];
+
+// A listing with its full details, accepted wherever PropertyData is
+export interface ExtendedPropertyData extends PropertyData, PropertyDetails {}
+
+/**
+ * Get the realtor.ca listing ID from a details URL
+ * (https://www.realtor.ca/real-estate/27412345/123-main-street-... -> 27412345)
+ */
+export function extractListingIdFromUrl(url: string): string | undefined {
+  return url.match(/\/real-estate\/(\d+)(?:[\/?#]|$)/)?.[1];
+}
+
+/**
+ * Error raised when a page still fails to load after every navigation retry
+ */
+export class NavigationError extends Error {
+  constructor(message: string, readonly attempts: number) {
+    super(message);
+    this.name = "NavigationError";
+  }
+}
+
+/**
+ * Error raised when a loaded detail page shows no listing: none of its
+ * identity fields (address, MLS number) matched
+ */
+export class EmptyListingError extends Error {
+  constructor(url: string) {
+    super(`No listing found on ${url} (no address or MLS number)`);
+    this.name = "EmptyListingError";
+  }
 }
 
 export class RealtorCaScraper {
   private browser: Browser | null = null;
   private page: Page | null = null;
   private context: BrowserContext | null = null;
-
-  constructor() {}
+  private apiScraper: RealtorApiScraper | null = null;
+  private detailPageVisited = false;
+  private rateLimiter: RateLimiter | null = null;
+  // Set on worker pages created by createWorker()
+  private owner: RealtorCaScraper | null = null;
+  // Which extraction rules matched, kept by the owner for all its workers
+  private ruleLog = new RuleMatchLog(EXTRACTION_RULES_VERSION);
+
+  constructor(
+    private listingUrl: string = ScrapingConfig.DEFAULT_LISTING_URL,
+    private headless: boolean = BrowserConfig.HEADLESS_MODE,
+    private searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA
+  ) {}
 
   /**
    * Initialize the browser and navigate to the base page
@@ -63,7 +178,7 @@ export class RealtorCaScraper {
     console.log("🌐 Launching browser...");
 
     this.browser = await chromium.launch({
-      headless: BrowserConfig.HEADLESS_MODE,
+      headless: this.headless,
       slowMo: BrowserConfig.BROWSER_SLOW_MO,
       args: [
         "--disable-blink-features=AutomationControlled",
@@ -75,18 +190,23 @@ export class RealtorCaScraper {
       ],
     });
 
-    this.context = await this.browser.newContext({
-      viewport: {
-        width: BrowserConfig.VIEWPORT_WIDTH,
-        height: BrowserConfig.VIEWPORT_HEIGHT,
-      },
-      userAgent:
-        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-      ignoreHTTPSErrors: true,
-      extraHTTPHeaders: {
-        "Accept-Language": "en-US,en;q=0.9",
-      },
-    });
+    this.context = await newHarContext(
+      this.browser,
+      "scraper",
+      this.listingUrl,
+      {
+        viewport: {
+          width: BrowserConfig.VIEWPORT_WIDTH,
+          height: BrowserConfig.VIEWPORT_HEIGHT,
+        },
+        userAgent:
+          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+        ignoreHTTPSErrors: true,
+        extraHTTPHeaders: {
+          "Accept-Language": "en-US,en;q=0.9",
+        },
+      }
+    );
 
     this.page = await this.context.newPage();
 
@@ -99,6 +219,40 @@ export class RealtorCaScraper {
     );
   }
 
+  /**
+   * Open another page in the same browser context. The worker scrapes detail
+   * pages on its own but shares this scraper's API listing data.
+   */
+  async createWorker(
+    rateLimiter: RateLimiter | null = this.rateLimiter
+  ): Promise<RealtorCaScraper> {
+    if (!this.browser || !this.context) {
+      throw new Error("Scraper not initialized. Call initialize() first.");
+    }
+
+    const worker = new RealtorCaScraper(
+      this.listingUrl,
+      this.headless,
+      this.searchCriteria
+    );
+    worker.owner = this;
+    worker.browser = this.browser;
+    worker.context = this.context;
+    worker.rateLimiter = rateLimiter;
+    worker.page = await this.context.newPage();
+    worker.page.setDefaultNavigationTimeout(BrowserConfig.NAVIGATION_TIMEOUT);
+    worker.page.setDefaultTimeout(BrowserConfig.ELEMENT_WAIT_TIMEOUT);
+
+    return worker;
+  }
+
+  /**
+   * Share a rate limit for detail-page navigation with other pages
+   */
+  setRateLimiter(rateLimiter: RateLimiter | null): void {
+    this.rateLimiter = rateLimiter;
+  }
+
   /**
    * Extract property listing URLs using API-based pagination (primary method)
    */
@@ -127,38 +281,61 @@ export class RealtorCaScraper {
 
     console.log("📡 Initializing API-based URL collection...");
 
-    // First, discover the GeoId for the current city
-    const cityFinder = new CityGeoIdFinder();
-    console.log("🏙️ Discovering GeoId for the current city...");
+    const apiScraper = await this.createApiScraper();
+
+    // Extract URLs using the API
+    const urls = await apiScraper.scrapePropertyUrls(maxPages);
 
-    const cityConfig = await cityFinder.findGeoIdForCity(
-      ScrapingConfig.DEFAULT_LISTING_URL
+    console.log(
+      `✅ API extracted ${urls.length} property URLs from ${maxPages} pages`
     );
+    return urls;
+  }
 
-    if (!cityConfig) {
-      throw new Error(
-        `Failed to discover GeoId for URL: ${ScrapingConfig.DEFAULT_LISTING_URL}`
-      );
+  /**
+   * Create an API scraper for the current city. The GeoId comes from the
+   * local registry when possible; a registered GeoId the API rejects is
+   * rediscovered once.
+   */
+  private async createApiScraper(): Promise<RealtorApiScraper> {
+    if (!this.browser) {
+      throw new Error("Scraper not initialized. Call initialize() first.");
     }
 
-    console.log(
-      `✅ Discovered city configuration: ${cityConfig.cityName} (${cityConfig.geoId})`
-    );
+    console.log("🏙️ Resolving GeoId for the current city...");
+    const resolved = await resolveCityConfig(this.listingUrl);
 
-    // Create API scraper instance with the discovered city config
-    const apiScraper = new RealtorApiScraper();
-    await apiScraper.initialize(this.browser);
+    if (!resolved) {
+      throw new Error(`Failed to discover GeoId for URL: ${this.listingUrl}`);
+    }
 
-    // Set the discovered city configuration
+    let cityConfig = resolved.cityConfig;
+    const apiScraper = new RealtorApiScraper();
+    await apiScraper.initialize(this.browser, this.listingUrl);
     apiScraper.setCityConfig(cityConfig);
+    apiScraper.setSearchCriteria(this.searchCriteria);
 
-    // Extract URLs using the API
-    const urls = await apiScraper.scrapePropertyUrls(maxPages);
+    if (resolved.fromRegistry && !(await apiScraper.verifyCityConfig())) {
+      console.log("⚠️ API rejected the registered GeoId, rediscovering...");
+      const refreshed = await resolveCityConfig(this.listingUrl, {
+        refresh: true,
+      });
+
+      if (!refreshed) {
+        throw new Error(
+          `Failed to rediscover GeoId for URL: ${this.listingUrl}`
+        );
+      }
+      cityConfig = refreshed.cityConfig;
+      apiScraper.setCityConfig(cityConfig);
+    }
 
     console.log(
-      `✅ API extracted ${urls.length} property URLs from ${maxPages} pages`
+      `✅ City configuration ready: ${cityConfig.cityName} (${cityConfig.geoId})`
     );
-    return urls;
+    await this.apiScraper?.close();
+    this.apiScraper = apiScraper;
+    return apiScraper;
   }
 
   /**
@@ -174,13 +351,25 @@ export class RealtorCaScraper {
 
     for (let attempt = 1; attempt <= retries; attempt++) {
       try {
+        if (this.rateLimiter) {
+          await this.rateLimiter.acquire();
+        }
         console.log(`🌐 Navigating to: ${url} (Attempt ${attempt}/${retries})`);
 
-        await this.page.goto(url, {
+        const response = await this.page.goto(url, {
           waitUntil: BrowserConfig.PAGE_LOAD_STRATEGY,
           timeout: BrowserConfig.NAVIGATION_TIMEOUT,
         });
 
+        if (response && !response.ok()) {
+          const status = `HTTP ${response.status()} ${response.statusText()}`;
+          // Server errors and rate limiting may pass on a retry, others won't
+          if (response.status() < 500 && response.status() !== 429) {
+            throw new NavigationError(`${url} returned ${status}`, attempt);
+          }
+          throw new Error(status);
+        }
+
         // Enhanced DOM readiness check
         await this.waitForDOMReady();
         console.log(
@@ -188,6 +377,7 @@ export class RealtorCaScraper {
         );
         return;
       } catch (error) {
+        if (error instanceof NavigationError) throw error;
         console.log(`⚠️ Navigation attempt ${attempt} failed: ${error}`);
 
         if (attempt < retries) {
@@ -198,8 +388,9 @@ export class RealtorCaScraper {
           );
           await this.page.waitForTimeout(BrowserConfig.NAVIGATION_RETRY_DELAY);
         } else {
-          throw new Error(
-            `Failed to navigate to ${url} after ${retries} attempts: ${error}`
+          throw new NavigationError(
+            `Failed to navigate to ${url} after ${retries} attempts: ${error}`,
+            attempt
           );
         }
       }
@@ -238,7 +429,7 @@ export class RealtorCaScraper {
     console.log("⚠️ No essential elements found, but proceeding...");
   }
 
-  async scrapeProperty(url: string): Promise<PropertyData> {
+  async scrapeProperty(url: string): Promise<ExtendedPropertyData> {
     if (!this.page) {
       throw new Error("Scraper not initialized. Call initialize() first.");
     }
@@ -273,19 +464,17 @@ export class RealtorCaScraper {
         console.log("ℹ️ No cookie banner found or already dismissed");
       }
 
-      // Extract all the required data
-      const propertyData: PropertyData = {
-        DATE: this.getCurrentDate(),
-        ADDRESS: await this.extractAddress(),
-        CITY: await this.extractCity(),
-        STATE: "ONTARIO", // Always Ontario for realtor.ca
-        POSTAL: await this.extractPostalCode(),
-        AGENT: await this.extractAgent(),
-        BROKER: await this.extractBroker(),
-        PRICE: await this.extractPrice(),
-        LATITUDE: await this.extractLatitude(),
-        LONGITUDE: await this.extractLongitude(),
-      };
+      const propertyData = await this.extractLoadedProperty(url);
+      if (
+        propertyData.ADDRESS === "N/A" &&
+        propertyData.MLS_NUMBER === "N/A"
+      ) {
+        throw new EmptyListingError(url);
+      }
+
+      if (ScrapingConfig.FIXTURE_CAPTURE_DIR) {
+        await this.captureFixture(url, ScrapingConfig.FIXTURE_CAPTURE_DIR);
+      }
 
       console.log("✅ Successfully scraped property data");
       return propertyData;
@@ -295,533 +484,323 @@ export class RealtorCaScraper {
     }
   }
 
-  private getCurrentDate(): string {
-    const now = new Date();
-    return `${String(now.getDate()).padStart(2, "0")}-${String(
-      now.getMonth() + 1
-    ).padStart(2, "0")}-${now.getFullYear()}`;
-  }
+  /**
+   * Extract the property data of the detail page already loaded in this
+   * scraper's page (a live listing, or a saved fixture in the offline tests)
+   */
+  async extractLoadedProperty(url: string): Promise<ExtendedPropertyData> {
+    const rules: FieldRules = { ...FIELD_RULES, ...DETAIL_RULES };
+    if (this.searchCriteria.transactionType !== "rent") {
+      delete rules.LEASE_TERM;
+    }
+    const fields = await this.extractFields(rules);
+    this.recordMatches(rules, fields);
+    const value = (field: string) => fields[field]?.[0]?.value;
+
+    // Every province text and coordinate rule that matches contributes
+    const sources = await this.extractFields(
+      { PROVINCE: PROVINCE_RULES, COORDINATES: COORDINATE_RULES },
+      "all"
+    );
 
-  private async extractAddress(): Promise<string> {
-    if (!this.page) return "N/A";
+    // The province decides STATE and the bounds coordinates must fall in
+    const postal = value("POSTAL") || "N/A";
+    const provinceCode = this.extractProvinceCode(
+      url,
+      postal,
+      sources.PROVINCE || []
+    );
+    const coordinates = this.extractCoordinates(
+      url,
+      provinceCode,
+      sources.COORDINATES || []
+    );
 
-    try {
-      const address = await this.page.evaluate(() => {
-        // First try to extract from document title (most reliable)
-        if (document.title) {
-          const titleMatch = document.title.match(/For sale:\s*(.+?),\s*/);
-          if (titleMatch && titleMatch[1]) {
-            return titleMatch[1].trim();
-          }
-        }
+    const propertyData: ExtendedPropertyData = {
+      DATE: getCurrentDate(),
+      ADDRESS: value("ADDRESS") || "N/A",
+      CITY: value("CITY") || "N/A",
+      STATE: getProvinceName(provinceCode),
+      POSTAL: postal,
+      AGENT: value("AGENT") || "N/A",
+      BROKER: value("BROKER") || "N/A",
+      PRICE: value("PRICE") || "N/A",
+      LATITUDE: coordinates.LATITUDE,
+      LONGITUDE: coordinates.LONGITUDE,
+      COORDINATE_SOURCE: coordinates.COORDINATE_SOURCE,
+      COORDINATE_CONFIDENCE: coordinates.COORDINATE_CONFIDENCE,
+    };
+
+    if (this.searchCriteria.transactionType === "rent") {
+      propertyData.LEASE_TERM = value("LEASE_TERM") || "N/A";
+    }
 
-        // Try meta description
-        const ogDescription = document.querySelector(
-          'meta[property="og:description"]'
-        );
-        if (ogDescription) {
-          const content = ogDescription.getAttribute("content");
-          if (content) {
-            const match = content.match(/(.+?),\s*/);
-            if (match && match[1]) {
-              return match[1].trim();
-            }
-          }
-        }
+    propertyData.LISTING_ID = extractListingIdFromUrl(url) || "N/A";
+    propertyData.MLS_NUMBER = value("MLS_NUMBER") || "N/A";
 
-        // Fallback to original method
-        const selectors = [
-          'h1[data-testid="listing-address"]',
-          ".listingAddress h1",
-          "h1.listingAddress",
-          ".property-address",
-          ".listing-address",
-          'h1[class*="address"]',
-          ".listing-details h1",
-          ".property-info h1",
-          "h1",
-        ];
-
-        for (const selector of selectors) {
-          const element = document.querySelector(selector);
-          if (element && element.textContent && element.textContent.trim()) {
-            const text = element.textContent.trim();
-            if (
-              text.match(/\d+/) ||
-              text.match(
-                /\b(street|st|avenue|ave|road|rd|drive|dr|lane|ln|way|circle|cir|court|ct)\b/i
-              )
-            ) {
-              return text;
-            }
-          }
-        }
+    // Details the listing does not state are left unset
+    for (const field of PROPERTY_DETAIL_FIELDS) {
+      const detail = value(field);
+      if (detail) propertyData[field] = detail;
+    }
 
-        return "N/A";
-      });
+    return propertyData;
+  }
 
-      return address || "N/A";
-    } catch (error) {
-      console.log(`⚠️ Error extracting address:`, error);
-      return "N/A";
-    }
+  /**
+   * Scrape an existing page instead of the one opened by initialize(), e.g.
+   * a page of the offline extraction tests
+   */
+  attachPage(page: Page): void {
+    this.page = page;
   }
 
-  private async extractCity(): Promise<string> {
-    if (!this.page) return "N/A";
+  /**
+   * Save the loaded detail page as an offline test fixture: <id>.html and
+   * <id>.json with the listing URL and transaction type. The expected data
+   * is written by the first test run over the fixture.
+   */
+  private async captureFixture(url: string, directory: string): Promise<void> {
+    if (!this.page) return;
 
     try {
-      const city = await this.page.evaluate(() => {
-        // Extract from document title (most reliable)
-        if (document.title) {
-          const titleMatch = document.title.match(
-            /For sale:\s*.+?,\s*(.+?),\s*/
-          );
-          if (titleMatch && titleMatch[1]) {
-            return titleMatch[1].trim();
-          }
-        }
-
-        // Try meta description
-        const ogDescription = document.querySelector(
-          'meta[property="og:description"]'
-        );
-        if (ogDescription) {
-          const content = ogDescription.getAttribute("content");
-          if (content) {
-            const match = content.match(/.+?,\s*(.+?),\s*/);
-            if (match && match[1]) {
-              return match[1].trim();
-            }
-          }
-        }
-
-        // Try data layer
-        if ((window as any).dataLayer) {
-          for (const item of (window as any).dataLayer) {
-            if (item.property && item.property.city) {
-              return item.property.city;
-            }
-          }
-        }
-
-        // Fallback to original method
-        const selectors = [
-          '[data-testid="listing-city"]',
-          ".listingCity",
-          ".property-city",
-          ".listing-location",
-        ];
-
-        for (const selector of selectors) {
-          const element = document.querySelector(selector);
-          if (element && element.textContent) {
-            return element.textContent.trim();
-          }
-        }
-
-        // Fallback: extract from breadcrumb or URL
-        const breadcrumbs = document.querySelectorAll(
-          ".breadcrumb span, .breadcrumb a"
-        );
-        for (let i = 0; i < breadcrumbs.length; i++) {
-          const breadcrumb = breadcrumbs[i];
-          const text = breadcrumb.textContent?.trim();
-          if (text && text.includes("(") && text.includes(")")) {
-            return text;
-          }
-        }
-
-        return "N/A";
-      });
-
-      return city || "N/A";
+      const name = extractListingIdFromUrl(url) || `listing-${Date.now()}`;
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(
+        path.join(directory, `${name}.html`),
+        await this.page.content()
+      );
+      fs.writeFileSync(
+        path.join(directory, `${name}.json`),
+        JSON.stringify(
+          {
+            url,
+            transactionType: this.searchCriteria.transactionType || "sale",
+          },
+          null,
+          2
+        ) + "\n"
+      );
+      console.log(`🧪 Saved test fixture ${name} to ${directory}`);
     } catch (error) {
-      console.log("⚠️ Error extracting city:", error);
-      return "N/A";
+      console.log("⚠️ Error saving test fixture:", error);
     }
   }
 
-  private async extractPostalCode(): Promise<string> {
-    if (!this.page) return "N/A";
-
-    try {
-      const postalCode = await this.page.evaluate(() => {
-        // Extract from document title (most reliable)
-        if (document.title) {
-          const titleMatch = document.title.match(/([A-Z]\d[A-Z]\s?\d[A-Z]\d)/);
-          if (titleMatch && titleMatch[1]) {
-            return titleMatch[1].replace(/\s/g, "").toUpperCase();
-          }
-        }
-
-        // Try meta description
-        const ogDescription = document.querySelector(
-          'meta[property="og:description"]'
-        );
-        if (ogDescription) {
-          const content = ogDescription.getAttribute("content");
-          if (content) {
-            const match = content.match(/([A-Z]\d[A-Z]\s?\d[A-Z]\d)/);
-            if (match && match[1]) {
-              return match[1].replace(/\s/g, "").toUpperCase();
-            }
-          }
-        }
-
-        // Canadian postal code pattern: A1A 1A1
-        const postalCodeRegex = /[A-Z]\d[A-Z]\s?\d[A-Z]\d/g;
-
-        // Search in various places
-        const searchAreas = [
-          document.body.textContent || "",
-          document
-            .querySelector('meta[property="og:description"]')
-            ?.getAttribute("content") || "",
-        ];
-
-        for (const area of searchAreas) {
-          const matches = area.match(postalCodeRegex);
-          if (matches && matches.length > 0) {
-            return matches[0].replace(/\s/g, "").toUpperCase();
-          }
-        }
+  /**
+   * Get property data according to the configured extraction mode.
+   * In "api" mode the listing data returned by the search API is used directly,
+   * and the detail page is only loaded to fill fields the API left empty
+   * (when API_DETAIL_FALLBACK is enabled) or when the URL was never seen in an
+   * API response.
+   */
+  async getProperty(url: string): Promise<ExtendedPropertyData> {
+    this.detailPageVisited = false;
+
+    const apiScraper = (this.owner || this).apiScraper;
+    const listedProperty =
+      ScrapingConfig.EXTRACTION_MODE === "api"
+        ? apiScraper?.getPropertyForUrl(url)
+        : undefined;
+
+    if (!apiScraper || !listedProperty) {
+      this.detailPageVisited = true;
+      return this.scrapeProperty(url);
+    }
 
-        return "N/A";
-      });
+    // API coordinates are checked against the city's box; a point outside it
+    // counts as missing, so the detail page can correct it (coordinates are
+    // replaced together with their source and confidence)
+    const apiProperty: ExtendedPropertyData = {
+      ...listedProperty,
+      ...chooseCoordinates(
+        [
+          toCoordinateCandidate(
+            listedProperty.LATITUDE,
+            listedProperty.LONGITUDE,
+            "api"
+          ),
+        ],
+        apiScraper.getSearchBounds(),
+        getCoordinateBounds(toProvinceCode(listedProperty.STATE))
+      ),
+    };
+    const coordinateFields: (keyof ExtendedPropertyData)[] =
+      apiProperty.COORDINATE_CONFIDENCE === "low" ||
+      apiProperty.COORDINATE_CONFIDENCE === "none"
+        ? [
+            "LATITUDE",
+            "LONGITUDE",
+            "COORDINATE_SOURCE",
+            "COORDINATE_CONFIDENCE",
+          ]
+        : [];
+
+    // Details only send us to the detail page when they are being written
+    const candidateFields: (keyof ExtendedPropertyData)[] = [
+      ...(Object.keys(apiProperty) as (keyof ExtendedPropertyData)[]),
+      ...coordinateFields,
+      ...(ScrapingConfig.COLUMN_PROFILE === "extended"
+        ? PROPERTY_DETAIL_FIELDS
+        : []),
+    ];
+    const missingFields = candidateFields.filter(
+      (field, index) =>
+        candidateFields.indexOf(field) === index &&
+        (apiProperty[field] === undefined ||
+          apiProperty[field] === "N/A" ||
+          coordinateFields.includes(field))
+    );
 
-      return postalCode || "N/A";
-    } catch (error) {
-      console.log("⚠️ Error extracting postal code:", error);
-      return "N/A";
+    if (missingFields.length === 0 || !ScrapingConfig.API_DETAIL_FALLBACK) {
+      console.log(`\n📡 Using API listing data: ${url}`);
+      return apiProperty;
     }
-  }
-
-  private async extractAgent(): Promise<string> {
-    if (!this.page) return "N/A";
 
+    console.log(
+      `\n📡 API listing data missing ${missingFields.join(
+        ", "
+      )}, loading detail page...`
+    );
+    this.detailPageVisited = true;
+    let detailProperty: ExtendedPropertyData;
     try {
-      const agent = await this.page.evaluate(() => {
-        // Look for agent name in specific containers
-        const agentNameElements = document.querySelectorAll(".realtorCardName");
-        for (let i = 0; i < agentNameElements.length; i++) {
-          const element = agentNameElements[i];
-          const text = element.textContent?.trim();
-          if (text && text.length > 0 && text.length < 50) {
-            return text.toUpperCase();
-          }
-        }
-
-        // Look for agent in contact sections
-        const possibleElements = document.querySelectorAll("*");
-        for (let i = 0; i < possibleElements.length; i++) {
-          const element = possibleElements[i];
-          const text = element.textContent?.trim() || "";
-          const className = element.className || "";
-
-          // Check if this element contains only a person's name (short text, likely a name)
-          if (
-            (className.includes("agent") || className.includes("realtor")) &&
-            text.length > 2 &&
-            text.length < 30 &&
-            text.match(/^[A-Z\s]+$/) &&
-            !text.includes("HOMELIFE") &&
-            !text.includes("REALTY") &&
-            !text.includes("INC")
-          ) {
-            return text.toUpperCase();
-          }
-        }
-
-        // Try multiple selectors for agent name
-        const selectors = [
-          '[data-testid="agent-name"]',
-          ".agent-name",
-          ".listing-agent",
-          ".contact-agent .name",
-          ".agent-info .name",
-        ];
-
-        for (const selector of selectors) {
-          const element = document.querySelector(selector);
-          if (element && element.textContent) {
-            return element.textContent.trim().toUpperCase();
-          }
-        }
-
-        // Fallback: look for patterns in text
-        const bodyText = document.body.textContent || "";
-        const agentMatch = bodyText.match(/Agent:?\s*([A-Z\s]+)/i);
-        if (agentMatch) {
-          return agentMatch[1].trim().toUpperCase();
-        }
-
-        return "N/A";
-      });
-
-      return agent || "N/A";
+      detailProperty = await this.scrapeProperty(url);
     } catch (error) {
-      console.log("⚠️ Error extracting agent:", error);
-      return "N/A";
+      // The API already identified the listing, so it is kept as listed
+      console.log(`⚠️ Detail page failed, using API listing data: ${error}`);
+      return apiProperty;
     }
-  }
-
-  private async extractBroker(): Promise<string> {
-    if (!this.page) return "N/A";
 
-    try {
-      const broker = await this.page.evaluate(() => {
-        // Look for office/brokerage name in specific containers
-        const officeNameElements = document.querySelectorAll(".officeCardName");
-        for (let i = 0; i < officeNameElements.length; i++) {
-          const element = officeNameElements[i];
-          const text = element.textContent?.trim();
-          if (text && text.length > 5) {
-            return text.toUpperCase();
-          }
-        }
-
-        // Look for brokerage info in listing card office names
-        const listingOfficeElements = document.querySelectorAll(
-          ".listingCardOfficeName"
-        );
-        for (let i = 0; i < listingOfficeElements.length; i++) {
-          const element = listingOfficeElements[i];
-          const text = element.textContent?.trim();
-          if (text && text.includes("BROKERAGE")) {
-            return text.toUpperCase();
-          }
-        }
-
-        // Try multiple selectors for broker/brokerage
-        const selectors = [
-          '[data-testid="brokerage-name"]',
-          ".brokerage-name",
-          ".broker-name",
-          ".listing-brokerage",
-          ".contact-info .brokerage",
-        ];
-
-        for (const selector of selectors) {
-          const element = document.querySelector(selector);
-          if (element && element.textContent) {
-            return element.textContent.trim().toUpperCase();
-          }
-        }
-
-        // Fallback: look for patterns in text
-        const bodyText = document.body.textContent || "";
-        const brokerMatch = bodyText.match(
-          /(?:Broker|Brokerage|Office):?\s*([A-Z\s\d\-,]+)/i
-        );
-        if (brokerMatch) {
-          return brokerMatch[1].trim().toUpperCase();
-        }
-
-        return "N/A";
-      });
-
-      return broker || "N/A";
-    } catch (error) {
-      console.log("⚠️ Error extracting broker:", error);
-      return "N/A";
+    const merged: ExtendedPropertyData = { ...apiProperty };
+    for (const field of missingFields) {
+      const value = detailProperty[field];
+      if (value !== undefined) {
+        merged[field] = value;
+      } else if (
+        !PROPERTY_DETAIL_FIELDS.includes(field as keyof PropertyDetails)
+      ) {
+        merged[field] = "N/A";
+      }
     }
+    return merged;
   }
 
-  private async extractPrice(): Promise<string> {
-    if (!this.page) return "N/A";
-
-    try {
-      const price = await this.page.evaluate(() => {
-        // Try to extract from Google Analytics dataLayer first (most reliable)
-        if ((window as any).dataLayer) {
-          for (const item of (window as any).dataLayer) {
-            if (item.property && item.property.price) {
-              const priceValue = parseFloat(item.property.price);
-              return "$" + priceValue.toLocaleString();
-            }
-          }
-        }
-
-        // Try multiple selectors for price
-        const selectors = [
-          '[data-testid="listing-price"]',
-          ".listing-price",
-          ".property-price",
-          ".price-display",
-          ".current-price",
-        ];
-
-        for (const selector of selectors) {
-          const element = document.querySelector(selector);
-          if (element && element.textContent) {
-            const priceText = element.textContent.trim();
-            if (priceText.includes("$")) {
-              return priceText;
-            }
-          }
-        }
-
-        // Fallback: look for price patterns
-        const bodyText = document.body.textContent || "";
-        const priceMatch = bodyText.match(/\$[\d,]+(?:\.\d{2})?/g);
-        if (priceMatch && priceMatch.length > 0) {
-          // Return the largest price (likely the listing price)
-          const prices = priceMatch.map((p) =>
-            parseFloat(p.replace(/[$,]/g, ""))
-          );
-          const maxPrice = Math.max(...prices);
-          return `$${maxPrice.toLocaleString()}`;
-        }
-
-        return "N/A";
-      });
+  /**
+   * Every listing of the search when this session fetched all of its API
+   * pages (undefined after a run limited by max pages or max properties)
+   */
+  getCompleteSearchResults(): PropertyData[] | undefined {
+    return (this.owner || this).apiScraper?.getCompleteSearchResults();
+  }
 
-      return price || "N/A";
-    } catch (error) {
-      console.log("⚠️ Error extracting price:", error);
-      return "N/A";
-    }
+  /**
+   * Whether the last getProperty() call had to load the property detail page,
+   * so callers only apply per-property rate limiting when a page was visited
+   */
+  get visitedDetailPage(): boolean {
+    return this.detailPageVisited;
   }
 
-  private async extractLatitude(): Promise<string> {
-    if (!this.page) return "N/A";
+  /**
+   * Resolve fields with the rules of the extraction registry on the current
+   * page. Matches are not recorded here; see recordMatches().
+   */
+  private async extractFields(
+    rules: FieldRules,
+    mode: "first" | "all" = "first"
+  ): Promise<{ [field: string]: RuleMatch[] }> {
+    if (!this.page) return {};
 
     try {
-      const latitude = await this.page.evaluate(() => {
-        // Try to find latitude in script tags or data attributes
-        const scripts = document.querySelectorAll("script");
-        for (let i = 0; i < scripts.length; i++) {
-          const script = scripts[i];
-          const content = script.textContent || "";
-
-          // Look for coordinate patterns (more specific for Toronto area)
-          const coordMatch = content.match(/(-?\d{2}\.\d{6,})/g);
-          if (coordMatch && coordMatch.length >= 2) {
-            const lat = parseFloat(coordMatch[0]);
-            // Toronto area latitude range
-            if (lat >= 43 && lat <= 44) {
-              return coordMatch[0];
-            }
-          }
-
-          // Look for latitude patterns in JSON or JavaScript
-          const latMatch = content.match(
-            /(?:latitude|lat)['":\s]*(-?\d+\.\d+)/i
-          );
-          if (latMatch && latMatch[1]) {
-            const lat = parseFloat(latMatch[1]);
-            // Validate latitude range (-90 to 90) and Toronto area
-            if (lat >= 43 && lat <= 44) {
-              return latMatch[1];
-            }
-          }
-        }
-
-        // Try meta tags
-        const metaTags = document.querySelectorAll(
-          'meta[name*="latitude"], meta[property*="latitude"]'
-        );
-        for (let i = 0; i < metaTags.length; i++) {
-          const meta = metaTags[i];
-          const content = meta.getAttribute("content");
-          if (content && content.match(/^-?\d+\.\d+$/)) {
-            return content;
-          }
-        }
-
-        // Try data attributes
-        const elements = document.querySelectorAll(
-          "[data-lat], [data-latitude]"
-        );
-        for (let i = 0; i < elements.length; i++) {
-          const el = elements[i];
-          const lat =
-            el.getAttribute("data-lat") || el.getAttribute("data-latitude");
-          if (lat && lat.match(/^-?\d+\.\d+$/)) {
-            return lat;
-          }
-        }
-
-        return "N/A";
-      });
-
-      return latitude || "N/A";
+      return await resolveFields(this.page, rules, LABEL_SELECTOR, mode);
     } catch (error) {
-      console.log("⚠️ Error extracting latitude:", error);
-      return "N/A";
+      console.log("⚠️ Error extracting fields:", error);
+      return {};
     }
   }
 
-  private async extractLongitude(): Promise<string> {
-    if (!this.page) return "N/A";
-
-    try {
-      const longitude = await this.page.evaluate(() => {
-        // Try to find longitude in script tags or data attributes
-        const scripts = document.querySelectorAll("script");
-        for (let i = 0; i < scripts.length; i++) {
-          const script = scripts[i];
-          const content = script.textContent || "";
-
-          // Look for coordinate patterns (longitude is typically the second coordinate)
-          const coordMatch = content.match(/(-?\d{2,3}\.\d{6,})/g);
-          if (coordMatch && coordMatch.length >= 2) {
-            const lng = parseFloat(coordMatch[1]);
-            // Toronto area longitude range
-            if (lng >= -80 && lng <= -79) {
-              return coordMatch[1];
-            }
-          }
-
-          // Look for longitude patterns in JSON or JavaScript
-          const lngMatch = content.match(
-            /(?:longitude|lng|lon)['":\s]*(-?\d+\.\d+)/i
-          );
-          if (lngMatch && lngMatch[1]) {
-            const lng = parseFloat(lngMatch[1]);
-            // Validate longitude range (-180 to 180) and Toronto area
-            if (lng >= -80 && lng <= -79) {
-              return lngMatch[1];
-            }
-          }
-        }
+  // Record the first match of each field in the owner's rule match log
+  private recordMatches(
+    rules: FieldRules,
+    matches: { [field: string]: RuleMatch[] }
+  ): void {
+    const ruleLog = (this.owner || this).ruleLog;
+    for (const field of Object.keys(rules)) {
+      ruleLog.record(field, matches[field]?.[0]);
+    }
+  }
 
-        // Try meta tags
-        const metaTags = document.querySelectorAll(
-          'meta[name*="longitude"], meta[property*="longitude"]'
-        );
-        for (let i = 0; i < metaTags.length; i++) {
-          const meta = metaTags[i];
-          const content = meta.getAttribute("content");
-          if (content && content.match(/^-?\d+\.\d+$/)) {
-            return content;
-          }
-        }
+  /**
+   * Province of the listing, from (in order) a province segment in the
+   * listing URL, the page title or description, the postal code and the
+   * province segment of the city URL being scraped
+   */
+  private extractProvinceCode(
+    url: string,
+    postal: string,
+    pageText: RuleMatch[]
+  ): string | null {
+    const text = pageText.map((match) => match.value).join(" | ");
+    return (
+      getProvinceCodeFromUrl(url) ||
+      findProvinceCodeInText(text) ||
+      getProvinceCodeFromPostal(postal) ||
+      getProvinceCodeFromUrl((this.owner || this).listingUrl)
+    );
+  }
 
-        // Try data attributes
-        const elements = document.querySelectorAll(
-          "[data-lng], [data-longitude], [data-lon]"
-        );
-        for (let i = 0; i < elements.length; i++) {
-          const el = elements[i];
-          const lng =
-            el.getAttribute("data-lng") ||
-            el.getAttribute("data-longitude") ||
-            el.getAttribute("data-lon");
-          if (lng && lng.match(/^-?\d+\.\d+$/)) {
-            return lng;
-          }
-        }
+  /**
+   * Coordinates of the listing: the API result's first, then the candidates
+   * of the coordinate rules in rule order, checked against the search's and
+   * the province's bounds by chooseCoordinates()
+   */
+  private extractCoordinates(
+    url: string,
+    provinceCode: string | null,
+    matches: RuleMatch[]
+  ): CoordinateFields {
+    const apiScraper = (this.owner || this).apiScraper;
+    const apiProperty = apiScraper?.getPropertyForUrl(url);
+    const pageCandidates = matches.map((match) => {
+      const [latitude, longitude] = match.value.split(",");
+      return {
+        match,
+        candidate: toCoordinateCandidate(
+          latitude,
+          longitude,
+          match.kind as CoordinateSource
+        ),
+      };
+    });
 
-        return "N/A";
-      });
+    const coordinates = chooseCoordinates(
+      [
+        apiProperty
+          ? toCoordinateCandidate(
+              apiProperty.LATITUDE,
+              apiProperty.LONGITUDE,
+              "api"
+            )
+          : null,
+        ...pageCandidates.map(({ candidate }) => candidate),
+      ],
+      apiScraper?.getSearchBounds() || null,
+      getCoordinateBounds(provinceCode)
+    );
 
-      return longitude || "N/A";
-    } catch (error) {
-      console.log("⚠️ Error extracting longitude:", error);
-      return "N/A";
-    }
+    const chosen =
+      coordinates.COORDINATE_SOURCE === "api"
+        ? { ruleId: "api", value: "" }
+        : pageCandidates.find(
+            ({ candidate }) =>
+              candidate?.source === coordinates.COORDINATE_SOURCE &&
+              candidate.latitude.toString() === coordinates.LATITUDE &&
+              candidate.longitude.toString() === coordinates.LONGITUDE
+          )?.match;
+    (this.owner || this).ruleLog.record("COORDINATES", chosen);
+
+    return coordinates;
   }
 
   private async waitForElementReady(
@@ -868,8 +847,10 @@ export class RealtorCaScraper {
     onPropertyFound: (
       propertyUrl: string,
       index: number,
-      estimatedTotal: number
-    ) => Promise<boolean>
+      estimatedTotal: number,
+      page: number
+    ) => Promise<boolean>,
+    resumeFrom: { startPage?: number; skipUrls?: ReadonlySet<string> } = {}
   ): Promise<void> {
     if (!this.page || !this.browser) {
       throw new Error("Scraper not initialized. Call initialize() first.");
@@ -877,28 +858,8 @@ export class RealtorCaScraper {
 
     console.log("🚀 Initializing streaming property scraper...");
 
-    // Step 1: Discover GeoId for the current city
-    const cityFinder = new CityGeoIdFinder();
-    console.log("🏙️ Discovering GeoId for streaming mode...");
-
-    const cityConfig = await cityFinder.findGeoIdForCity(
-      ScrapingConfig.DEFAULT_LISTING_URL
-    );
-
-    if (!cityConfig) {
-      throw new Error(
-        `Failed to discover GeoId for URL: ${ScrapingConfig.DEFAULT_LISTING_URL}`
-      );
-    }
-
-    console.log(
-      `✅ City configuration ready: ${cityConfig.cityName} (${cityConfig.geoId})`
-    );
-
-    // Step 2: Initialize API scraper for streaming
-    const apiScraper = new RealtorApiScraper();
-    await apiScraper.initialize(this.browser);
-    apiScraper.setCityConfig(cityConfig);
+    // Steps 1-2: Resolve the city's GeoId and set up the API scraper
+    const apiScraper = await this.createApiScraper();
 
     console.log(
       "📡 Starting streaming URL extraction and property processing..."
@@ -906,68 +867,84 @@ export class RealtorCaScraper {
 
     let processedCount = 0;
     let totalEstimated = 0;
+    const skipUrls = resumeFrom.skipUrls || new Set<string>();
 
     // Step 3: Stream URLs page by page and process immediately
     for (
-      let page = ScrapingConfig.START_PAGE;
+      let page = resumeFrom.startPage || ScrapingConfig.START_PAGE;
       page <= maxPages && processedCount < maxProperties;
       page++
     ) {
       console.log(`\n📖 Streaming URLs from page ${page}/${maxPages}...`);
 
+      // Only a failed API page is skipped. Errors from handing properties on
+      // (the worker pool's result handler, e.g. a failed Excel write) end the
+      // stream, as does a replay missing its recording.
+      let pageResponse: any;
       try {
-        // Fetch URLs from current page
-        const pageResponse = await apiScraper.fetchPropertiesFromAPI(page);
-
-        // Extract total pages info on first page
-        if (page === 1) {
-          const totalPages = apiScraper.getTotalPages(pageResponse);
-          const estimatedPropertiesPerPage =
-            apiScraper.extractPropertyUrls(pageResponse).length;
-          totalEstimated = Math.min(
-            totalPages * estimatedPropertiesPerPage,
-            maxProperties
-          );
-          console.log(`📊 Estimated total properties: ${totalEstimated}`);
-        }
+        pageResponse = await apiScraper.fetchPropertiesFromAPI(page);
+      } catch (error) {
+        if (error instanceof HarReplayError) throw error;
+        console.error(`❌ Error fetching page ${page}:`, error);
+        console.log("💡 Continuing with next page...");
+        continue;
+      }
 
-        // Extract URLs from this page
-        const pageUrls = apiScraper.extractPropertyUrls(pageResponse);
-        console.log(`🔗 Found ${pageUrls.length} URLs on page ${page}`);
+      // Extract total pages info on first page
+      if (page === 1) {
+        const totalPages = apiScraper.getTotalPages(pageResponse);
+        const estimatedPropertiesPerPage =
+          apiScraper.extractPropertyUrls(pageResponse).length;
+        totalEstimated = Math.min(
+          totalPages * estimatedPropertiesPerPage,
+          maxProperties
+        );
+        console.log(`📊 Estimated total properties: ${totalEstimated}`);
+      }
 
-        // Process each URL immediately
-        for (const propertyUrl of pageUrls) {
-          if (processedCount >= maxProperties) {
-            console.log(`🎯 Reached target of ${maxProperties} properties`);
-            return;
-          }
+      // Extract URLs from this page
+      const pageUrls = apiScraper.extractPropertyUrls(pageResponse);
+      console.log(`🔗 Found ${pageUrls.length} URLs on page ${page}`);
 
-          // Call the processing callback
-          const shouldContinue = await onPropertyFound(
-            propertyUrl,
-            processedCount,
-            totalEstimated
-          );
+      // Process each URL immediately
+      for (const propertyUrl of pageUrls) {
+        if (processedCount >= maxProperties) {
+          console.log(`🎯 Reached target of ${maxProperties} properties`);
+          return;
+        }
 
-          if (!shouldContinue) {
-            console.log("🛑 Processing stopped by callback");
-            return;
-          }
+        if (shutdown.requested) {
+          console.log("🛑 Shutting down: no new properties are taken");
+          return;
+        }
 
-          processedCount++;
+        // Already handled by the run being resumed
+        if (skipUrls.has(propertyUrl)) {
+          continue;
         }
 
-        // Add delay between API page requests
-        if (page < maxPages && processedCount < maxProperties) {
-          console.log(
-            `⏳ Page delay: ${TimingConfig.PAGINATION_CLICK_DELAY / 1000}s`
-          );
-          await this.page.waitForTimeout(TimingConfig.PAGINATION_CLICK_DELAY);
+        // Call the processing callback
+        const shouldContinue = await onPropertyFound(
+          propertyUrl,
+          processedCount,
+          totalEstimated,
+          page
+        );
+
+        if (!shouldContinue) {
+          console.log("🛑 Processing stopped by callback");
+          return;
         }
-      } catch (error) {
-        console.error(`❌ Error processing page ${page}:`, error);
-        console.log("💡 Continuing with next page...");
-        continue;
+
+        processedCount++;
+      }
+
+      // Add delay between API page requests
+      if (page < maxPages && processedCount < maxProperties) {
+        console.log(
+          `⏳ Page delay: ${TimingConfig.PAGINATION_CLICK_DELAY / 1000}s`
+        );
+        await this.page.waitForTimeout(TimingConfig.PAGINATION_CLICK_DELAY);
       }
     }
 
@@ -977,6 +954,23 @@ export class RealtorCaScraper {
   }
 
   async close(): Promise<void> {
+    // Worker pages share the owner's browser
+    if (this.owner) {
+      await this.page?.close();
+      return;
+    }
+
+    const ruleSummary = this.ruleLog.summary();
+    if (ruleSummary.length > 0) {
+      console.log(
+        `🧩 Extraction rules v${this.ruleLog.version} (rule x properties):`
+      );
+      ruleSummary.forEach((line) => console.log(`   ${line}`));
+    }
+
+    // Closing the contexts first writes their network recordings
+    await this.apiScraper?.close();
+    await this.context?.close();
     if (this.browser) {
       console.log("✅ Browser closed successfully");
       await this.browser.close();
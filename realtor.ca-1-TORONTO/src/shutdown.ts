@@ -0,0 +1,73 @@
+// Longest wait for force-exit hooks before the process exits anyway (ms)
+const FORCE_EXIT_TIMEOUT = 5000;
+
+const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGINT", "SIGTERM"];
+
+/**
+ * Turns the first SIGINT/SIGTERM into a graceful stop and a second one into a
+ * forced exit. Workflows check `requested` to stop taking new URLs, let the
+ * properties in flight finish, then finalize their outputs as usual.
+ */
+export class ShutdownCoordinator {
+  private signal: NodeJS.Signals | null = null;
+  private forceExitHooks = new Set<() => Promise<void>>();
+  private installed = false;
+  private readonly onSignal = (signal: NodeJS.Signals) =>
+    this.handleSignal(signal);
+
+  get requested(): boolean {
+    return this.signal !== null;
+  }
+
+  // Exit code of an interrupted run (128 + signal number), 0 when not stopped
+  get exitCode(): number {
+    if (!this.signal) return 0;
+    return this.signal === "SIGINT" ? 130 : 143;
+  }
+
+  install(): void {
+    if (this.installed) return;
+    SHUTDOWN_SIGNALS.forEach((signal) => process.on(signal, this.onSignal));
+    this.installed = true;
+  }
+
+  uninstall(): void {
+    SHUTDOWN_SIGNALS.forEach((signal) => process.off(signal, this.onSignal));
+    this.installed = false;
+  }
+
+  /**
+   * Run a hook before a forced exit (e.g. writing buffered properties).
+   * Returns a function that removes it again.
+   */
+  onForceExit(hook: () => Promise<void>): () => void {
+    this.forceExitHooks.add(hook);
+    return () => {
+      this.forceExitHooks.delete(hook);
+    };
+  }
+
+  private handleSignal(signal: NodeJS.Signals): void {
+    if (!this.signal) {
+      this.signal = signal;
+      console.log(
+        `\n🛑 ${signal} received: finishing the properties in flight, then saving outputs (send it again to force exit)`
+      );
+      return;
+    }
+
+    console.log(`\n💥 ${signal} received again: forcing exit`);
+    const hooks = [...this.forceExitHooks].map((hook) =>
+      hook().catch((error) => console.error("❌ Error before exit:", error))
+    );
+    const timeout = new Promise((resolve) =>
+      setTimeout(resolve, FORCE_EXIT_TIMEOUT)
+    );
+    Promise.race([Promise.all(hooks), timeout]).finally(() =>
+      process.exit(this.exitCode)
+    );
+  }
+}
+
+// Shared by the CLI, which installs it for scrape runs, and the workflows
+export const shutdown = new ShutdownCoordinator();
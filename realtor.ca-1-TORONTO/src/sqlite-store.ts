@@ -0,0 +1,310 @@
+import * as fs from "fs";
+import Database from "better-sqlite3";
+import {
+  ExtendedPropertyData,
+  PropertyDetails,
+  PROPERTY_DETAIL_FIELDS,
+} from "./scraper";
+import { TransactionType } from "./config";
+import {
+  getAddressKey,
+  getIdentityKeys,
+  normalizeIdentity,
+} from "./listing-identity";
+import {
+  MasterStore,
+  getPostalSheetName,
+  loadPropertiesFromExcel,
+  saveToExcel,
+} from "./utils";
+
+interface ListingRow {
+  id: number;
+  date: string;
+  address: string;
+  city: string;
+  state: string;
+  postal: string;
+  agent: string;
+  broker: string;
+  price: string;
+  latitude: string;
+  longitude: string;
+  lease_term: string | null;
+  listing_id: string | null;
+  mls_number: string | null;
+  coordinate_source: string | null;
+  coordinate_confidence: string | null;
+  details: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS listings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    listing_id TEXT,
+    mls_number TEXT,
+    address_key TEXT NOT NULL,
+    postal_prefix TEXT NOT NULL,
+    date TEXT NOT NULL,
+    address TEXT NOT NULL,
+    city TEXT NOT NULL,
+    state TEXT NOT NULL,
+    postal TEXT NOT NULL,
+    agent TEXT NOT NULL,
+    broker TEXT NOT NULL,
+    price TEXT NOT NULL,
+    latitude TEXT NOT NULL,
+    longitude TEXT NOT NULL,
+    lease_term TEXT,
+    coordinate_source TEXT,
+    coordinate_confidence TEXT,
+    details TEXT,
+    updated_at TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS listings_listing_id
+    ON listings (listing_id) WHERE listing_id IS NOT NULL;
+  CREATE INDEX IF NOT EXISTS listings_mls_number ON listings (mls_number);
+  CREATE INDEX IF NOT EXISTS listings_address_key ON listings (address_key);
+`;
+
+// Columns added after the first release, added to older databases on open
+const ADDED_COLUMNS = ["details", "coordinate_source", "coordinate_confidence"];
+
+// Listing details are kept as one JSON object, null when there are none
+function toDetailsJson(property: ExtendedPropertyData): string | null {
+  const details: PropertyDetails = {};
+  PROPERTY_DETAIL_FIELDS.forEach((field) => {
+    if (property[field] !== undefined) details[field] = property[field];
+  });
+  return Object.keys(details).length > 0 ? JSON.stringify(details) : null;
+}
+
+function toRowParams(property: ExtendedPropertyData, postalPrefix: string) {
+  return {
+    listing_id: normalizeIdentity(property.LISTING_ID) || null,
+    mls_number: normalizeIdentity(property.MLS_NUMBER) || null,
+    address_key: getAddressKey(property),
+    postal_prefix: postalPrefix,
+    date: property.DATE,
+    address: property.ADDRESS,
+    city: property.CITY,
+    state: property.STATE,
+    postal: property.POSTAL,
+    agent: property.AGENT,
+    broker: property.BROKER,
+    price: property.PRICE,
+    latitude: property.LATITUDE,
+    longitude: property.LONGITUDE,
+    lease_term: property.LEASE_TERM ?? null,
+    coordinate_source: property.COORDINATE_SOURCE ?? null,
+    coordinate_confidence: property.COORDINATE_CONFIDENCE ?? null,
+    details: toDetailsJson(property),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function toPropertyData(row: ListingRow): ExtendedPropertyData {
+  return {
+    DATE: row.date,
+    ADDRESS: row.address,
+    CITY: row.city,
+    STATE: row.state,
+    POSTAL: row.postal,
+    AGENT: row.agent,
+    BROKER: row.broker,
+    PRICE: row.price,
+    LATITUDE: row.latitude,
+    LONGITUDE: row.longitude,
+    ...(row.lease_term !== null && { LEASE_TERM: row.lease_term }),
+    LISTING_ID: row.listing_id || "N/A",
+    MLS_NUMBER: row.mls_number || "N/A",
+    ...(row.coordinate_source !== null && {
+      COORDINATE_SOURCE: row.coordinate_source,
+    }),
+    ...(row.coordinate_confidence !== null && {
+      COORDINATE_CONFIDENCE: row.coordinate_confidence,
+    }),
+    ...(row.details && (JSON.parse(row.details) as PropertyDetails)),
+  };
+}
+
+/**
+ * Master dataset kept in a local SQLite database next to the master workbook
+ * (master-listings.xlsx -> master-listings.sqlite). Each listing is an
+ * indexed upsert instead of a full workbook rewrite; the master workbook is
+ * exported from the database when the run is finalized.
+ */
+export class SqliteMasterStore implements MasterStore {
+  private db: Database.Database;
+
+  private constructor(
+    readonly filename: string,
+    readonly excelFilename: string,
+    private transactionType: TransactionType
+  ) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+
+    // Databases created before these columns existed
+    const columns = (
+      this.db.pragma("table_info(listings)") as { name: string }[]
+    ).map((column) => column.name);
+    ADDED_COLUMNS.filter((column) => !columns.includes(column)).forEach(
+      (column) =>
+        this.db.exec(`ALTER TABLE listings ADD COLUMN ${column} TEXT`)
+    );
+  }
+
+  static filenameFor(excelFilename: string): string {
+    return excelFilename.replace(/\.xlsx$/i, "") + ".sqlite";
+  }
+
+  /**
+   * Open the database of a master workbook. A new database starts from the
+   * rows of the existing workbook, when there is one.
+   */
+  static async open(
+    excelFilename: string,
+    transactionType: TransactionType
+  ): Promise<SqliteMasterStore> {
+    const filename = SqliteMasterStore.filenameFor(excelFilename);
+    const isNew = !fs.existsSync(filename);
+    const store = new SqliteMasterStore(
+      filename,
+      excelFilename,
+      transactionType
+    );
+
+    if (isNew && fs.existsSync(excelFilename)) {
+      try {
+        const properties = await loadPropertiesFromExcel(excelFilename);
+        store.db.transaction(() => {
+          properties.forEach((property) =>
+            store.upsertRow(property, getPostalSheetName(property.POSTAL))
+          );
+        })();
+        console.log(
+          `🗄️  Imported ${store.count()} listings from ${excelFilename}`
+        );
+      } catch (error) {
+        console.error(
+          `❌ Could not import master file ${excelFilename} into ${filename}:`,
+          error
+        );
+      }
+    } else if (isNew) {
+      console.log(`🗄️  Creating new master database: ${filename}`);
+    } else {
+      console.log(
+        `🗄️  Opened master database with ${store.count()} listings: ${filename}`
+      );
+    }
+
+    return store;
+  }
+
+  count(): number {
+    const row = this.db.prepare("SELECT COUNT(*) AS total FROM listings").get();
+    return (row as { total: number }).total;
+  }
+
+  async upsert(
+    property: ExtendedPropertyData,
+    postalPrefix: string
+  ): Promise<void> {
+    this.db.transaction(() => this.upsertRow(property, postalPrefix))();
+  }
+
+  // Every upsert is committed on its own, nothing is left to write
+  async save(): Promise<void> {}
+
+  async finalize(): Promise<void> {
+    const rows = this.db
+      .prepare("SELECT * FROM listings ORDER BY postal_prefix, id")
+      .all() as ListingRow[];
+
+    console.log(
+      `🗄️  Exporting ${rows.length} listings from ${this.filename} to ${this.excelFilename}`
+    );
+    await saveToExcel(
+      rows.map(toPropertyData),
+      this.excelFilename,
+      this.transactionType
+    );
+
+    this.db.close();
+    console.log(`📚 Master database updated: ${this.filename}`);
+  }
+
+  // Same matching as matchListings(): listing ID, then MLS number, then
+  // address + postal code when one of the two records has no identity
+  private findRowId(property: ExtendedPropertyData): number | undefined {
+    const listingId = normalizeIdentity(property.LISTING_ID);
+    const mlsNumber = normalizeIdentity(property.MLS_NUMBER);
+
+    if (listingId) {
+      const row = this.db
+        .prepare("SELECT id FROM listings WHERE listing_id = ?")
+        .get(listingId) as { id: number } | undefined;
+      if (row) return row.id;
+    }
+
+    if (mlsNumber) {
+      const row = this.db
+        .prepare("SELECT id FROM listings WHERE mls_number = ?")
+        .get(mlsNumber) as { id: number } | undefined;
+      if (row) return row.id;
+    }
+
+    const hasIdentity = getIdentityKeys(property).length > 0;
+    const row = this.db
+      .prepare(
+        `SELECT id FROM listings WHERE address_key = ?
+         ${hasIdentity ? "AND listing_id IS NULL AND mls_number IS NULL" : ""}
+         ORDER BY id DESC LIMIT 1`
+      )
+      .get(getAddressKey(property)) as { id: number } | undefined;
+    return row?.id;
+  }
+
+  private upsertRow(
+    property: ExtendedPropertyData,
+    postalPrefix: string
+  ): void {
+    const params = toRowParams(property, postalPrefix);
+    const id = this.findRowId(property);
+
+    if (id === undefined) {
+      this.db
+        .prepare(
+          `INSERT INTO listings (${Object.keys(params).join(", ")})
+           VALUES (${Object.keys(params)
+             .map((column) => `@${column}`)
+             .join(", ")})`
+        )
+        .run(params);
+      return;
+    }
+
+    // A row from before listing IDs were tracked keeps the ID once seen, and
+    // details the new scrape did not find keep their earlier values
+    this.db
+      .prepare(
+        `UPDATE listings SET
+           listing_id = COALESCE(@listing_id, listing_id),
+           mls_number = COALESCE(@mls_number, mls_number),
+           details = CASE WHEN details IS NULL THEN @details
+             ELSE json_patch(details, COALESCE(@details, '{}')) END,
+           ${Object.keys(params)
+             .filter(
+               (column) =>
+                 !["listing_id", "mls_number", "details"].includes(column)
+             )
+             .map((column) => `${column} = @${column}`)
+             .join(", ")}
+         WHERE id = @id`
+      )
+      .run({ ...params, id });
+  }
+}
@@ -1,7 +1,36 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as ExcelJS from "exceljs";
-import { PropertyData } from "./scraper";
+import {
+  PropertyData,
+  PropertyDetails,
+  ExtendedPropertyData,
+} from "./scraper";
+import {
+  ScrapingConfig,
+  TransactionType,
+  ColumnProfile,
+  COLUMN_PROFILES,
+} from "./config";
+import {
+  ListingIdentity,
+  ListingIndex,
+  getAddressKey,
+  getPropertyKey,
+  matchListings,
+} from "./listing-identity";
+import { ListingHistory } from "./listing-history";
+import { SqliteMasterStore } from "./sqlite-store";
+import { shutdown } from "./shutdown";
+import { BackupManager } from "./backups";
+import {
+  NormalizedProperty,
+  compareScrapeDates,
+  formatCoordinate,
+  formatPrice,
+  formatScrapeDate,
+  normalizeProperty,
+} from "./normalize";
 
 // Memory-efficient configuration
 const MEMORY_CONFIG = {
@@ -18,29 +47,374 @@ const EXCEL_LIMITS = {
   MAX_ROWS_PER_POSTAL_SHEET: 50000, // Limit per postal code sheet
 };
 
+// Column headers of listing workbooks and CSV files. Rental files keep the
+// sale layout with the monthly rent in the PRICE position and add the lease
+// term as an eleventh column, so the same row readers work for both. The
+// listing identity and coordinate quality columns follow, then the extended
+// listing details.
+const LISTING_COLUMNS = [
+  "DATE",
+  "ADDRESS",
+  "CITY",
+  "STATE",
+  "POSTAL",
+  "AGENT",
+  "BROKER",
+  "PRICE",
+  "LATITUDE",
+  "LONGITUDE",
+];
+
+const RENTAL_COLUMNS = [
+  ...LISTING_COLUMNS.slice(0, 7),
+  "MONTHLY RENT",
+  "LATITUDE",
+  "LONGITUDE",
+  "LEASE TERM",
+];
+
+const IDENTITY_HEADERS = ["LISTING ID", "MLS NUMBER"];
+
+// Where the coordinates came from and how far they can be trusted
+const COORDINATE_QUALITY_HEADERS = [
+  "COORDINATE SOURCE",
+  "COORDINATE CONFIDENCE",
+];
+
+const DETAIL_HEADERS = [
+  "BEDROOMS",
+  "BATHROOMS",
+  "SQUARE FEET",
+  "LAND SIZE",
+  "PROPERTY TYPE",
+  "BUILDING TYPE",
+  "STOREYS",
+  "PARKING",
+  "ANNUAL TAXES",
+  "MAINTENANCE FEES",
+  "YEAR BUILT",
+  "DESCRIPTION",
+  "PHOTO URLS",
+];
+
+// Columns each profile adds to the ones of the profile before it
+const PROFILE_HEADERS: { [profile in ColumnProfile]: string[] } = {
+  basic: [],
+  standard: [...IDENTITY_HEADERS, ...COORDINATE_QUALITY_HEADERS],
+  extended: DETAIL_HEADERS,
+};
+
+type OptionalField =
+  | "LEASE_TERM"
+  | "LISTING_ID"
+  | "MLS_NUMBER"
+  | "COORDINATE_SOURCE"
+  | "COORDINATE_CONFIDENCE"
+  | keyof PropertyDetails;
+
+// Optional PropertyData fields, stored under these headers
+const OPTIONAL_COLUMN_FIELDS: { [header: string]: OptionalField } = {
+  "LEASE TERM": "LEASE_TERM",
+  "LISTING ID": "LISTING_ID",
+  "MLS NUMBER": "MLS_NUMBER",
+  "COORDINATE SOURCE": "COORDINATE_SOURCE",
+  "COORDINATE CONFIDENCE": "COORDINATE_CONFIDENCE",
+  ...Object.fromEntries(
+    DETAIL_HEADERS.map((header) => [
+      header,
+      header.replace(/ /g, "_") as keyof PropertyDetails,
+    ])
+  ),
+};
+
+// Field written under every header, the monthly rent being the PRICE field
+const HEADER_FIELDS: { [header: string]: keyof ExtendedPropertyData } = {
+  ...Object.fromEntries(
+    LISTING_COLUMNS.map((header) => [header, header as keyof PropertyData])
+  ),
+  "MONTHLY RENT": "PRICE",
+  ...OPTIONAL_COLUMN_FIELDS,
+};
+
 // Global variables to track dynamic file updates
 let dailyWorkbook: ExcelJS.Workbook | null = null;
-let masterWorkbook: ExcelJS.Workbook | null = null;
+let masterStore: MasterStore | null = null;
 let dailyFilename: string = "";
 let masterFilename: string = "master-listings.xlsx"; // Will auto-detect the latest clean file
+let listingType: TransactionType = "sale"; // Layout of the open workbooks
+let listingHistory: ListingHistory | null = null; // History of the master file
+
+// Properties added since the workbooks were last written, with the callbacks
+// to run once they are on disk
+let pendingWrites: (() => void)[] = [];
+let pendingWriteCount: number = 0;
+let writeTimer: NodeJS.Timeout | null = null;
+let removeForceExitFlush: (() => void) | null = null;
+// Changes to the open workbooks and their writes to disk, run one at a time
+// in order, so a timed flush never writes a sheet a property is half added to
+let workbookQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWorkbookTask<T>(task: () => Promise<T>): Promise<T> {
+  const result = workbookQueue.then(task);
+  workbookQueue = result.catch(() => undefined);
+  return result;
+}
 
-// Function to find the latest clean master file or use default
-function getMasterFilename(): string {
-  const possibleFiles = [
-    "master-listings.xlsx",
-    "master-listings-clean-2025-09-15T16-51-46-382Z.xlsx",
-    "master-listings1111.xlsx",
-  ];
+// Function to get the column headers for sale or rental listing files
+export function getListingHeaders(
+  transactionType: TransactionType = "sale",
+  profile: ColumnProfile = ScrapingConfig.COLUMN_PROFILE
+): string[] {
+  const headers = transactionType === "rent" ? RENTAL_COLUMNS : LISTING_COLUMNS;
+  return COLUMN_PROFILES.slice(0, COLUMN_PROFILES.indexOf(profile) + 1).reduce(
+    (all, included) => [...all, ...PROFILE_HEADERS[included]],
+    headers
+  );
+}
 
-  // Check for existing clean files first
-  for (const filename of possibleFiles) {
-    if (fs.existsSync(filename)) {
-      console.log(`📁 Using master file: ${filename}`);
-      return filename;
+// Function to tell which column profile a worksheet was written with
+function getColumnProfileOfWorksheet(
+  worksheet: ExcelJS.Worksheet
+): ColumnProfile {
+  const headers = getWorksheetHeaders(worksheet);
+  return (
+    [...COLUMN_PROFILES]
+      .reverse()
+      .find((profile) =>
+        PROFILE_HEADERS[profile].every((header) => headers.includes(header))
+      ) || "basic"
+  );
+}
+
+// The profile with the most columns of the two
+function getWiderColumnProfile(
+  a: ColumnProfile,
+  b: ColumnProfile
+): ColumnProfile {
+  return COLUMN_PROFILES.indexOf(a) >= COLUMN_PROFILES.indexOf(b) ? a : b;
+}
+
+// Header row of a worksheet, in column order
+function getWorksheetHeaders(worksheet: ExcelJS.Worksheet): string[] {
+  const headers: string[] = [];
+  worksheet.getRow(1).eachCell((cell, columnNumber) => {
+    headers[columnNumber - 1] = String(cell.value);
+  });
+  return Array.from(headers, (header) => header || "");
+}
+
+// Function to keep only the fields of a column profile, for JSON output
+function selectProfileFields(
+  property: ExtendedPropertyData,
+  profile: ColumnProfile = ScrapingConfig.COLUMN_PROFILE
+): ExtendedPropertyData {
+  const selected: ExtendedPropertyData = { ...property };
+  const kept = getListingHeaders(
+    property.LEASE_TERM !== undefined ? "rent" : "sale",
+    profile
+  ).map((header) => HEADER_FIELDS[header]);
+
+  Object.values(OPTIONAL_COLUMN_FIELDS)
+    .filter((field) => !kept.includes(field))
+    .forEach((field) => delete selected[field]);
+  return selected;
+}
+
+// Function to get the file name prefix of daily/JSON/CSV scrape output
+export function getScrapeFilePrefix(
+  transactionType: TransactionType = "sale"
+): string {
+  return transactionType === "rent" ? "rentals-scrape" : "listings-scrape";
+}
+
+// Function to tell rental records apart from sale records
+function getListingTypeOfData(data: PropertyData[]): TransactionType {
+  return data.some((property) => property.LEASE_TERM !== undefined)
+    ? "rent"
+    : "sale";
+}
+
+// Function to tell a rental workbook apart from a sale workbook by its header
+function getListingTypeOfWorkbook(workbook: ExcelJS.Workbook): TransactionType {
+  const firstSheet = workbook.worksheets[0];
+  return firstSheet ? getListingTypeOfWorksheet(firstSheet) : "sale";
+}
+
+function getListingTypeOfWorksheet(
+  worksheet: ExcelJS.Worksheet
+): TransactionType {
+  const leaseTermColumn = RENTAL_COLUMNS.indexOf("LEASE TERM") + 1;
+  return worksheet.getRow(1).getCell(leaseTermColumn).value === "LEASE TERM"
+    ? "rent"
+    : "sale";
+}
+
+// Cell values for one property in the order of the given headers
+function getPropertyRowValues(
+  property: ExtendedPropertyData,
+  headers: string[]
+): string[] {
+  return headers.map((header) => {
+    const field = HEADER_FIELDS[header];
+    return (field && property[field]) || "N/A";
+  });
+}
+
+// Excel cell values for one property: the date, price and coordinates become
+// real date and number cells when they parse, so sorting and formulas work
+function getPropertyCellValues(
+  property: ExtendedPropertyData,
+  headers: string[]
+): ExcelJS.CellValue[] {
+  const values: ExcelJS.CellValue[] = getPropertyRowValues(property, headers);
+  const normalized = normalizeProperty(property);
+  const typedValues: { [field: string]: Date | number | null } = {
+    DATE: normalized.date ? new Date(normalized.date) : null,
+    PRICE: normalized.priceCents !== null ? normalized.priceCents / 100 : null,
+    LATITUDE: normalized.latitude,
+    LONGITUDE: normalized.longitude,
+  };
+
+  headers.forEach((header, index) => {
+    const typed = typedValues[HEADER_FIELDS[header]];
+    if (typed !== null && typed !== undefined) values[index] = typed;
+  });
+  return values;
+}
+
+// Function to read one data row back into PropertyData, turning the typed
+// date, price and coordinate cells of getPropertyCellValues() into the raw
+// string forms
+export function readPropertyRow(row: ExcelJS.Row): ExtendedPropertyData {
+  const text = (column: number) =>
+    row.getCell(column).value?.toString().trim() || "";
+  const date = row.getCell(1).value;
+  const price = row.getCell(8).value;
+  const coordinate = (column: number) => {
+    const value = row.getCell(column).value;
+    return typeof value === "number" ? formatCoordinate(value) : text(column);
+  };
+
+  return {
+    DATE: date instanceof Date ? formatScrapeDate(date) : text(1),
+    ADDRESS: text(2),
+    CITY: text(3),
+    STATE: text(4),
+    POSTAL: text(5),
+    AGENT: text(6),
+    BROKER: text(7),
+    PRICE: typeof price === "number" ? formatPrice(price) : text(8),
+    LATITUDE: coordinate(9),
+    LONGITUDE: coordinate(10),
+    ...readOptionalColumns(row),
+  };
+}
+
+// Addresses of the placeholder rows older runs wrote for failed scrapes
+const PLACEHOLDER_ADDRESS_PATTERN =
+  /^(ERROR(-\d+)?|(SCRAPING|STREAMING)_ERROR_\d+)$/i;
+
+// Function to detect synthetic "Error" rows, which never belong in a workbook
+export function isPlaceholderProperty(property: PropertyData): boolean {
+  return (
+    PLACEHOLDER_ADDRESS_PATTERN.test(property.ADDRESS.trim()) ||
+    property.POSTAL.trim().toUpperCase() === "ERROR"
+  );
+}
+
+// Lease term, listing identity and listing details stored in a row, as an
+// object to spread into PropertyData. Columns are found by header name, so
+// workbooks written with any column profile read the same way.
+function readOptionalColumns(
+  row: ExcelJS.Row
+): Pick<ExtendedPropertyData, OptionalField> {
+  const fields: Pick<ExtendedPropertyData, OptionalField> = {};
+
+  row.worksheet.getRow(1).eachCell((headerCell, columnNumber) => {
+    const field = OPTIONAL_COLUMN_FIELDS[String(headerCell.value)];
+    const value = row.getCell(columnNumber).value;
+    if (field && value) {
+      fields[field] = value.toString().trim();
     }
+  });
+  return fields;
+}
+
+// Add header cells missing from worksheets written with an older layout or
+// column profile. Missing headers are appended after the existing ones, and
+// rows are written by header name, so columns never shift.
+function upgradeWorksheetHeaders(
+  worksheet: ExcelJS.Worksheet,
+  headers: string[]
+): void {
+  const headerRow = worksheet.getRow(1);
+  const lastExisting = headerRow.getCell(headerRow.cellCount);
+  const existing = getWorksheetHeaders(worksheet);
+
+  headers
+    .filter((header) => !existing.includes(header))
+    .forEach((header, index) => {
+      const cell = headerRow.getCell(existing.length + index + 1);
+      cell.value = header;
+      cell.style = lastExisting.style;
+    });
+}
+
+// Spreadsheet column letter of the last header, for auto-filter ranges
+function getLastColumnLetter(headers: string[]): string {
+  let letters = "";
+  for (let column = headers.length; column > 0; ) {
+    const remainder = (column - 1) % 26;
+    letters = String.fromCharCode("A".charCodeAt(0) + remainder) + letters;
+    column = Math.floor((column - 1) / 26);
+  }
+  return letters;
+}
+
+// Column widths of new worksheets, by header
+const COLUMN_WIDTHS: { [header: string]: number } = {
+  DATE: 12,
+  ADDRESS: 35,
+  CITY: 30,
+  STATE: 10,
+  POSTAL: 12,
+  AGENT: 20,
+  BROKER: 40,
+  PRICE: 15,
+  "MONTHLY RENT": 15,
+  LATITUDE: 12,
+  LONGITUDE: 12,
+  "LEASE TERM": 20,
+  "LISTING ID": 14,
+  "MLS NUMBER": 14,
+  "COORDINATE SOURCE": 12,
+  "COORDINATE CONFIDENCE": 12,
+  DESCRIPTION: 60,
+  "PHOTO URLS": 60,
+};
+
+// Master workbook in a city's output directory
+export function getMasterFilename(
+  outputDir: string,
+  transactionType: TransactionType = "sale"
+): string {
+  // Rentals never share a master workbook with sale listings
+  const filename = path.join(
+    outputDir,
+    transactionType === "rent" ? "master-rentals.xlsx" : "master-listings.xlsx"
+  );
+  if (fs.existsSync(filename)) {
+    console.log(`📁 Using master file: ${filename}`);
   }
+  return filename;
+}
 
-  return "master-listings.xlsx"; // Default fallback
+// Ensure a city's output directory exists
+export function ensureOutputDirectory(outputDir: string): void {
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+    console.log(`📁 Created output directory: ${outputDir}`);
+  }
 }
 
 // Memory management variables
@@ -58,13 +432,14 @@ function ensureTempDirectory(): void {
 
 // Memory-efficient function to add property data with temp file management
 export async function addPropertyToMemoryEfficientSystem(
-  property: PropertyData
+  property: PropertyData,
+  onWritten?: () => void
 ): Promise<void> {
   // Add to current temp data batch
   currentTempData.push(property);
 
   // Use the safer Excel addition function
-  await addPropertyToExcelSafely(property);
+  await addPropertyToExcelSafely(property, onWritten);
 
   // Check if we need to flush to temp file
   if (currentTempData.length >= MEMORY_CONFIG.MAX_PROPERTIES_IN_MEMORY) {
@@ -203,61 +578,71 @@ export function getMemoryStats(): {
   };
 }
 // Enhanced function to remove duplicates with comprehensive checking and logging
-function removeDuplicates(data: PropertyData[]): PropertyData[] {
+function removeDuplicates<T extends PropertyData>(data: T[]): T[] {
   console.log(
     `🔍 Starting duplicate removal process for ${data.length} properties...`
   );
 
-  const seen = new Map<string, PropertyData>();
-  const duplicates: PropertyData[] = [];
-  const unique: PropertyData[] = [];
+  const seen = new ListingIndex<T>();
+  const detailedKeys = new Set<string>();
+  const duplicates: T[] = [];
+  const unique: T[] = [];
 
   data.forEach((property, index) => {
-    // Create a composite key for duplicate detection
-    const addressKey = property.ADDRESS.trim().toUpperCase();
-    const postalKey = property.POSTAL.trim().toUpperCase();
-    const primaryKey = `${addressKey}-${postalKey}`;
-
-    if (seen.has(primaryKey)) {
-      const existingProperty = seen.get(primaryKey)!;
-
-      // Compare additional details to determine if it's truly a duplicate
-      const isPriceMatch =
-        existingProperty.PRICE.trim() === property.PRICE.trim();
-      const isAgentMatch =
-        existingProperty.AGENT.trim().toUpperCase() ===
-        property.AGENT.trim().toUpperCase();
-
-      if (isPriceMatch && isAgentMatch) {
-        console.log(
-          `🚫 Exact duplicate found at index ${index}: ${property.ADDRESS} (${property.POSTAL})`
-        );
-        duplicates.push(property);
+    const match = seen.find(property);
+
+    if (!match) {
+      seen.set(property, property);
+      unique.push(property);
+      return;
+    }
+
+    // A shared listing ID or MLS number is always the same listing
+    if (match.matchedBy === "identity") {
+      console.log(
+        `🚫 Duplicate listing found at index ${index}: ${getPropertyKey(
+          property
+        )} (${property.ADDRESS})`
+      );
+      duplicates.push(property);
+      return;
+    }
+
+    // Address fallback: compare additional details to determine if it's
+    // truly a duplicate
+    const existingProperty = match.value;
+    const isPriceMatch =
+      existingProperty.PRICE.trim() === property.PRICE.trim();
+    const isAgentMatch =
+      existingProperty.AGENT.trim().toUpperCase() ===
+      property.AGENT.trim().toUpperCase();
+
+    if (isPriceMatch && isAgentMatch) {
+      console.log(
+        `🚫 Exact duplicate found at index ${index}: ${property.ADDRESS} (${property.POSTAL})`
+      );
+      duplicates.push(property);
+    } else {
+      console.log(
+        `⚠️  Same address but different details at index ${index}: ${property.ADDRESS}`
+      );
+      console.log(
+        `   Original: Price=${existingProperty.PRICE}, Agent=${existingProperty.AGENT}`
+      );
+      console.log(`   New: Price=${property.PRICE}, Agent=${property.AGENT}`);
+      console.log(`✅ Keeping both as separate listings`);
+
+      // Remember this variant so a repeat of it is still caught
+      const detailedKey = `${getAddressKey(property)}-${
+        property.PRICE
+      }-${property.AGENT.toUpperCase()}`;
+      if (!detailedKeys.has(detailedKey)) {
+        detailedKeys.add(detailedKey);
+        unique.push(property);
       } else {
-        console.log(
-          `⚠️  Same address but different details at index ${index}: ${property.ADDRESS}`
-        );
-        console.log(
-          `   Original: Price=${existingProperty.PRICE}, Agent=${existingProperty.AGENT}`
-        );
-        console.log(`   New: Price=${property.PRICE}, Agent=${property.AGENT}`);
-        console.log(`✅ Keeping both as separate listings`);
-
-        // Update the key to include more details for truly different listings
-        const detailedKey = `${primaryKey}-${
-          property.PRICE
-        }-${property.AGENT.toUpperCase()}`;
-        if (!seen.has(detailedKey)) {
-          seen.set(detailedKey, property);
-          unique.push(property);
-        } else {
-          console.log(`🚫 Exact match with detailed key - removing duplicate`);
-          duplicates.push(property);
-        }
+        console.log(`🚫 Exact match with detailed key - removing duplicate`);
+        duplicates.push(property);
       }
-    } else {
-      seen.set(primaryKey, property);
-      unique.push(property);
     }
   });
 
@@ -277,32 +662,24 @@ function removeDuplicates(data: PropertyData[]): PropertyData[] {
 }
 
 // Function to save data in the exact CSV format you want
-export function saveToCSV(data: PropertyData[], filename: string): void {
+export function saveToCSV(
+  data: ExtendedPropertyData[],
+  filename: string,
+  transactionType: TransactionType = getListingTypeOfData(data)
+): void {
   // Remove duplicates first
   const uniqueData = removeDuplicates(data);
   const duplicatesRemoved = data.length - uniqueData.length;
 
-  const headers = [
-    "DATE",
-    "ADDRESS",
-    "CITY",
-    "STATE",
-    "POSTAL",
-    "AGENT",
-    "BROKER",
-    "PRICE",
-    "LATITUDE",
-    "LONGITUDE",
-  ];
+  const headers = getListingHeaders(transactionType);
   const csvContent = [
     headers.join(","),
     ...uniqueData.map((row) =>
-      headers
-        .map((header) => {
-          const value = row[header as keyof PropertyData];
-          // Wrap in quotes if contains comma
-          return typeof value === "string" && value.includes(",")
-            ? `"${value}"`
+      getPropertyRowValues(row, headers)
+        .map((value) => {
+          // Quote values with commas, quotes or line breaks (descriptions)
+          return /[",\r\n]/.test(value)
+            ? `"${value.replace(/"/g, '""')}"`
             : value;
         })
         .join(",")
@@ -316,23 +693,56 @@ export function saveToCSV(data: PropertyData[], filename: string): void {
   }
 }
 
+// One record of a JSON export: the fields of the column profile, plus the
+// typed fields next to the raw strings when JSON_INCLUDE_NORMALIZED is on
+export interface JsonPropertyRecord extends ExtendedPropertyData {
+  NORMALIZED?: NormalizedProperty;
+}
+
 // Function to save data as JSON
-export function saveToJSON(data: PropertyData[], filename: string): void {
+export function saveToJSON(
+  data: ExtendedPropertyData[],
+  filename: string,
+  includeNormalized: boolean = ScrapingConfig.JSON_INCLUDE_NORMALIZED
+): void {
   // Remove duplicates first
   const uniqueData = removeDuplicates(data);
   const duplicatesRemoved = data.length - uniqueData.length;
 
-  fs.writeFileSync(filename, JSON.stringify(uniqueData, null, 2));
+  const records: JsonPropertyRecord[] = uniqueData.map((property) =>
+    includeNormalized
+      ? {
+          ...selectProfileFields(property),
+          NORMALIZED: normalizeProperty(property),
+        }
+      : selectProfileFields(property)
+  );
+
+  fs.writeFileSync(filename, JSON.stringify(records, null, 2));
   console.log(`💾 JSON data saved to ${filename}`);
   if (duplicatesRemoved > 0) {
     console.log(`🔍 Removed ${duplicatesRemoved} duplicate entries from JSON`);
   }
 }
 
+// Sheet of listings without a usable postal code prefix
+export const UNKNOWN_POSTAL_SHEET = "UNKNOWN";
+
+/**
+ * Worksheet a listing goes to: the first two characters of its postal code
+ * ("M9N3R9" -> "M9"). Prefixes that are not two letters or digits ("N/A"
+ * gives "N/", which Excel refuses as a sheet name) share UNKNOWN_POSTAL_SHEET.
+ */
+export function getPostalSheetName(postal: string): string {
+  const prefix = (postal || "").substring(0, 2).toUpperCase();
+  return /^[A-Z0-9]{2}$/.test(prefix) ? prefix : UNKNOWN_POSTAL_SHEET;
+}
+
 // Function to save data as Excel with sheets organized by postal code prefix
 export async function saveToExcel(
-  data: PropertyData[],
-  filename: string
+  data: ExtendedPropertyData[],
+  filename: string,
+  transactionType: TransactionType = getListingTypeOfData(data)
 ): Promise<void> {
   try {
     const workbook = new ExcelJS.Workbook();
@@ -348,46 +758,31 @@ export async function saveToExcel(
     }
 
     // Group data by postal code prefix (first 2-3 characters)
-    const groupedData: { [key: string]: PropertyData[] } = {};
+    const groupedData: { [key: string]: ExtendedPropertyData[] } = {};
 
     uniqueData.forEach((property) => {
-      // Extract the first 2 characters of postal code (e.g., "M9N3R9" -> "M9")
-      const postalPrefix = property.POSTAL.substring(0, 2).toUpperCase();
+      const postalPrefix = getPostalSheetName(property.POSTAL);
 
       if (!groupedData[postalPrefix]) {
         groupedData[postalPrefix] = [];
       }
 
       // Convert all text fields to uppercase as requested
-      const uppercaseProperty: PropertyData = {
-        DATE: property.DATE,
+      const uppercaseProperty: ExtendedPropertyData = {
+        ...property,
         ADDRESS: property.ADDRESS.toUpperCase(),
         CITY: property.CITY.toUpperCase(),
         STATE: property.STATE.toUpperCase(),
         POSTAL: property.POSTAL.toUpperCase(),
         AGENT: property.AGENT.toUpperCase(),
         BROKER: property.BROKER.toUpperCase(),
-        PRICE: property.PRICE,
-        LATITUDE: property.LATITUDE,
-        LONGITUDE: property.LONGITUDE,
       };
 
       groupedData[postalPrefix].push(uppercaseProperty);
     });
 
     // Create a worksheet for each postal code prefix
-    const headers = [
-      "DATE",
-      "ADDRESS",
-      "CITY",
-      "STATE",
-      "POSTAL",
-      "AGENT",
-      "BROKER",
-      "PRICE",
-      "LATITUDE",
-      "LONGITUDE",
-    ];
+    const headers = getListingHeaders(transactionType);
 
     // Sort postal prefixes alphabetically
     const sortedPrefixes = Object.keys(groupedData).sort();
@@ -418,34 +813,27 @@ export async function saveToExcel(
 
       // Add data rows with advanced formatting
       groupedData[prefix].forEach((property, index) => {
-        const newRow = worksheet.addRow([
-          property.DATE,
-          property.ADDRESS,
-          property.CITY,
-          property.STATE,
-          property.POSTAL,
-          property.AGENT,
-          property.BROKER,
-          property.PRICE,
-          property.LATITUDE,
-          property.LONGITUDE,
-        ]);
+        const newRow = worksheet.addRow(
+          getPropertyCellValues(property, headers)
+        );
 
         // Apply advanced row formatting
         applyRowFormatting(newRow, index);
       });
 
       // Set optimal column widths
-      const optimalWidths = [12, 100, 100, 20, 30, 100, 100, 15, 12, 12];
+      const optimalWidths = [
+        12, 100, 100, 20, 30, 100, 100, 15, 12, 12, 20, 14, 14,
+      ];
       worksheet.columns.forEach((column, index) => {
-        let width = optimalWidths[index] || 15;
+        let width = optimalWidths[index] || COLUMN_WIDTHS[headers[index]] || 15;
 
         // Calculate actual max length for this column
         if (column.values && column.values.length > 0) {
           const maxLength = Math.max(
             ...column.values
               .filter((v) => v !== null && v !== undefined)
-              .map((v) => v.toString().length)
+              .map((v) => (v instanceof Date ? 10 : v.toString().length))
           );
           width = Math.max(width, Math.min(maxLength + 3, 60));
         }
@@ -469,13 +857,13 @@ export async function saveToExcel(
       if (worksheet.rowCount > 0) {
         worksheet.autoFilter = {
           from: "A1",
-          to: `J${worksheet.rowCount}`,
+          to: `${getLastColumnLetter(headers)}${worksheet.rowCount}`,
         };
       }
     }
 
     // Save the workbook
-    await workbook.xlsx.writeFile(filename);
+    await writeWorkbookAtomically(workbook, filename);
     console.log(`📊 Excel data saved to ${filename}`);
     console.log(
       `📋 Created ${sortedPrefixes.length} sheets: ${sortedPrefixes.join(", ")}`
@@ -486,11 +874,46 @@ export async function saveToExcel(
   }
 }
 
+// Function to load every property row from an Excel workbook (all sheets)
+export async function loadPropertiesFromExcel(
+  filename: string
+): Promise<ExtendedPropertyData[]> {
+  if (!fs.existsSync(filename)) {
+    throw new Error(`File does not exist: ${filename}`);
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filename);
+
+  const properties: ExtendedPropertyData[] = [];
+
+  workbook.worksheets.forEach((worksheet) => {
+    for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
+
+      if (row.hasValues && row.getCell(2).value && row.getCell(5).value) {
+        properties.push(readPropertyRow(row));
+      }
+    }
+  });
+
+  console.log(`📖 Loaded ${properties.length} properties from ${filename}`);
+  return properties;
+}
+
 // Function to generate timestamp for filenames
 export function generateTimestamp(): string {
   return new Date().toISOString().replace(/[:.]/g, "-");
 }
 
+// Function to get the scrape date stored in the DATE column (DD-MM-YYYY)
+export function getCurrentDate(): string {
+  const now = new Date();
+  return `${String(now.getDate()).padStart(2, "0")}-${String(
+    now.getMonth() + 1
+  ).padStart(2, "0")}-${now.getFullYear()}`;
+}
+
 // Function to generate date-based filename
 export function generateDailyFilename(): string {
   const today = new Date();
@@ -498,123 +921,331 @@ export function generateDailyFilename(): string {
   return `daily-listings-${dateStr}.xlsx`;
 }
 
+/**
+ * Storage of the master dataset: the master workbook itself, or a database
+ * that the master workbook is exported from
+ */
+export interface MasterStore {
+  // File holding the master dataset
+  readonly filename: string;
+  // Master workbook, written directly or exported when the store is finalized
+  readonly excelFilename: string;
+  // Insert a listing or update its current row
+  upsert(property: ExtendedPropertyData, postalPrefix: string): Promise<void>;
+  save(): Promise<void>;
+  // Clean up, write the final master workbook and close the store
+  finalize(): Promise<void>;
+}
+
+// Master dataset kept in an Excel workbook, rewritten on every save
+class ExcelMasterStore implements MasterStore {
+  private constructor(
+    public filename: string,
+    public workbook: ExcelJS.Workbook
+  ) {}
+
+  get excelFilename(): string {
+    return this.filename;
+  }
+
+  static async open(filename: string): Promise<ExcelMasterStore> {
+    const store = new ExcelMasterStore(filename, new ExcelJS.Workbook());
+
+    if (fs.existsSync(filename)) {
+      try {
+        await store.workbook.xlsx.readFile(filename);
+        console.log(`📚 Loaded existing master file: ${filename}`);
+
+        // Quick health check
+        const health = await validateExcelFileHealth(filename);
+        if (!health.isHealthy) {
+          console.log(`⚠️  Master file has issues, rebuilding...`);
+          const result = await rebuildCorruptedMasterFile(filename, true);
+          if (result.success) {
+            // Reload the rebuilt file
+            store.filename = result.newFilename;
+            await store.reload();
+            console.log(
+              `✅ Master file rebuilt and loaded: ${store.filename}`
+            );
+          }
+        }
+      } catch (error) {
+        console.log(
+          `❌ Error loading master file, creating new one: ${filename}`
+        );
+        console.error(error);
+      }
+    } else {
+      console.log(`📚 Creating new master file: ${filename}`);
+    }
+
+    return store;
+  }
+
+  async reload(): Promise<void> {
+    this.workbook = new ExcelJS.Workbook();
+    await this.workbook.xlsx.readFile(this.filename);
+  }
+
+  async upsert(
+    property: ExtendedPropertyData,
+    postalPrefix: string
+  ): Promise<void> {
+    await addPropertyToWorkbook(this.workbook, property, postalPrefix, true);
+  }
+
+  async save(): Promise<void> {
+    await writeWorkbookAtomically(this.workbook, this.filename);
+  }
+
+  async finalize(): Promise<void> {
+    console.log(
+      `🔍 Performing final cleanup and duplicate check on master file before saving...`
+    );
+
+    // First, clean up any empty rows
+    let emptyRowsRemoved = 0;
+    this.workbook.worksheets.forEach((worksheet) => {
+      emptyRowsRemoved += cleanupEmptyRows(worksheet);
+    });
+
+    // Then perform comprehensive duplicate check
+    const { duplicatesFound, duplicatesRemoved, placeholdersRemoved } =
+      await performMasterFileDuplicateCheck(this.workbook);
+
+    if (duplicatesRemoved > 0) {
+      console.log(
+        `🧹 Cleaned ${duplicatesRemoved} duplicates from master file before saving`
+      );
+    }
+
+    if (placeholdersRemoved > 0) {
+      console.log(
+        `🧹 Cleaned ${placeholdersRemoved} placeholder rows from master file before saving`
+      );
+    }
+
+    if (emptyRowsRemoved > 0) {
+      console.log(
+        `🧹 Cleaned ${emptyRowsRemoved} empty rows from master file before saving`
+      );
+    }
+
+    await this.save();
+    console.log(`📚 Master Excel file updated: ${this.filename}`);
+
+    if (
+      duplicatesFound === 0 &&
+      placeholdersRemoved === 0 &&
+      emptyRowsRemoved === 0
+    ) {
+      console.log(`✅ Master file integrity verified: No issues found`);
+    }
+  }
+}
+
 // Function to initialize dynamic Excel files
-export async function initializeDynamicExcel(): Promise<{
+export async function initializeDynamicExcel(
+  outputDir: string = ".",
+  transactionType: TransactionType = "sale",
+  resumeDailyFile?: string
+): Promise<{
   dailyFile: string;
   masterFile: string;
 }> {
+  ensureOutputDirectory(outputDir);
+
+  // Nothing buffered by an earlier run that was never finalized carries over
+  if (writeTimer) clearTimeout(writeTimer);
+  writeTimer = null;
+  pendingWrites = [];
+  pendingWriteCount = 0;
+
   const timestamp = generateTimestamp();
-  dailyFilename = `listings-scrape-${timestamp}.xlsx`;
+  listingType = transactionType;
+  dailyFilename = path.join(
+    outputDir,
+    `${getScrapeFilePrefix(transactionType)}-${timestamp}.xlsx`
+  );
 
   // Auto-detect and use the correct master file
-  masterFilename = getMasterFilename();
+  masterFilename = getMasterFilename(outputDir, transactionType);
 
-  // Initialize daily workbook
+  // Initialize daily workbook (a resumed run keeps appending to its own file)
   dailyWorkbook = new ExcelJS.Workbook();
 
-  // Initialize or load master workbook
-  masterWorkbook = new ExcelJS.Workbook();
-
-  if (fs.existsSync(masterFilename)) {
+  if (resumeDailyFile && fs.existsSync(resumeDailyFile)) {
     try {
-      await masterWorkbook.xlsx.readFile(masterFilename);
-      console.log(`📚 Loaded existing master file: ${masterFilename}`);
-
-      // Quick health check
-      const health = await validateExcelFileHealth(masterFilename);
-      if (!health.isHealthy) {
-        console.log(`⚠️  Master file has issues, rebuilding...`);
-        const result = await rebuildCorruptedMasterFile(masterFilename, true);
-        if (result.success) {
-          // Reload the rebuilt file
-          await masterWorkbook.xlsx.readFile(result.newFilename);
-          masterFilename = result.newFilename;
-          console.log(`✅ Master file rebuilt and loaded: ${masterFilename}`);
-        }
-      }
+      await dailyWorkbook.xlsx.readFile(resumeDailyFile);
+      dailyFilename = resumeDailyFile;
+      console.log(`♻️  Reopened daily file from checkpoint: ${dailyFilename}`);
     } catch (error) {
       console.log(
-        `❌ Error loading master file, creating new one: ${masterFilename}`
+        `❌ Error reopening daily file ${resumeDailyFile}, starting a new one`
       );
       console.error(error);
+      dailyWorkbook = new ExcelJS.Workbook();
     }
-  } else {
-    console.log(`📚 Creating new master file: ${masterFilename}`);
+  } else if (resumeDailyFile) {
+    console.log(
+      `⚠️  Daily file from checkpoint not found (${resumeDailyFile}), starting a new one`
+    );
   }
 
+  // Open the master dataset in the configured storage backend. The listing
+  // history stays keyed to the Excel master, which SQLite exports to.
+  masterStore =
+    ScrapingConfig.STORAGE_BACKEND === "sqlite"
+      ? await SqliteMasterStore.open(masterFilename, transactionType)
+      : await ExcelMasterStore.open(masterFilename);
+  masterFilename = masterStore.excelFilename;
+
+  listingHistory = ListingHistory.forMasterFile(masterFilename);
+  installForceExitFlush();
+
   console.log(`📅 Daily file initialized: ${dailyFilename}`);
 
   return {
     dailyFile: dailyFilename,
-    masterFile: masterFilename,
+    masterFile: masterStore.filename,
   };
 }
 
-// Function to add property to both daily and master Excel files dynamically
+// Function to add property to both daily and master Excel files dynamically.
+// Writes are batched: onWritten runs once the property is on disk.
 export async function addPropertyToExcel(
-  property: PropertyData
+  property: ExtendedPropertyData,
+  onWritten?: () => void
 ): Promise<void> {
-  if (!dailyWorkbook || !masterWorkbook) {
+  if (!dailyWorkbook || !masterStore) {
     throw new Error(
       "Excel files not initialized. Call initializeDynamicExcel() first."
     );
   }
 
+  // Failed scrapes belong in the failure log, not the listing workbooks
+  if (isPlaceholderProperty(property)) {
+    console.warn(`⚠️  Refusing to write placeholder row: ${property.ADDRESS}`);
+    return;
+  }
+
   // Convert property data to uppercase
-  const uppercaseProperty: PropertyData = {
-    DATE: property.DATE,
+  const uppercaseProperty: ExtendedPropertyData = {
+    ...property,
     ADDRESS: property.ADDRESS.toUpperCase(),
     CITY: property.CITY.toUpperCase(),
     STATE: property.STATE.toUpperCase(),
     POSTAL: property.POSTAL.toUpperCase(),
     AGENT: property.AGENT.toUpperCase(),
     BROKER: property.BROKER.toUpperCase(),
-    PRICE: property.PRICE,
-    LATITUDE: property.LATITUDE,
-    LONGITUDE: property.LONGITUDE,
   };
 
-  const postalPrefix = property.POSTAL.substring(0, 2).toUpperCase();
+  const postalPrefix = getPostalSheetName(property.POSTAL);
+  const workbook = dailyWorkbook;
+  const store = masterStore;
 
-  // Add to daily workbook
-  await addPropertyToWorkbook(dailyWorkbook, uppercaseProperty, postalPrefix);
+  await enqueueWorkbookTask(async () => {
+    // Add to daily workbook
+    await addPropertyToWorkbook(workbook, uppercaseProperty, postalPrefix);
 
-  // Add to master workbook (check for duplicates first)
-  await addPropertyToWorkbook(
-    masterWorkbook,
-    uppercaseProperty,
-    postalPrefix,
-    true
-  );
+    // Add to the master dataset, updating the listing's current row if it is
+    // already there
+    await store.upsert(uppercaseProperty, postalPrefix);
+    listingHistory?.record(uppercaseProperty);
+
+    console.log(
+      `✅ Property added dynamically: ${property.ADDRESS} (${postalPrefix})`
+    );
+
+    // Write both files once a batch is full; a partial batch is written when
+    // its first property has waited WRITE_BATCH_INTERVAL
+    pendingWriteCount++;
+    if (onWritten) pendingWrites.push(onWritten);
+
+    if (pendingWriteCount >= ScrapingConfig.WRITE_BATCH_SIZE) {
+      await writeBufferedProperties();
+    } else if (!writeTimer) {
+      writeTimer = setTimeout(() => {
+        writeTimer = null;
+        flushDynamicExcel().catch((error) =>
+          console.error("❌ Error writing buffered properties:", error)
+        );
+      }, ScrapingConfig.WRITE_BATCH_INTERVAL);
+    }
+  });
+}
+
+/**
+ * Write the properties buffered by addPropertyToExcel() to the daily and
+ * master files, then run their onWritten callbacks. Waits for the workbook
+ * changes queued before it.
+ */
+export function flushDynamicExcel(): Promise<void> {
+  return enqueueWorkbookTask(writeBufferedProperties);
+}
+
+// Only called from a task of the workbook queue
+async function writeBufferedProperties(): Promise<void> {
+  if (pendingWriteCount === 0 || !dailyWorkbook || !masterStore) return;
+
+  if (writeTimer) {
+    clearTimeout(writeTimer);
+    writeTimer = null;
+  }
 
-  // Save both files
-  await dailyWorkbook.xlsx.writeFile(dailyFilename);
-  await masterWorkbook.xlsx.writeFile(masterFilename);
+  const batchSize = pendingWriteCount;
+  const callbacks = pendingWrites;
+  pendingWriteCount = 0;
+  pendingWrites = [];
 
+  const store = masterStore;
+  await writeWorkbookAtomically(dailyWorkbook, dailyFilename);
+  await store.save();
+  listingHistory?.save();
+
+  callbacks.forEach((callback) => callback());
   console.log(
-    `✅ Property added dynamically: ${property.ADDRESS} (${postalPrefix})`
+    `💾 Wrote ${batchSize} buffered propert${
+      batchSize === 1 ? "y" : "ies"
+    } to ${dailyFilename} and ${store.filename}`
   );
 }
 
+// Function to write a workbook to a temp file that is fsynced and then renamed
+// over the original, so a crash mid-write never leaves a truncated workbook
+export async function writeWorkbookAtomically(
+  workbook: ExcelJS.Workbook,
+  filename: string
+): Promise<void> {
+  const tempFilename = `${filename}.tmp`;
+  const buffer = await workbook.xlsx.writeBuffer();
+
+  const fd = fs.openSync(tempFilename, "w");
+  try {
+    fs.writeFileSync(fd, Buffer.from(buffer as ArrayBuffer));
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempFilename, filename);
+}
+
+// Write buffered properties even when a shutdown is forced. A graceful
+// shutdown finalizes the workbooks, which writes them anyway.
+function installForceExitFlush(): void {
+  removeForceExitFlush?.();
+  removeForceExitFlush = shutdown.onForceExit(flushDynamicExcel);
+}
+
 // Helper function to add property to a specific workbook
 async function addPropertyToWorkbook(
   workbook: ExcelJS.Workbook,
-  property: PropertyData,
+  property: ExtendedPropertyData,
   postalPrefix: string,
   checkDuplicates: boolean = false
 ): Promise<void> {
-  const headers = [
-    "DATE",
-    "ADDRESS",
-    "CITY",
-    "STATE",
-    "POSTAL",
-    "AGENT",
-    "BROKER",
-    "PRICE",
-    "LATITUDE",
-    "LONGITUDE",
-  ];
+  const headers = getListingHeaders(listingType);
 
   // Get or create worksheet for this postal prefix
   let worksheet = workbook.getWorksheet(postalPrefix);
@@ -644,9 +1275,8 @@ async function addPropertyToWorkbook(
     headerRow.height = 25;
 
     // Set column widths
-    const optimalWidths = [12, 35, 30, 10, 12, 20, 40, 15, 12, 12];
     worksheet.columns.forEach((column, index) => {
-      column.width = optimalWidths[index] || 15;
+      column.width = COLUMN_WIDTHS[headers[index]] || 15;
     });
 
     // Apply advanced borders to header
@@ -658,16 +1288,29 @@ async function addPropertyToWorkbook(
         right: { style: "medium", color: { argb: "FF000000" } },
       };
     });
+  } else {
+    upgradeWorksheetHeaders(worksheet, headers);
   }
 
-  // Check for duplicates if requested (for master file)
+  // Rows follow the worksheet's own columns, so a workbook written with a
+  // wider column profile keeps its extra columns
+  const worksheetHeaders = getWorksheetHeaders(worksheet);
+
+  // The master file keeps one current row per listing: a listing seen again
+  // overwrites its row, and the listing history keeps what changed. Details
+  // the new scrape did not find keep their earlier values.
   if (checkDuplicates) {
-    const isDuplicate = checkIfPropertyExists(worksheet, property);
-    if (isDuplicate) {
+    const existingRow = findExistingPropertyRow(worksheet, property);
+    if (existingRow) {
+      existingRow.values = getPropertyCellValues(
+        { ...readPropertyRow(existingRow), ...property },
+        worksheetHeaders
+      );
+      applyRowFormatting(existingRow, existingRow.number - 2);
       console.log(
-        `🚫 Duplicate detected and skipped: ${property.ADDRESS} (${property.POSTAL})`
+        `🔄 Updated current row ${existingRow.number}: ${property.ADDRESS} (${property.POSTAL})`
       );
-      return; // Skip adding duplicate
+      return;
     } else {
       console.log(
         `✅ New property verified: ${property.ADDRESS} (${property.POSTAL})`
@@ -676,30 +1319,22 @@ async function addPropertyToWorkbook(
   }
 
   // Add the property data
-  const newRow = worksheet.addRow([
-    property.DATE,
-    property.ADDRESS,
-    property.CITY,
-    property.STATE,
-    property.POSTAL,
-    property.AGENT,
-    property.BROKER,
-    property.PRICE,
-    property.LATITUDE,
-    property.LONGITUDE,
-  ]);
+  const newRow = worksheet.addRow(
+    getPropertyCellValues(property, worksheetHeaders)
+  );
 
   // Apply advanced styling to the new row
   applyRowFormatting(newRow, worksheet.rowCount - 1);
 }
 
-// Enhanced function to check if property already exists in worksheet with multiple criteria
-function checkIfPropertyExists(
+// Function to find the row already holding a listing in a worksheet, by
+// listing identity first and address + postal code as a fallback
+function findExistingPropertyRow(
   worksheet: ExcelJS.Worksheet,
   property: PropertyData
-): boolean {
+): ExcelJS.Row | null {
   console.log(
-    `🔍 Checking for duplicates: ${property.ADDRESS} (${property.POSTAL})`
+    `🔍 Checking for existing listing: ${property.ADDRESS} (${property.POSTAL})`
   );
 
   for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
@@ -710,109 +1345,99 @@ function checkIfPropertyExists(
       continue;
     }
 
-    const existingAddress = row
-      .getCell(2)
-      .value?.toString()
-      .toUpperCase()
-      .trim();
-    const existingPostal = row
-      .getCell(5)
-      .value?.toString()
-      .toUpperCase()
-      .trim();
-    const existingPrice = row.getCell(8).value?.toString().trim() || "";
-    const existingAgent =
-      row.getCell(6).value?.toString().toUpperCase().trim() || "";
-
-    const newAddress = property.ADDRESS.toUpperCase().trim();
-    const newPostal = property.POSTAL.toUpperCase().trim();
-    const newPrice = property.PRICE.trim();
-    const newAgent = property.AGENT.toUpperCase().trim();
+    const existing: ListingIdentity = {
+      ADDRESS: row.getCell(2).value?.toString().trim() || "",
+      POSTAL: row.getCell(5).value?.toString().trim() || "",
+      ...readOptionalColumns(row),
+    };
 
     // Skip if no valid address or postal code
-    if (!existingAddress || !existingPostal) {
+    if (!existing.ADDRESS || !existing.POSTAL) {
       continue;
     }
 
-    // Primary check: Address + Postal Code (most reliable)
-    if (existingAddress === newAddress && existingPostal === newPostal) {
-      console.log(`🔍 Found potential duplicate at row ${rowNumber}:`);
-      console.log(`   Address: "${existingAddress}" === "${newAddress}"`);
-      console.log(`   Postal: "${existingPostal}" === "${newPostal}"`);
-
-      // Secondary check: Price and Agent to confirm it's the same listing
-      if (existingPrice === newPrice && existingAgent === newAgent) {
-        console.log(
-          `🚫 EXACT DUPLICATE confirmed (Address + Postal + Price + Agent match)`
-        );
-        return true;
-      } else {
-        console.log(`⚠️  Same property but different details:`);
-        console.log(`   Price: "${existingPrice}" vs "${newPrice}"`);
-        console.log(`   Agent: "${existingAgent}" vs "${newAgent}"`);
-        console.log(`❓ Treating as different listing (price/agent changed)`);
-        // Return false to allow this as it might be a price update or agent change
-      }
+    const match = matchListings(existing, property);
+    if (match) {
+      console.log(
+        `🔍 Found ${getPropertyKey(property)} at row ${rowNumber} (by ${match})`
+      );
+      return row;
     }
   }
 
-  console.log(`✅ No duplicates found - property is unique`);
-  return false;
+  console.log(`✅ No existing row found - property is new`);
+  return null;
 }
 
 // Function to finalize and close dynamic Excel files
-export async function finalizeDynamicExcel(): Promise<{
+// Pass every listing of the search when the run saw all of it, so listings
+// missing from it are flagged in the listing history
+export async function finalizeDynamicExcel(
+  completeSearch?: ListingIdentity[]
+): Promise<{
   dailyFile: string;
   masterFile: string;
+  changesFile?: string;
+  masterExport?: string;
 }> {
-  if (dailyWorkbook && masterWorkbook) {
-    console.log(
-      `🔍 Performing final cleanup and duplicate check on master file before saving...`
-    );
-
-    // First, clean up any empty rows in both workbooks
-    let totalEmptyRowsRemoved = 0;
+  if (dailyWorkbook && masterStore) {
+    // Final flush, so every buffered property's onWritten callback runs
+    await flushDynamicExcel();
+    removeForceExitFlush?.();
+    removeForceExitFlush = null;
 
+    let emptyRowsRemoved = 0;
     dailyWorkbook.worksheets.forEach((worksheet) => {
-      totalEmptyRowsRemoved += cleanupEmptyRows(worksheet);
+      emptyRowsRemoved += cleanupEmptyRows(worksheet);
     });
-
-    masterWorkbook.worksheets.forEach((worksheet) => {
-      totalEmptyRowsRemoved += cleanupEmptyRows(worksheet);
-    });
-
-    // Then perform comprehensive duplicate check on master file
-    const { duplicatesFound, duplicatesRemoved } =
-      await performMasterFileDuplicateCheck(masterWorkbook);
-
-    if (duplicatesRemoved > 0) {
+    if (emptyRowsRemoved > 0) {
       console.log(
-        `🧹 Cleaned ${duplicatesRemoved} duplicates from master file before saving`
+        `🧹 Cleaned ${emptyRowsRemoved} empty rows from the daily file before saving`
       );
     }
 
-    if (totalEmptyRowsRemoved > 0) {
-      console.log(
-        `🧹 Cleaned ${totalEmptyRowsRemoved} empty rows from files before saving`
-      );
-    }
+    await writeWorkbookAtomically(dailyWorkbook, dailyFilename);
+    console.log(`📊 Daily Excel file finalized: ${dailyFilename}`);
 
-    // Final save of both files
-    await dailyWorkbook.xlsx.writeFile(dailyFilename);
-    await masterWorkbook.xlsx.writeFile(masterFilename);
+    await masterStore.finalize();
 
-    console.log(`📊 Daily Excel file finalized: ${dailyFilename}`);
-    console.log(`📚 Master Excel file updated: ${masterFilename}`);
+    // Price drops, relists and (after a full run) listings no longer found
+    let changesFile: string | undefined;
+    if (listingHistory) {
+      if (completeSearch) {
+        listingHistory.markMissing(completeSearch, getCurrentDate());
+      } else {
+        console.log(
+          `ℹ️  Partial run: listings not seen are not flagged as removed`
+        );
+      }
+      listingHistory.save();
+      console.log(`📈 Listing history updated: ${listingHistory.filename}`);
 
-    if (duplicatesFound === 0 && totalEmptyRowsRemoved === 0) {
-      console.log(`✅ Master file integrity verified: No issues found`);
+      const reportFilename =
+        dailyFilename.replace(/\.xlsx$/i, "") + "-changes.json";
+      if (listingHistory.saveRunReport(reportFilename)) {
+        changesFile = reportFilename;
+      }
     }
 
+    const masterFile = masterStore.filename;
+    const masterExport =
+      masterStore.excelFilename !== masterFile
+        ? masterStore.excelFilename
+        : undefined;
+
     // Reset for next session
     dailyWorkbook = null;
-    masterWorkbook = null;
+    masterStore = null;
+    listingHistory = null;
 
-    return { dailyFile: dailyFilename, masterFile: masterFilename };
+    return {
+      dailyFile: dailyFilename,
+      masterFile,
+      changesFile,
+      masterExport,
+    };
   }
 
   throw new Error("Excel files not initialized");
@@ -850,9 +1475,14 @@ function applyRowFormatting(row: ExcelJS.Row, rowIndex: number): void {
       case 1: // DATE
         cell.alignment = { horizontal: "center", vertical: "middle" };
         cell.font = { size: 10 };
+        if (cell.value instanceof Date) cell.numFmt = "dd-mm-yyyy";
         break;
       case 8: // PRICE
-        if (cell.value && typeof cell.value === "string") {
+        if (typeof cell.value === "number") {
+          cell.numFmt = '"$"#,##0';
+          cell.alignment = { horizontal: "right", vertical: "middle" };
+          cell.font = { bold: true, color: { argb: "FF006400" } }; // Dark green for prices
+        } else if (cell.value && typeof cell.value === "string") {
           cell.alignment = { horizontal: "right", vertical: "middle" };
           cell.font = { bold: true, color: { argb: "FF2F5597" } };
           // Format price with better styling
@@ -870,6 +1500,11 @@ function applyRowFormatting(row: ExcelJS.Row, rowIndex: number): void {
       case 10: // LONGITUDE
         cell.alignment = { horizontal: "center", vertical: "middle" };
         cell.font = { size: 9, color: { argb: "FF666666" } };
+        if (typeof cell.value === "number") cell.numFmt = "0.000000";
+        break;
+      case 11: // LEASE TERM (rentals), LISTING ID (sales)
+        cell.alignment = { horizontal: "center", vertical: "middle" };
+        cell.font = { size: 10 };
         break;
     }
   });
@@ -917,11 +1552,13 @@ function applyAdvancedFormatting(worksheet: ExcelJS.Worksheet): void {
   // Freeze the header row
   worksheet.views = [{ state: "frozen", ySplit: 1 }];
 
-  // Auto-filter for the header row
+  // Auto-filter for the header row (rental sheets have a lease term column)
   if (worksheet.rowCount > 0) {
     worksheet.autoFilter = {
       from: "A1",
-      to: `J${worksheet.rowCount}`,
+      to: `${getLastColumnLetter(getWorksheetHeaders(worksheet))}${
+        worksheet.rowCount
+      }`,
     };
   }
 }
@@ -929,38 +1566,43 @@ function applyAdvancedFormatting(worksheet: ExcelJS.Worksheet): void {
 // Function to perform comprehensive duplicate check across all worksheets in master file
 export async function performMasterFileDuplicateCheck(
   workbook: ExcelJS.Workbook
-): Promise<{ duplicatesFound: number; duplicatesRemoved: number }> {
+): Promise<{
+  duplicatesFound: number;
+  duplicatesRemoved: number;
+  placeholdersRemoved: number;
+}> {
   console.log(
     `🔍 Performing comprehensive duplicate check across master file...`
   );
 
   let duplicatesFound = 0;
   let duplicatesRemoved = 0;
+  let placeholdersRemoved = 0;
 
   // Process each worksheet individually to avoid cross-worksheet issues
   workbook.worksheets.forEach((worksheet) => {
     console.log(`📊 Cleaning worksheet: ${worksheet.name}`);
 
-    const uniqueProperties = new Map<string, PropertyData>();
-    const validRows: PropertyData[] = [];
+    upgradeWorksheetHeaders(
+      worksheet,
+      getListingHeaders(
+        getListingTypeOfWorksheet(worksheet),
+        getWiderColumnProfile(
+          getColumnProfileOfWorksheet(worksheet),
+          ScrapingConfig.COLUMN_PROFILE
+        )
+      )
+    );
+    const worksheetHeaders = getWorksheetHeaders(worksheet);
+    const uniqueProperties = new ListingIndex<number>(); // Index in validRows
+    const validRows: ExtendedPropertyData[] = [];
 
     // Collect all valid properties from this worksheet
     for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
       const row = worksheet.getRow(rowNumber);
 
       if (row.hasValues && row.getCell(2).value && row.getCell(5).value) {
-        const property: PropertyData = {
-          DATE: row.getCell(1).value?.toString() || "",
-          ADDRESS: row.getCell(2).value?.toString().trim() || "",
-          CITY: row.getCell(3).value?.toString().trim() || "",
-          STATE: row.getCell(4).value?.toString().trim() || "",
-          POSTAL: row.getCell(5).value?.toString().trim() || "",
-          AGENT: row.getCell(6).value?.toString().trim() || "",
-          BROKER: row.getCell(7).value?.toString().trim() || "",
-          PRICE: row.getCell(8).value?.toString() || "",
-          LATITUDE: row.getCell(9).value?.toString() || "",
-          LONGITUDE: row.getCell(10).value?.toString() || "",
-        };
+        const property = readPropertyRow(row);
 
         // Skip empty or invalid rows
         if (!property.ADDRESS || !property.POSTAL) {
@@ -970,54 +1612,65 @@ export async function performMasterFileDuplicateCheck(
           continue;
         }
 
-        const key = `${property.ADDRESS.toUpperCase()}-${property.POSTAL.toUpperCase()}`;
+        // Drop "Error" rows left behind by older runs
+        if (isPlaceholderProperty(property)) {
+          placeholdersRemoved++;
+          continue;
+        }
+
+        const match = uniqueProperties.find(property);
 
-        if (uniqueProperties.has(key)) {
-          const existing = uniqueProperties.get(key)!;
-          console.log(`🚫 Duplicate found in ${worksheet.name}:`);
+        if (match) {
+          const existing = validRows[match.value];
+          console.log(
+            `🚫 Duplicate found in ${worksheet.name} (by ${match.matchedBy}):`
+          );
           console.log(`   Original: ${existing.ADDRESS} (${existing.POSTAL})`);
           console.log(`   Duplicate: ${property.ADDRESS} (${property.POSTAL})`);
           duplicatesFound++;
           duplicatesRemoved++;
 
           // Check if new data has more recent information
-          if (property.DATE > existing.DATE) {
+          if (compareScrapeDates(property.DATE, existing.DATE) > 0) {
             console.log(
               `   📅 Keeping newer entry (${property.DATE} vs ${existing.DATE})`
             );
-            uniqueProperties.set(key, property);
-            validRows[validRows.length - 1] = property; // Replace last entry
+            uniqueProperties.set(property, match.value);
+            validRows[match.value] = property;
           } else {
             console.log(
               `   📅 Keeping original entry (${existing.DATE} vs ${property.DATE})`
             );
           }
         } else {
-          uniqueProperties.set(key, property);
+          uniqueProperties.set(property, validRows.length);
           validRows.push(property);
         }
       }
     }
 
-    // Clear all data rows (keep header)
-    if (worksheet.rowCount > 1) {
-      worksheet.spliceRows(2, worksheet.rowCount - 1);
+    // Clear all data rows (keep header). Rows go one at a time from the
+    // bottom: ExcelJS ignores a single splice that reaches the last row.
+    for (let rowNumber = worksheet.rowCount; rowNumber > 1; rowNumber--) {
+      worksheet.spliceRows(rowNumber, 1);
     }
 
     // Re-add only unique, valid data
     validRows.forEach((property, index) => {
-      const newRow = worksheet.addRow([
-        property.DATE,
-        property.ADDRESS.toUpperCase(),
-        property.CITY.toUpperCase(),
-        property.STATE.toUpperCase(),
-        property.POSTAL.toUpperCase(),
-        property.AGENT.toUpperCase(),
-        property.BROKER.toUpperCase(),
-        property.PRICE,
-        property.LATITUDE,
-        property.LONGITUDE,
-      ]);
+      const newRow = worksheet.addRow(
+        getPropertyCellValues(
+          {
+            ...property,
+            ADDRESS: property.ADDRESS.toUpperCase(),
+            CITY: property.CITY.toUpperCase(),
+            STATE: property.STATE.toUpperCase(),
+            POSTAL: property.POSTAL.toUpperCase(),
+            AGENT: property.AGENT.toUpperCase(),
+            BROKER: property.BROKER.toUpperCase(),
+          },
+          worksheetHeaders
+        )
+      );
 
       // Apply formatting to the new row
       applyRowFormatting(newRow, index);
@@ -1031,8 +1684,11 @@ export async function performMasterFileDuplicateCheck(
   console.log(`✅ Master file duplicate check completed:`);
   console.log(`   🔍 Duplicates found: ${duplicatesFound}`);
   console.log(`   🗑️  Duplicates removed: ${duplicatesRemoved}`);
+  if (placeholdersRemoved > 0) {
+    console.log(`   🧹 Placeholder rows removed: ${placeholdersRemoved}`);
+  }
 
-  return { duplicatesFound, duplicatesRemoved };
+  return { duplicatesFound, duplicatesRemoved, placeholdersRemoved };
 }
 
 // Helper function to clean up empty rows from a worksheet
@@ -1071,7 +1727,7 @@ function cleanupEmptyRows(worksheet: ExcelJS.Worksheet): number {
 
 // Function to safely rebuild a corrupted Excel file and replace it in place
 export async function rebuildCorruptedMasterFile(
-  corruptedFilename: string = getMasterFilename(),
+  corruptedFilename: string,
   replaceOriginal: boolean = true
 ): Promise<{ success: boolean; newFilename: string; stats: any }> {
   console.log(
@@ -1079,15 +1735,14 @@ export async function rebuildCorruptedMasterFile(
   );
 
   const timestamp = generateTimestamp();
-  const tempFilename = `temp-rebuild-${timestamp}.xlsx`;
-  const backupFilename = `backup-${timestamp}-${path.basename(
-    corruptedFilename
-  )}`;
+  const fileDir = path.dirname(corruptedFilename);
+  const tempFilename = path.join(fileDir, `temp-rebuild-${timestamp}.xlsx`);
+  let backupFilename = "none";
 
   try {
     // Create backup of corrupted file first
     if (fs.existsSync(corruptedFilename)) {
-      fs.copyFileSync(corruptedFilename, backupFilename);
+      backupFilename = new BackupManager().create(corruptedFilename).filename;
       console.log(`💾 Backup created: ${backupFilename}`);
     } else {
       console.log(
@@ -1096,14 +1751,29 @@ export async function rebuildCorruptedMasterFile(
     }
 
     // Try to extract data from corrupted file
-    let extractedData: PropertyData[] = [];
+    let extractedData: ExtendedPropertyData[] = [];
     let extractionSuccessful = false;
+    let rebuildListingType: TransactionType = path
+      .basename(corruptedFilename)
+      .includes("rentals")
+      ? "rent"
+      : "sale";
+    let rebuildProfile: ColumnProfile = ScrapingConfig.COLUMN_PROFILE;
 
     if (fs.existsSync(corruptedFilename)) {
       try {
         console.log(`📖 Attempting to extract data from corrupted file...`);
         const corruptedWorkbook = new ExcelJS.Workbook();
         await corruptedWorkbook.xlsx.readFile(corruptedFilename);
+        if (corruptedWorkbook.worksheets.length > 0) {
+          rebuildListingType = getListingTypeOfWorkbook(corruptedWorkbook);
+
+          // Never drop columns the corrupted file already had
+          rebuildProfile = getWiderColumnProfile(
+            getColumnProfileOfWorksheet(corruptedWorkbook.worksheets[0]),
+            rebuildProfile
+          );
+        }
 
         corruptedWorkbook.worksheets.forEach((worksheet) => {
           console.log(
@@ -1120,29 +1790,24 @@ export async function rebuildCorruptedMasterFile(
 
             if (row.hasValues && row.getCell(2).value && row.getCell(5).value) {
               try {
-                const property: PropertyData = {
-                  DATE:
-                    row.getCell(1).value?.toString().trim() ||
-                    new Date().toISOString().split("T")[0],
-                  ADDRESS:
-                    row.getCell(2).value?.toString().trim().toUpperCase() || "",
-                  CITY:
-                    row.getCell(3).value?.toString().trim().toUpperCase() || "",
-                  STATE:
-                    row.getCell(4).value?.toString().trim().toUpperCase() || "",
-                  POSTAL:
-                    row.getCell(5).value?.toString().trim().toUpperCase() || "",
-                  AGENT:
-                    row.getCell(6).value?.toString().trim().toUpperCase() || "",
-                  BROKER:
-                    row.getCell(7).value?.toString().trim().toUpperCase() || "",
-                  PRICE: row.getCell(8).value?.toString().trim() || "",
-                  LATITUDE: row.getCell(9).value?.toString().trim() || "",
-                  LONGITUDE: row.getCell(10).value?.toString().trim() || "",
+                const rowData = readPropertyRow(row);
+                const property: ExtendedPropertyData = {
+                  ...rowData,
+                  DATE: rowData.DATE || getCurrentDate(),
+                  ADDRESS: rowData.ADDRESS.toUpperCase(),
+                  CITY: rowData.CITY.toUpperCase(),
+                  STATE: rowData.STATE.toUpperCase(),
+                  POSTAL: rowData.POSTAL.toUpperCase(),
+                  AGENT: rowData.AGENT.toUpperCase(),
+                  BROKER: rowData.BROKER.toUpperCase(),
                 };
 
-                // Validate essential data
-                if (property.ADDRESS && property.POSTAL) {
+                // Validate essential data (placeholder rows are dropped)
+                if (
+                  property.ADDRESS &&
+                  property.POSTAL &&
+                  !isPlaceholderProperty(property)
+                ) {
                   extractedData.push(property);
                 }
               } catch (rowError) {
@@ -1186,11 +1851,11 @@ export async function rebuildCorruptedMasterFile(
     };
 
     // Group data by postal code prefix with row limits
-    const groupedData: { [key: string]: PropertyData[] } = {};
+    const groupedData: { [key: string]: ExtendedPropertyData[] } = {};
     const sheetRowCounts: { [key: string]: number } = {};
 
     uniqueData.forEach((property) => {
-      const postalPrefix = property.POSTAL.substring(0, 2).toUpperCase();
+      const postalPrefix = getPostalSheetName(property.POSTAL);
 
       if (!groupedData[postalPrefix]) {
         groupedData[postalPrefix] = [];
@@ -1212,18 +1877,7 @@ export async function rebuildCorruptedMasterFile(
     });
 
     // Create worksheets with proper formatting
-    const headers = [
-      "DATE",
-      "ADDRESS",
-      "CITY",
-      "STATE",
-      "POSTAL",
-      "AGENT",
-      "BROKER",
-      "PRICE",
-      "LATITUDE",
-      "LONGITUDE",
-    ];
+    const headers = getListingHeaders(rebuildListingType, rebuildProfile);
 
     const sortedPrefixes = Object.keys(groupedData).sort();
     console.log(
@@ -1233,50 +1887,9 @@ export async function rebuildCorruptedMasterFile(
     );
 
     for (const prefix of sortedPrefixes) {
-      const worksheet = newWorkbook.addWorksheet(prefix);
+      addListingWorksheet(newWorkbook, prefix, headers, groupedData[prefix]);
       stats.sheetsCreated++;
 
-      // Add and format headers
-      const headerRow = worksheet.addRow(headers);
-      headerRow.font = { bold: true, size: 12, color: { argb: "FFFFFFFF" } };
-      headerRow.fill = {
-        type: "pattern",
-        pattern: "solid",
-        fgColor: { argb: "FF2F5597" },
-      };
-      headerRow.alignment = { horizontal: "center", vertical: "middle" };
-      headerRow.height = 25;
-
-      // Set column widths
-      const optimalWidths = [12, 35, 30, 10, 12, 20, 40, 15, 12, 12];
-      worksheet.columns.forEach((column, index) => {
-        column.width = optimalWidths[index] || 15;
-      });
-
-      // Add data rows
-      groupedData[prefix].forEach((property, index) => {
-        const newRow = worksheet.addRow([
-          property.DATE,
-          property.ADDRESS,
-          property.CITY,
-          property.STATE,
-          property.POSTAL,
-          property.AGENT,
-          property.BROKER,
-          property.PRICE,
-          property.LATITUDE,
-          property.LONGITUDE,
-        ]);
-
-        applyRowFormatting(newRow, index);
-      });
-
-      // Apply worksheet-level formatting
-      worksheet.views = [{ state: "frozen", ySplit: 1 }];
-      if (worksheet.rowCount > 1) {
-        worksheet.autoFilter = { from: "A1", to: `J${worksheet.rowCount}` };
-      }
-
       console.log(
         `✅ Created worksheet ${prefix} with ${groupedData[prefix].length} properties`
       );
@@ -1342,6 +1955,101 @@ export async function rebuildCorruptedMasterFile(
   }
 }
 
+// Add a formatted listing worksheet (header, column widths, frozen header row
+// and filter) holding the given properties
+function addListingWorksheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  headers: string[],
+  properties: ExtendedPropertyData[]
+): ExcelJS.Worksheet {
+  const worksheet = workbook.addWorksheet(name);
+
+  // Add and format headers
+  const headerRow = worksheet.addRow(headers);
+  headerRow.font = { bold: true, size: 12, color: { argb: "FFFFFFFF" } };
+  headerRow.fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: "FF2F5597" },
+  };
+  headerRow.alignment = { horizontal: "center", vertical: "middle" };
+  headerRow.height = 25;
+
+  // Set column widths
+  worksheet.columns.forEach((column, index) => {
+    column.width = COLUMN_WIDTHS[headers[index]] || 15;
+  });
+
+  // Add data rows
+  properties.forEach((property, index) => {
+    const newRow = worksheet.addRow(getPropertyCellValues(property, headers));
+
+    applyRowFormatting(newRow, index);
+  });
+
+  // Apply worksheet-level formatting
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+  if (worksheet.rowCount > 1) {
+    worksheet.autoFilter = {
+      from: "A1",
+      to: `${getLastColumnLetter(headers)}${worksheet.rowCount}`,
+    };
+  }
+
+  return worksheet;
+}
+
+// Function to rewrite a workbook with only its listing rows, keeping sheets,
+// headers and row order. Drops empty and phantom formatted rows that bloat
+// the file; rows are neither deduplicated nor regrouped (see dedupe/repair).
+export async function compactWorkbook(
+  filename: string
+): Promise<{ success: boolean; rowsBefore: number; rowsAfter: number }> {
+  console.log(`🗜️  Compacting workbook: ${filename}`);
+
+  let rowsBefore = 0;
+  let rowsAfter = 0;
+
+  try {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(filename);
+    const compacted = new ExcelJS.Workbook();
+
+    for (const worksheet of workbook.worksheets) {
+      const properties: ExtendedPropertyData[] = [];
+      rowsBefore += worksheet.rowCount;
+
+      for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+        const row = worksheet.getRow(rowNumber);
+        if (row.hasValues && row.getCell(2).value && row.getCell(5).value) {
+          properties.push(readPropertyRow(row));
+        }
+      }
+
+      const sheet = addListingWorksheet(
+        compacted,
+        worksheet.name,
+        getWorksheetHeaders(worksheet),
+        properties
+      );
+      rowsAfter += sheet.rowCount;
+      console.log(
+        `📊 Sheet "${worksheet.name}": ${worksheet.rowCount} -> ${sheet.rowCount} rows`
+      );
+    }
+
+    await writeWorkbookAtomically(compacted, filename);
+    console.log(
+      `✅ Workbook compacted: ${rowsBefore} -> ${rowsAfter} rows (${filename})`
+    );
+    return { success: true, rowsBefore, rowsAfter };
+  } catch (error) {
+    console.error(`❌ Failed to compact workbook:`, error);
+    return { success: false, rowsBefore, rowsAfter };
+  }
+}
+
 // Function to validate Excel file health and detect corruption
 export async function validateExcelFileHealth(
   filename: string
@@ -1455,7 +2163,8 @@ export async function validateExcelFileHealth(
   }
 }
 
-// Function to create automatic backups before modifying files
+// Function to create automatic backups before modifying files (checksummed and
+// rotated by the BackupManager retention policy)
 export async function createAutomaticBackup(
   filename: string
 ): Promise<string | null> {
@@ -1465,20 +2174,7 @@ export async function createAutomaticBackup(
       return null;
     }
 
-    const timestamp = generateTimestamp();
-    const backupDir = "./backups";
-    const backupFilename = path.join(
-      backupDir,
-      `backup-${timestamp}-${path.basename(filename)}`
-    );
-
-    // Ensure backup directory exists
-    if (!fs.existsSync(backupDir)) {
-      fs.mkdirSync(backupDir, { recursive: true });
-      console.log(`📁 Created backup directory: ${backupDir}`);
-    }
-
-    fs.copyFileSync(filename, backupFilename);
+    const backupFilename = new BackupManager().create(filename).filename;
     console.log(`💾 Automatic backup created: ${backupFilename}`);
 
     return backupFilename;
@@ -1490,14 +2186,21 @@ export async function createAutomaticBackup(
 
 // Enhanced function to add property with corruption prevention
 export async function addPropertyToExcelSafely(
-  property: PropertyData
+  property: PropertyData,
+  onWritten?: () => void
 ): Promise<void> {
-  if (!dailyWorkbook || !masterWorkbook) {
+  if (!dailyWorkbook || !masterStore) {
     throw new Error(
       "Excel files not initialized. Call initializeDynamicExcel() first."
     );
   }
 
+  // Row limits only apply when the master dataset is the workbook itself
+  if (!(masterStore instanceof ExcelMasterStore)) {
+    await addPropertyToExcel(property, onWritten);
+    return;
+  }
+
   // Check master file health periodically
   const masterStats = await getMasterFileStats();
   if (masterStats.totalRows > EXCEL_LIMITS.SAFE_MAX_ROWS * 0.9) {
@@ -1511,16 +2214,22 @@ export async function addPropertyToExcelSafely(
     // Consider rebuilding if too large
     if (masterStats.totalRows > EXCEL_LIMITS.SAFE_MAX_ROWS) {
       console.log(`🔧 Master file too large, triggering rebuild...`);
-      await rebuildCorruptedMasterFile(masterFilename);
+      const store = masterStore;
+      await enqueueWorkbookTask(async () => {
+        await writeBufferedProperties();
+        const result = await rebuildCorruptedMasterFile(store.filename);
 
-      // Reinitialize after rebuild
-      masterWorkbook = new ExcelJS.Workbook();
-      await masterWorkbook.xlsx.readFile(masterFilename);
+        // Reinitialize after rebuild
+        if (result.success) {
+          store.filename = result.newFilename;
+        }
+        await store.reload();
+      });
     }
   }
 
   // Proceed with normal property addition
-  await addPropertyToExcel(property);
+  await addPropertyToExcel(property, onWritten);
 }
 
 // Function to get quick stats about master file
@@ -1529,14 +2238,14 @@ async function getMasterFileStats(): Promise<{
   totalSheets: number;
 }> {
   try {
-    if (!masterWorkbook) {
+    if (!(masterStore instanceof ExcelMasterStore)) {
       return { totalRows: 0, totalSheets: 0 };
     }
 
     let totalRows = 0;
-    const totalSheets = masterWorkbook.worksheets.length;
+    const totalSheets = masterStore.workbook.worksheets.length;
 
-    masterWorkbook.worksheets.forEach((worksheet) => {
+    masterStore.workbook.worksheets.forEach((worksheet) => {
       totalRows += worksheet.rowCount;
     });
 
@@ -1547,16 +2256,29 @@ async function getMasterFileStats(): Promise<{
   }
 }
 
-// Enhanced master file validation with empty row cleanup
+// Enhanced master file validation with empty row cleanup. Returns what was
+// removed; success is false when the file is missing or could not be cleaned.
 export async function validateMasterFileIntegrity(
   filename: string = masterFilename
-): Promise<void> {
+): Promise<{
+  success: boolean;
+  emptyRowsRemoved: number;
+  duplicatesRemoved: number;
+  placeholdersRemoved: number;
+}> {
   console.log(`🔍 Validating master file integrity: ${filename}`);
 
+  const result = {
+    success: false,
+    emptyRowsRemoved: 0,
+    duplicatesRemoved: 0,
+    placeholdersRemoved: 0,
+  };
+
   try {
     if (!fs.existsSync(filename)) {
       console.log(`⚠️  Master file does not exist: ${filename}`);
-      return;
+      return result;
     }
 
     const workbook = new ExcelJS.Workbook();
@@ -1570,19 +2292,31 @@ export async function validateMasterFileIntegrity(
     });
 
     // Then perform duplicate check
-    const { duplicatesFound, duplicatesRemoved } =
+    const { duplicatesFound, duplicatesRemoved, placeholdersRemoved } =
       await performMasterFileDuplicateCheck(workbook);
 
-    if (duplicatesRemoved > 0 || totalEmptyRowsRemoved > 0) {
+    if (
+      duplicatesRemoved > 0 ||
+      placeholdersRemoved > 0 ||
+      totalEmptyRowsRemoved > 0
+    ) {
       // Save the cleaned file
-      await workbook.xlsx.writeFile(filename);
+      await writeWorkbookAtomically(workbook, filename);
       console.log(`💾 Master file cleaned and saved: ${filename}`);
     }
 
     console.log(`✅ Master file integrity validation completed:`);
     console.log(`   🧹 Empty rows removed: ${totalEmptyRowsRemoved}`);
     console.log(`   🚫 Duplicates removed: ${duplicatesRemoved}`);
+
+    return {
+      success: true,
+      emptyRowsRemoved: totalEmptyRowsRemoved,
+      duplicatesRemoved,
+      placeholdersRemoved,
+    };
   } catch (error) {
     console.error(`❌ Error validating master file:`, error);
+    return result;
   }
 }
@@ -0,0 +1,199 @@
+import { RealtorCaScraper, PropertyData } from "./scraper";
+import { ScrapingConfig, TimingConfig } from "./config";
+
+// Outcome of one property URL, delivered to the pool's handler
+export interface PropertyTaskResult {
+  url: string;
+  index: number; // Submission order, starting at 0
+  page?: number; // API page the URL was found on, when streaming
+  property?: PropertyData;
+  error?: unknown;
+  durationMs: number;
+}
+
+export type PropertyResultHandler = (
+  result: PropertyTaskResult
+) => Promise<void>;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Spaces detail-page requests evenly across every page of the pool so the
+ * run as a whole stays under MAX_REQUESTS_PER_MINUTE
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+
+  constructor(
+    private maxPerMinute: number = ScrapingConfig.MAX_REQUESTS_PER_MINUTE
+  ) {}
+
+  async acquire(): Promise<void> {
+    if (this.maxPerMinute <= 0) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 60000 / this.maxPerMinute;
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+/**
+ * Scrapes property URLs on a bounded set of browser pages. URLs are taken in
+ * the order they are submitted and results are handed to the handler in that
+ * same order, one at a time, whichever page finishes first.
+ */
+export class PropertyWorkerPool {
+  private workers: RealtorCaScraper[] = [];
+  private idleWorkers: RealtorCaScraper[] = [];
+  private workerWaiters: ((worker: RealtorCaScraper) => void)[] = [];
+  private running = new Set<Promise<void>>();
+  private finished = new Map<number, PropertyTaskResult>();
+  private submitted = 0;
+  private nextToDeliver = 0;
+  private delivery: Promise<void> = Promise.resolve();
+  private handlerError: unknown = null;
+  private closed = false;
+
+  constructor(
+    private scraper: RealtorCaScraper,
+    private onResult: PropertyResultHandler,
+    private concurrency: number = ScrapingConfig.CONCURRENCY,
+    private rateLimiter: RateLimiter = new RateLimiter()
+  ) {}
+
+  /**
+   * Open the worker pages. The scraper's own page is the first worker, so a
+   * concurrency of 1 adds no extra page.
+   */
+  async initialize(): Promise<void> {
+    this.scraper.setRateLimiter(this.rateLimiter);
+    this.workers = [this.scraper];
+
+    for (let i = 1; i < this.concurrency; i++) {
+      this.workers.push(await this.scraper.createWorker(this.rateLimiter));
+    }
+    this.idleWorkers = [...this.workers];
+
+    if (this.workers.length > 1) {
+      console.log(
+        `👷 Worker pool ready: ${this.workers.length} pages, max ${
+          ScrapingConfig.MAX_REQUESTS_PER_MINUTE || "unlimited"
+        } detail pages/minute`
+      );
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * Queue a property URL. Resolves once a page has picked it up, so whoever
+   * feeds the pool never gets more than `concurrency` properties ahead.
+   */
+  async submit(url: string, page?: number): Promise<void> {
+    this.throwIfHandlerFailed();
+
+    const worker = await this.acquireWorker();
+    const index = this.submitted++;
+    const task: Promise<void> = this.run(worker, { url, index, page }).then(
+      () => {
+        this.running.delete(task);
+      }
+    );
+    this.running.add(task);
+  }
+
+  /**
+   * Wait for every submitted property to be scraped and handled
+   */
+  async drain(): Promise<void> {
+    await Promise.all(this.running);
+    await this.delivery;
+    this.throwIfHandlerFailed();
+  }
+
+  /**
+   * Close the extra worker pages (the scraper itself is closed by its owner)
+   */
+  async close(): Promise<void> {
+    for (const worker of this.workers.slice(1)) {
+      await worker.close();
+    }
+    this.workers = [this.scraper];
+    this.idleWorkers = [];
+    this.closed = true;
+  }
+
+  private async run(
+    worker: RealtorCaScraper,
+    task: { url: string; index: number; page?: number }
+  ): Promise<void> {
+    const startTime = Date.now();
+    const result: PropertyTaskResult = { ...task, durationMs: 0 };
+
+    try {
+      result.property = await worker.getProperty(task.url);
+    } catch (error) {
+      result.error = error;
+    }
+    result.durationMs = Date.now() - startTime;
+
+    // Each page still pauses after a detail page before taking the next URL
+    const delay = worker.visitedDetailPage
+      ? TimingConfig.PROPERTY_SCRAPING_DELAY
+      : 0;
+    setTimeout(() => this.releaseWorker(worker), delay);
+
+    this.finished.set(task.index, result);
+    this.delivery = this.delivery.then(() => this.deliverInOrder());
+  }
+
+  private async deliverInOrder(): Promise<void> {
+    while (this.finished.has(this.nextToDeliver)) {
+      const result = this.finished.get(this.nextToDeliver)!;
+      this.finished.delete(this.nextToDeliver);
+      this.nextToDeliver++;
+
+      // After a handler failure the remaining results are dropped; the
+      // error surfaces from the next submit() or drain()
+      if (this.handlerError) continue;
+
+      try {
+        await this.onResult(result);
+      } catch (error) {
+        this.handlerError = error;
+      }
+    }
+  }
+
+  private acquireWorker(): Promise<RealtorCaScraper> {
+    const worker = this.idleWorkers.shift();
+    if (worker) return Promise.resolve(worker);
+
+    return new Promise((resolve) => this.workerWaiters.push(resolve));
+  }
+
+  private releaseWorker(worker: RealtorCaScraper): void {
+    // Releases still scheduled after a detail-page delay must not hand
+    // closed pages back out
+    if (this.closed) return;
+
+    const waiter = this.workerWaiters.shift();
+    if (waiter) {
+      waiter(worker);
+    } else {
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  private throwIfHandlerFailed(): void {
+    if (this.handlerError) throw this.handlerError;
+  }
+}
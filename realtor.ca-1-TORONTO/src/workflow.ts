@@ -1,5 +1,5 @@
 import { RealtorCaScraper, PropertyData } from "./scraper";
-import { ScrapingConfig, TimingConfig } from "./config";
+import { ScrapingConfig, SearchCriteria, isUnfilteredSearch } from "./config";
 import {
   initializeDynamicExcel,
   addPropertyToExcel,
@@ -9,6 +9,14 @@ import {
   cleanupTempFiles,
   getMemoryStats,
 } from "./utils";
+import { RunCheckpoint } from "./checkpoint";
+import { shutdown } from "./shutdown";
+import { FailureLog, ScrapeFailure, toScrapeFailure } from "./failures";
+import {
+  PropertyWorkerPool,
+  PropertyTaskResult,
+  PropertyResultHandler,
+} from "./worker-pool";
 
 // Type for the streaming callback function
 type PropertyStreamCallback = (
@@ -17,14 +25,105 @@ type PropertyStreamCallback = (
   total?: number
 ) => Promise<void>;
 
+// Outcome of a workflow that returns the scraped properties
+export interface ScrapeResult {
+  properties: PropertyData[];
+  succeeded: number;
+  failed: number;
+  failures: ScrapeFailure[];
+  failureLog?: string; // Set when failures were also written to a log file
+  interrupted: boolean; // Stopped early by SIGINT/SIGTERM
+}
+
+// Outcome of a workflow that streams properties straight to the Excel files
+export interface StreamedScrapeResult {
+  totalProcessed: number; // Properties in the daily file, resumed ones included
+  succeeded: number; // This invocation only
+  failed: number;
+  dailyFile: string;
+  masterFile: string;
+  failureLog?: string;
+  changesFile?: string; // Price drops, relists and removals seen this run
+  masterExport?: string; // Master workbook exported from a database master
+  interrupted: boolean; // Stopped early by SIGINT/SIGTERM
+}
+
+function toScrapeResult(
+  properties: PropertyData[],
+  failures: FailureLog
+): ScrapeResult {
+  return {
+    properties,
+    succeeded: properties.length,
+    failed: failures.count,
+    failures: failures.list(),
+    failureLog: failures.filename,
+    interrupted: shutdown.requested,
+  };
+}
+
+// Remove the checkpoint of a finished run. An interrupted run keeps it so
+// --resume continues where it stopped.
+function finishCheckpoint(checkpoint: RunCheckpoint): void {
+  if (shutdown.requested) {
+    console.log(
+      `♻️  Run interrupted: checkpoint kept, continue it with --resume`
+    );
+    return;
+  }
+  checkpoint.complete();
+}
+
+// Every listing of the search when this run listed all of it, for flagging
+// listings that disappeared. Filtered searches never count: a listing outside
+// the filters is not gone from the market.
+function getCompleteSearch(
+  scraper: RealtorCaScraper,
+  searchCriteria: SearchCriteria
+): PropertyData[] | undefined {
+  return isUnfilteredSearch(searchCriteria)
+    ? scraper.getCompleteSearchResults()
+    : undefined;
+}
+
+// Scrape a list of URLs on the worker pool (ScrapingConfig.CONCURRENCY pages),
+// handing each result to the handler in URL order
+async function scrapeUrlsWithPool(
+  scraper: RealtorCaScraper,
+  urls: string[],
+  onResult: PropertyResultHandler
+): Promise<void> {
+  const pool = new PropertyWorkerPool(scraper, onResult);
+
+  try {
+    await pool.initialize();
+    for (const url of urls) {
+      if (shutdown.requested) {
+        console.log("🛑 Shutting down: no new properties are taken");
+        break;
+      }
+      await pool.submit(url);
+    }
+    await pool.drain();
+  } finally {
+    await pool.close();
+  }
+}
+
 // Function to scrape from listings page and then scrape each property
 export async function scrapeFromListingsPage(
   listingPageUrl: string = ScrapingConfig.DEFAULT_LISTING_URL,
   headless: boolean = ScrapingConfig.HEADLESS_MODE,
-  maxProperties: number = ScrapingConfig.DEFAULT_SINGLE_PAGE_LIMIT
-): Promise<PropertyData[]> {
-  const scraper = new RealtorCaScraper();
+  maxProperties: number = ScrapingConfig.DEFAULT_SINGLE_PAGE_LIMIT,
+  searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA
+): Promise<ScrapeResult> {
+  const scraper = new RealtorCaScraper(
+    listingPageUrl,
+    headless,
+    searchCriteria
+  );
   const results: PropertyData[] = [];
+  const failures = new FailureLog();
 
   try {
     await scraper.initialize();
@@ -47,7 +146,7 @@ export async function scrapeFromListingsPage(
       console.log(
         "💡 This could indicate: Invalid URL, no listings, or network issues"
       );
-      return results;
+      return toScrapeResult(results, failures);
     }
 
     // Limit the number of properties to scrape
@@ -64,27 +163,36 @@ export async function scrapeFromListingsPage(
       )} minutes`
     );
 
-    // Scrape each property
+    // Scrape each property (in parallel when CONCURRENCY > 1)
     const scrapingStartTime = Date.now();
-    for (let i = 0; i < urlsToScrape.length; i++) {
-      const currentTime = new Date().toISOString().split("T")[1].split(".")[0];
-      console.log(
-        `\n[${currentTime}] 📍 Processing ${i + 1}/${urlsToScrape.length}: ${
-          urlsToScrape[i]
-        }`
-      );
+    await scrapeUrlsWithPool(
+      scraper,
+      urlsToScrape,
+      async (result: PropertyTaskResult) => {
+        const i = result.index;
+        const currentTime = new Date()
+          .toISOString()
+          .split("T")[1]
+          .split(".")[0];
+        console.log(
+          `\n[${currentTime}] 📍 Property ${i + 1}/${urlsToScrape.length}: ${
+            result.url
+          }`
+        );
 
-      try {
-        const propertyStart = Date.now();
-        const propertyData = await scraper.scrapeProperty(urlsToScrape[i]);
-        const propertyTime = Date.now() - propertyStart;
+        if (!result.property) {
+          console.error(`Failed to scrape ${result.url}:`, result.error);
+          failures.record(toScrapeFailure(result.url, result.error));
+          return;
+        }
 
+        const propertyData = result.property;
         results.push(propertyData);
 
         // Log the individual property data with timing
         console.log(
           `✅ Property ${i + 1} scraped successfully in ${Math.round(
-            propertyTime / 1000
+            result.durationMs / 1000
           )}s`
         );
         console.log(`📊 Address: ${propertyData.ADDRESS || "N/A"}`);
@@ -108,42 +216,17 @@ export async function scrapeFromListingsPage(
             `⏳ Estimated time remaining: ${estimatedTimeLeft} minutes`
           );
         }
-
-        // Add delay between requests to be respectful
-        if (i < urlsToScrape.length - 1) {
-          console.log(
-            `⏳ Waiting ${
-              TimingConfig.PROPERTY_SCRAPING_DELAY / 1000
-            } seconds before next request...`
-          );
-          await new Promise((resolve) =>
-            setTimeout(resolve, TimingConfig.PROPERTY_SCRAPING_DELAY)
-          );
-        }
-      } catch (error) {
-        console.error(`Failed to scrape ${urlsToScrape[i]}:`, error);
-        // Add a placeholder for failed scrapes
-        results.push({
-          DATE: new Date().toLocaleDateString("en-GB"),
-          ADDRESS: "Error",
-          CITY: "Error",
-          STATE: "Error",
-          POSTAL: "Error",
-          AGENT: "Error",
-          BROKER: "Error",
-          PRICE: "Error",
-          LATITUDE: "Error",
-          LONGITUDE: "Error",
-        });
       }
-    }
+    );
 
-    console.log(`\n✅ Completed scraping ${results.length} properties`);
+    console.log(
+      `\n✅ Completed scraping ${results.length} properties (${failures.count} failed)`
+    );
   } finally {
     await scraper.close();
   }
 
-  return results;
+  return toScrapeResult(results, failures);
 }
 
 // Function to scrape from listings page with pagination support
@@ -151,10 +234,16 @@ export async function scrapeFromListingsPageWithPagination(
   listingPageUrl: string = ScrapingConfig.DEFAULT_LISTING_URL,
   headless: boolean = ScrapingConfig.HEADLESS_MODE,
   maxProperties: number = ScrapingConfig.MAX_PROPERTIES,
-  maxPages: number = ScrapingConfig.MAX_PAGES
-): Promise<PropertyData[]> {
-  const scraper = new RealtorCaScraper();
+  maxPages: number = ScrapingConfig.MAX_PAGES,
+  searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA
+): Promise<ScrapeResult> {
+  const scraper = new RealtorCaScraper(
+    listingPageUrl,
+    headless,
+    searchCriteria
+  );
   const results: PropertyData[] = [];
+  const failures = new FailureLog();
 
   try {
     await scraper.initialize();
@@ -165,7 +254,7 @@ export async function scrapeFromListingsPageWithPagination(
 
     if (propertyUrls.length === 0) {
       console.log("❌ No property URLs found on the listings pages");
-      return results;
+      return toScrapeResult(results, failures);
     }
 
     // Limit the number of properties to scrape
@@ -174,56 +263,38 @@ export async function scrapeFromListingsPageWithPagination(
       `📋 Step 2: Scraping ${urlsToScrape.length} properties from ${propertyUrls.length} total found...`
     );
 
-    // Scrape each property
-    for (let i = 0; i < urlsToScrape.length; i++) {
-      console.log(
-        `\n📍 Processing ${i + 1}/${urlsToScrape.length}: ${urlsToScrape[i]}`
-      );
-      try {
-        const propertyData = await scraper.scrapeProperty(urlsToScrape[i]);
-        results.push(propertyData);
+    // Scrape each property (in parallel when CONCURRENCY > 1)
+    await scrapeUrlsWithPool(
+      scraper,
+      urlsToScrape,
+      async (result: PropertyTaskResult) => {
+        const i = result.index;
+        console.log(
+          `\n📍 Property ${i + 1}/${urlsToScrape.length}: ${result.url}`
+        );
+
+        if (!result.property) {
+          console.error(`Failed to scrape ${result.url}:`, result.error);
+          failures.record(toScrapeFailure(result.url, result.error));
+          return;
+        }
+
+        results.push(result.property);
 
         // Log the individual property data
         console.log(`\n=== PROPERTY ${i + 1} DATA ===`);
-        console.table(propertyData);
-
-        // Add delay between requests to be respectful
-        if (i < urlsToScrape.length - 1) {
-          console.log(
-            `⏳ Waiting ${
-              TimingConfig.PROPERTY_SCRAPING_DELAY / 1000
-            } seconds before next request...`
-          );
-          await new Promise((resolve) =>
-            setTimeout(resolve, TimingConfig.PROPERTY_SCRAPING_DELAY)
-          );
-        }
-      } catch (error) {
-        console.error(`Failed to scrape ${urlsToScrape[i]}:`, error);
-        // Add a placeholder for failed scrapes
-        results.push({
-          DATE: new Date().toLocaleDateString("en-GB"),
-          ADDRESS: "Error",
-          CITY: "Error",
-          STATE: "Error",
-          POSTAL: "Error",
-          AGENT: "Error",
-          BROKER: "Error",
-          PRICE: "Error",
-          LATITUDE: "Error",
-          LONGITUDE: "Error",
-        });
+        console.table(result.property);
       }
-    }
+    );
 
     console.log(
-      `\n✅ Completed scraping ${results.length} properties with pagination`
+      `\n✅ Completed scraping ${results.length} properties with pagination (${failures.count} failed)`
     );
   } finally {
     await scraper.close();
   }
 
-  return results;
+  return toScrapeResult(results, failures);
 }
 
 // Memory-efficient function with dynamic Excel updates and temp file management
@@ -231,16 +302,35 @@ export async function scrapeFromListingsPageWithDynamicUpdates(
   listingPageUrl: string = ScrapingConfig.DEFAULT_LISTING_URL,
   headless: boolean = ScrapingConfig.HEADLESS_MODE,
   maxProperties: number = ScrapingConfig.MAX_PROPERTIES,
-  maxPages: number = ScrapingConfig.MAX_PAGES
-): Promise<PropertyData[]> {
-  const scraper = new RealtorCaScraper();
-  let propertiesProcessed = 0;
+  maxPages: number = ScrapingConfig.MAX_PAGES,
+  outputDir: string = ".",
+  searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA,
+  resume: boolean = false
+): Promise<ScrapeResult> {
+  const scraper = new RealtorCaScraper(
+    listingPageUrl,
+    headless,
+    searchCriteria
+  );
+  const checkpoint = RunCheckpoint.open(
+    outputDir,
+    listingPageUrl,
+    searchCriteria.transactionType,
+    resume
+  );
+  let propertiesProcessed = checkpoint.processedCount;
 
   try {
     await scraper.initialize();
 
     // Initialize dynamic Excel files (daily + master)
-    await initializeDynamicExcel();
+    const excelFiles = await initializeDynamicExcel(
+      outputDir,
+      searchCriteria.transactionType,
+      checkpoint.dailyFile
+    );
+    checkpoint.setOutputFiles(excelFiles.dailyFile, excelFiles.masterFile);
+    const failures = FailureLog.forDailyFile(excelFiles.dailyFile);
     console.log("📊 Dynamic Excel files initialized");
     console.log(
       "🧠 Memory-efficient system activated - data will be streamed to temp files"
@@ -252,29 +342,52 @@ export async function scrapeFromListingsPageWithDynamicUpdates(
 
     if (propertyUrls.length === 0) {
       console.log("❌ No property URLs found on the listings pages");
-      return [];
+      return toScrapeResult([], failures);
     }
 
-    // Limit the number of properties to scrape
-    const urlsToScrape = propertyUrls.slice(0, maxProperties);
+    // Limit the number of properties to scrape, leaving out URLs a resumed
+    // run already processed
+    const urlsToScrape = propertyUrls
+      .filter((url) => !checkpoint.has(url))
+      .slice(0, Math.max(maxProperties - checkpoint.processedCount, 0));
+    if (checkpoint.resumed) {
+      console.log(
+        `♻️  Resumed run ${checkpoint.runId}: skipping ${checkpoint.processedCount} properties already done`
+      );
+    }
     console.log(
       `📋 Step 2: Scraping ${urlsToScrape.length} properties from ${propertyUrls.length} total found...`
     );
     console.log(
-      "💾 Each property will be saved immediately to Excel + temp files for memory efficiency"
+      "💾 Properties will be saved to Excel in batches + temp files for memory efficiency"
     );
 
-    // Scrape each property with memory-efficient system
-    for (let i = 0; i < urlsToScrape.length; i++) {
-      console.log(
-        `\n📍 Processing ${i + 1}/${urlsToScrape.length}: ${urlsToScrape[i]}`
-      );
+    // Scrape each property with memory-efficient system (in parallel when
+    // CONCURRENCY > 1, saved in URL order)
+    await scrapeUrlsWithPool(
+      scraper,
+      urlsToScrape,
+      async (result: PropertyTaskResult) => {
+        const i = result.index;
+        console.log(
+          `\n📍 Property ${i + 1}/${urlsToScrape.length}: ${result.url}`
+        );
+
+        if (!result.property) {
+          console.error(`Failed to scrape ${result.url}:`, result.error);
+          // Logged instead of written, and left unprocessed so --resume
+          // retries it
+          failures.record(toScrapeFailure(result.url, result.error));
+          return;
+        }
 
-      try {
-        const propertyData = await scraper.scrapeProperty(urlsToScrape[i]);
+        const propertyData = result.property;
 
-        // 🚀 MEMORY-EFFICIENT UPDATE: Add to temp file system
-        await addPropertyToMemoryEfficientSystem(propertyData);
+        // 🚀 MEMORY-EFFICIENT UPDATE: Add to temp file system (checkpointed
+        // once its batch is written)
+        await addPropertyToMemoryEfficientSystem(propertyData, () =>
+          checkpoint.markProcessed(result.url)
+        );
         propertiesProcessed++;
 
         // Log the individual property data
@@ -288,47 +401,29 @@ export async function scrapeFromListingsPageWithDynamicUpdates(
             `\n🧠 Memory Stats: ${memStats.propertiesInMemory} in RAM, ${memStats.tempFilesCount} temp files, ~${memStats.estimatedMemoryMB}MB used`
           );
         }
-
-        // Add delay between requests to be respectful
-        if (i < urlsToScrape.length - 1) {
-          console.log(
-            `⏳ Waiting ${
-              TimingConfig.PROPERTY_SCRAPING_DELAY / 1000
-            } seconds before next request...`
-          );
-          await new Promise((resolve) =>
-            setTimeout(resolve, TimingConfig.PROPERTY_SCRAPING_DELAY)
-          );
-        }
-      } catch (error) {
-        console.error(`Failed to scrape ${urlsToScrape[i]}:`, error);
-        // Add a placeholder for failed scrapes (but don't store in memory array)
-        const errorProperty: PropertyData = {
-          DATE: new Date().toLocaleDateString("en-GB"),
-          ADDRESS: `Error-${i}`,
-          CITY: "Error",
-          STATE: "Error",
-          POSTAL: "Error",
-          AGENT: "Error",
-          BROKER: "Error",
-          PRICE: "Error",
-          LATITUDE: "Error",
-          LONGITUDE: "Error",
-        };
-        await addPropertyToMemoryEfficientSystem(errorProperty);
-        propertiesProcessed++;
       }
-    }
+    );
 
     console.log(
-      `\n✅ Completed scraping ${propertiesProcessed} properties with memory-efficient system`
+      `\n✅ Completed scraping ${propertiesProcessed} properties with memory-efficient system (${failures.count} failed)`
     );
 
     // Finalize Excel files
-    const { dailyFile, masterFile } = await finalizeDynamicExcel();
+    const { dailyFile, masterFile, changesFile, masterExport } =
+      await finalizeDynamicExcel(getCompleteSearch(scraper, searchCriteria));
+    finishCheckpoint(checkpoint);
     console.log(`\n📊 Files created/updated:`);
     console.log(`   📅 Daily file: ${dailyFile}`);
     console.log(`   📚 Master file: ${masterFile}`);
+    if (masterExport) {
+      console.log(`   📚 Master Excel export: ${masterExport}`);
+    }
+    if (failures.count > 0) {
+      console.log(`   📝 Failure log: ${failures.filename}`);
+    }
+    if (changesFile) {
+      console.log(`   📈 Market changes: ${changesFile}`);
+    }
 
     // Load all data from temp files for final return (if needed)
     console.log(
@@ -339,7 +434,7 @@ export async function scrapeFromListingsPageWithDynamicUpdates(
     // Cleanup temp files
     await cleanupTempFiles();
 
-    return allData;
+    return toScrapeResult(allData, failures);
   } finally {
     await scraper.close();
   }
@@ -350,16 +445,36 @@ export async function scrapeFromListingsPageUltraMemoryEfficient(
   listingPageUrl: string = ScrapingConfig.DEFAULT_LISTING_URL,
   headless: boolean = ScrapingConfig.HEADLESS_MODE,
   maxProperties: number = ScrapingConfig.MAX_PROPERTIES,
-  maxPages: number = ScrapingConfig.MAX_PAGES
-): Promise<{ totalProcessed: number; dailyFile: string; masterFile: string }> {
-  const scraper = new RealtorCaScraper();
-  let propertiesProcessed = 0;
+  maxPages: number = ScrapingConfig.MAX_PAGES,
+  outputDir: string = ".",
+  searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA,
+  resume: boolean = false
+): Promise<StreamedScrapeResult> {
+  const scraper = new RealtorCaScraper(
+    listingPageUrl,
+    headless,
+    searchCriteria
+  );
+  const checkpoint = RunCheckpoint.open(
+    outputDir,
+    listingPageUrl,
+    searchCriteria.transactionType,
+    resume
+  );
+  let propertiesProcessed = checkpoint.processedCount;
+  let succeeded = 0;
 
   try {
     await scraper.initialize();
 
     // Initialize dynamic Excel files (daily + master)
-    await initializeDynamicExcel();
+    const excelFiles = await initializeDynamicExcel(
+      outputDir,
+      searchCriteria.transactionType,
+      checkpoint.dailyFile
+    );
+    checkpoint.setOutputFiles(excelFiles.dailyFile, excelFiles.masterFile);
+    const failures = FailureLog.forDailyFile(excelFiles.dailyFile);
     console.log("📊 Dynamic Excel files initialized");
     console.log(
       "🚀 ULTRA MEMORY-EFFICIENT MODE: No data kept in memory - streaming directly to files"
@@ -371,11 +486,26 @@ export async function scrapeFromListingsPageUltraMemoryEfficient(
 
     if (propertyUrls.length === 0) {
       console.log("❌ No property URLs found on the listings pages");
-      return { totalProcessed: 0, dailyFile: "", masterFile: "" };
+      return {
+        totalProcessed: 0,
+        succeeded: 0,
+        failed: 0,
+        dailyFile: "",
+        masterFile: "",
+        interrupted: shutdown.requested,
+      };
     }
 
-    // Limit the number of properties to scrape
-    const urlsToScrape = propertyUrls.slice(0, maxProperties);
+    // Limit the number of properties to scrape, leaving out URLs a resumed
+    // run already processed
+    const urlsToScrape = propertyUrls
+      .filter((url) => !checkpoint.has(url))
+      .slice(0, Math.max(maxProperties - checkpoint.processedCount, 0));
+    if (checkpoint.resumed) {
+      console.log(
+        `♻️  Resumed run ${checkpoint.runId}: skipping ${checkpoint.processedCount} properties already done`
+      );
+    }
     console.log(
       `📋 Step 2: Scraping ${urlsToScrape.length} properties from ${propertyUrls.length} total found...`
     );
@@ -383,18 +513,33 @@ export async function scrapeFromListingsPageUltraMemoryEfficient(
       "💾 Each property streams directly to Excel files - ZERO memory accumulation"
     );
 
-    // Scrape each property with direct streaming (no memory storage)
-    for (let i = 0; i < urlsToScrape.length; i++) {
-      console.log(
-        `\n📍 Processing ${i + 1}/${urlsToScrape.length}: ${urlsToScrape[i]}`
-      );
+    // Scrape each property with direct streaming (no memory storage), in
+    // parallel when CONCURRENCY > 1 and written in URL order
+    await scrapeUrlsWithPool(
+      scraper,
+      urlsToScrape,
+      async (result: PropertyTaskResult) => {
+        const i = result.index;
+        console.log(
+          `\n📍 Property ${i + 1}/${urlsToScrape.length}: ${result.url}`
+        );
+
+        if (!result.property) {
+          console.error(`Failed to scrape ${result.url}:`, result.error);
+          // Logged instead of written, and left unprocessed so --resume
+          // retries it
+          failures.record(toScrapeFailure(result.url, result.error));
+          return;
+        }
 
-      try {
-        const propertyData = await scraper.scrapeProperty(urlsToScrape[i]);
+        const propertyData = result.property;
 
         // 🚀 DIRECT STREAM: Add directly to Excel files only (no memory storage)
-        await addPropertyToExcel(propertyData);
+        await addPropertyToExcel(propertyData, () =>
+          checkpoint.markProcessed(result.url)
+        );
         propertiesProcessed++;
+        succeeded++;
 
         // Log the individual property data
         console.log(`\n=== PROPERTY ${i + 1} DATA ===`);
@@ -409,55 +554,43 @@ export async function scrapeFromListingsPageUltraMemoryEfficient(
             `\n📊 Progress: ${propertiesProcessed} properties processed - Memory usage: MINIMAL`
           );
         }
-
-        // Add delay between requests to be respectful
-        if (i < urlsToScrape.length - 1) {
-          console.log(
-            `⏳ Waiting ${
-              TimingConfig.PROPERTY_SCRAPING_DELAY / 1000
-            } seconds before next request...`
-          );
-          await new Promise((resolve) =>
-            setTimeout(resolve, TimingConfig.PROPERTY_SCRAPING_DELAY)
-          );
-        }
-      } catch (error) {
-        console.error(`Failed to scrape ${urlsToScrape[i]}:`, error);
-        // Add a placeholder for failed scrapes (directly to Excel, no memory)
-        const errorProperty: PropertyData = {
-          DATE: new Date().toLocaleDateString("en-GB"),
-          ADDRESS: `Error-${i}`,
-          CITY: "Error",
-          STATE: "Error",
-          POSTAL: "Error",
-          AGENT: "Error",
-          BROKER: "Error",
-          PRICE: "Error",
-          LATITUDE: "Error",
-          LONGITUDE: "Error",
-        };
-        await addPropertyToExcel(errorProperty);
-        propertiesProcessed++;
       }
-    }
+    );
 
     console.log(
-      `\n✅ Completed scraping ${propertiesProcessed} properties with ULTRA memory-efficient streaming`
+      `\n✅ Completed scraping ${propertiesProcessed} properties with ULTRA memory-efficient streaming (${failures.count} failed)`
     );
 
     // Finalize Excel files
-    const { dailyFile, masterFile } = await finalizeDynamicExcel();
+    const { dailyFile, masterFile, changesFile, masterExport } =
+      await finalizeDynamicExcel(getCompleteSearch(scraper, searchCriteria));
+    finishCheckpoint(checkpoint);
     console.log(`\n📊 Files created/updated:`);
     console.log(`   📅 Daily file: ${dailyFile}`);
     console.log(`   📚 Master file: ${masterFile}`);
+    if (masterExport) {
+      console.log(`   📚 Master Excel export: ${masterExport}`);
+    }
+    if (failures.count > 0) {
+      console.log(`   📝 Failure log: ${failures.filename}`);
+    }
+    if (changesFile) {
+      console.log(`   📈 Market changes: ${changesFile}`);
+    }
     console.log(
       `\n🧠 Memory efficiency: NO data stored in memory - everything streamed directly to files`
     );
 
     return {
       totalProcessed: propertiesProcessed,
+      succeeded,
+      failed: failures.count,
       dailyFile,
       masterFile,
+      failureLog: failures.filename,
+      changesFile,
+      masterExport,
+      interrupted: shutdown.requested,
     };
   } finally {
     await scraper.close();
@@ -474,10 +607,16 @@ export async function scrapeFromListingsPageWithStreaming(
   headless: boolean = ScrapingConfig.HEADLESS_MODE,
   maxProperties: number = ScrapingConfig.MAX_PROPERTIES,
   maxPages: number = ScrapingConfig.MAX_PAGES,
-  onPropertyScraped?: PropertyStreamCallback
-): Promise<PropertyData[]> {
-  const scraper = new RealtorCaScraper();
+  onPropertyScraped?: PropertyStreamCallback,
+  searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA
+): Promise<ScrapeResult> {
+  const scraper = new RealtorCaScraper(
+    listingPageUrl,
+    headless,
+    searchCriteria
+  );
   const results: PropertyData[] = [];
+  const failures = new FailureLog();
   let processedCount = 0;
   const startTime = Date.now();
 
@@ -493,27 +632,22 @@ export async function scrapeFromListingsPageWithStreaming(
     console.log(`📍 Source: ${listingPageUrl}`);
     console.log("=========================\n");
 
-    // Start streaming URL extraction and property scraping
-    await scraper.streamPropertyScraping(
-      maxPages,
-      maxProperties,
-      async (propertyUrl: string, urlIndex: number, estimatedTotal: number) => {
-        if (processedCount >= maxProperties) {
-          return false; // Stop processing
-        }
-
-        const propertyStart = Date.now();
+    // Scraped properties are handled one at a time in the order their URLs
+    // were submitted, however many worker pages scrape them
+    const pool = new PropertyWorkerPool(
+      scraper,
+      async (result: PropertyTaskResult) => {
         const currentTime = new Date()
           .toISOString()
           .split("T")[1]
           .split(".")[0];
 
         console.log(
-          `\n[${currentTime}] 🏠 Processing Property ${
+          `\n[${currentTime}] 🏠 Property ${
             processedCount + 1
           }/${maxProperties}`
         );
-        console.log(`🔗 URL: ${propertyUrl}`);
+        console.log(`🔗 URL: ${result.url}`);
         console.log(
           `📊 Progress: ${(
             ((processedCount + 1) / maxProperties) *
@@ -521,98 +655,83 @@ export async function scrapeFromListingsPageWithStreaming(
           ).toFixed(1)}%`
         );
 
-        try {
-          // Scrape the property data
-          const propertyData = await scraper.scrapeProperty(propertyUrl);
-          const propertyTime = Date.now() - propertyStart;
-
-          // Add to results
-          results.push(propertyData);
-          processedCount++;
-
-          // Log success with details
-          console.log(
-            `✅ Property scraped in ${Math.round(propertyTime / 1000)}s`
-          );
-          console.log(`   📍 Address: ${propertyData.ADDRESS || "N/A"}`);
-          console.log(`   💰 Price: ${propertyData.PRICE || "N/A"}`);
-          console.log(`   🏙️  City: ${propertyData.CITY || "N/A"}`);
-
-          // Calculate performance metrics
-          const elapsed = Date.now() - startTime;
-          const avgTimePerProperty = elapsed / processedCount;
-          const remaining = maxProperties - processedCount;
-          const estimatedTimeLeft = Math.round(
-            (remaining * avgTimePerProperty) / 1000 / 60
-          );
-
-          if (remaining > 0) {
-            console.log(
-              `⏳ Estimated time remaining: ${estimatedTimeLeft} minutes`
-            );
-            console.log(
-              `⚡ Average speed: ${(
-                (processedCount / (elapsed / 1000)) *
-                60
-              ).toFixed(1)} properties/hour`
-            );
-          }
-
-          // Call custom callback if provided
-          if (onPropertyScraped) {
-            await onPropertyScraped(
-              propertyData,
-              processedCount,
-              maxProperties
-            );
-          }
-
-          // Rate limiting delay
-          if (processedCount < maxProperties) {
-            console.log(
-              `⏳ Rate limiting delay: ${
-                TimingConfig.PROPERTY_SCRAPING_DELAY / 1000
-              }s`
-            );
-            await new Promise((resolve) =>
-              setTimeout(resolve, TimingConfig.PROPERTY_SCRAPING_DELAY)
-            );
-          }
-
-          return true; // Continue processing
-        } catch (error) {
+        if (!result.property) {
           console.error(
             `❌ Failed to scrape property ${processedCount + 1}:`,
-            error
+            result.error
           );
-          console.log(`🔗 Problem URL: ${propertyUrl}`);
+          console.log(`🔗 Problem URL: ${result.url}`);
           console.log(`💡 Continuing with next property...`);
 
-          // Add error placeholder
-          results.push({
-            DATE: new Date().toLocaleDateString("en-GB"),
-            ADDRESS: `SCRAPING_ERROR_${processedCount + 1}`,
-            CITY: "Error",
-            STATE: "Error",
-            POSTAL: "Error",
-            AGENT: "Error",
-            BROKER: "Error",
-            PRICE: "Error",
-            LATITUDE: "Error",
-            LONGITUDE: "Error",
-          });
+          failures.record(toScrapeFailure(result.url, result.error));
           processedCount++;
+          return;
+        }
+
+        const propertyData = result.property;
+
+        // Add to results
+        results.push(propertyData);
+        processedCount++;
+
+        // Log success with details
+        console.log(
+          `✅ Property scraped in ${Math.round(result.durationMs / 1000)}s`
+        );
+        console.log(`   📍 Address: ${propertyData.ADDRESS || "N/A"}`);
+        console.log(`   💰 Price: ${propertyData.PRICE || "N/A"}`);
+        console.log(`   🏙️  City: ${propertyData.CITY || "N/A"}`);
+
+        // Calculate performance metrics
+        const elapsed = Date.now() - startTime;
+        const avgTimePerProperty = elapsed / processedCount;
+        const remaining = maxProperties - processedCount;
+        const estimatedTimeLeft = Math.round(
+          (remaining * avgTimePerProperty) / 1000 / 60
+        );
 
-          return true; // Continue despite error
+        if (remaining > 0) {
+          console.log(
+            `⏳ Estimated time remaining: ${estimatedTimeLeft} minutes`
+          );
+          console.log(
+            `⚡ Average speed: ${(
+              (processedCount / (elapsed / 1000)) *
+              60
+            ).toFixed(1)} properties/hour`
+          );
+        }
+
+        // Call custom callback if provided
+        if (onPropertyScraped) {
+          await onPropertyScraped(propertyData, processedCount, maxProperties);
         }
       }
     );
 
+    try {
+      await pool.initialize();
+
+      // Start streaming URL extraction: every discovered URL goes straight to
+      // the pool
+      await scraper.streamPropertyScraping(
+        maxPages,
+        maxProperties,
+        async (propertyUrl: string) => {
+          await pool.submit(propertyUrl);
+          return true;
+        }
+      );
+      await pool.drain();
+    } finally {
+      await pool.close();
+    }
+
     const totalTime = Date.now() - startTime;
     console.log("\n🎉 STREAMING PIPELINE COMPLETED");
     console.log("===============================");
     console.log(
-      `✅ Status: Successfully processed ${processedCount} properties`
+      `✅ Status: Successfully processed ${results.length} properties (${failures.count} failed)`
     );
     console.log(`⏱️  Total time: ${Math.round(totalTime / 1000)}s`);
     console.log(
@@ -622,7 +741,7 @@ export async function scrapeFromListingsPageWithStreaming(
     );
     console.log(`💾 Results ready for export`);
 
-    return results;
+    return toScrapeResult(results, failures);
   } catch (error) {
     console.error("❌ Streaming pipeline error:", error);
     throw error;
@@ -639,17 +758,37 @@ export async function scrapeFromListingsPageWithUltraStreaming(
   listingPageUrl: string = ScrapingConfig.DEFAULT_LISTING_URL,
   headless: boolean = ScrapingConfig.HEADLESS_MODE,
   maxProperties: number = ScrapingConfig.MAX_PROPERTIES,
-  maxPages: number = ScrapingConfig.MAX_PAGES
-): Promise<{ totalProcessed: number; dailyFile: string; masterFile: string }> {
-  const scraper = new RealtorCaScraper();
-  let processedCount = 0;
+  maxPages: number = ScrapingConfig.MAX_PAGES,
+  outputDir: string = ".",
+  searchCriteria: SearchCriteria = ScrapingConfig.SEARCH_CRITERIA,
+  resume: boolean = false
+): Promise<StreamedScrapeResult> {
+  const scraper = new RealtorCaScraper(
+    listingPageUrl,
+    headless,
+    searchCriteria
+  );
+  const checkpoint = RunCheckpoint.open(
+    outputDir,
+    listingPageUrl,
+    searchCriteria.transactionType,
+    resume
+  );
+  let processedCount = checkpoint.processedCount;
+  let succeeded = 0;
   const startTime = Date.now();
 
   try {
     await scraper.initialize();
 
     // Initialize Excel files for streaming
-    const { dailyFile, masterFile } = await initializeDynamicExcel();
+    const { dailyFile, masterFile } = await initializeDynamicExcel(
+      outputDir,
+      searchCriteria.transactionType,
+      checkpoint.dailyFile
+    );
+    checkpoint.setOutputFiles(dailyFile, masterFile);
+    const failures = FailureLog.forDailyFile(dailyFile);
 
     console.log("🚀 ULTRA STREAMING MODE");
     console.log("=======================");
@@ -659,18 +798,18 @@ export async function scrapeFromListingsPageWithUltraStreaming(
       `🎯 Target: ${maxProperties} properties from ${maxPages} pages`
     );
     console.log(`📁 Output: ${dailyFile} | ${masterFile}`);
+    if (checkpoint.resumed) {
+      console.log(
+        `♻️  Resumed run ${checkpoint.runId}: ${processedCount} properties already done`
+      );
+    }
     console.log("=======================\n");
 
-    // Start ultra streaming
-    await scraper.streamPropertyScraping(
-      maxPages,
-      maxProperties,
-      async (propertyUrl: string, urlIndex: number, estimatedTotal: number) => {
-        if (processedCount >= maxProperties) {
-          return false;
-        }
-
-        const propertyStart = Date.now();
+    // Scraped properties are streamed to Excel one at a time in the order
+    // their URLs were submitted, however many worker pages scrape them
+    const pool = new PropertyWorkerPool(
+      scraper,
+      async (result: PropertyTaskResult) => {
         const currentTime = new Date()
           .toISOString()
           .split("T")[1]
@@ -681,80 +820,112 @@ export async function scrapeFromListingsPageWithUltraStreaming(
             processedCount + 1
           }/${maxProperties}`
         );
-        console.log(`🔗 ${propertyUrl}`);
+        console.log(`🔗 ${result.url}`);
 
-        try {
-          // Scrape property data
-          const propertyData = await scraper.scrapeProperty(propertyUrl);
-          const propertyTime = Date.now() - propertyStart;
+        if (!result.property) {
+          console.error(
+            `❌ Error streaming property ${processedCount + 1}:`,
+            result.error
+          );
 
-          // Immediately stream to Excel files
-          await addPropertyToExcel(propertyData);
+          // Logged instead of written, and left unprocessed so --resume
+          // retries it
+          failures.record(toScrapeFailure(result.url, result.error));
           processedCount++;
+          return;
+        }
 
-          console.log(
-            `✅ Streamed to Excel in ${Math.round(propertyTime / 1000)}s`
-          );
-          console.log(
-            `📊 ${propertyData.ADDRESS || "N/A"} | ${
-              propertyData.PRICE || "N/A"
-            }`
-          );
+        const propertyData = result.property;
 
-          // Show progress
-          const elapsed = Date.now() - startTime;
-          const rate = ((processedCount / (elapsed / 1000)) * 60).toFixed(1);
-          console.log(
-            `⚡ Rate: ${rate} properties/hour | Progress: ${(
-              (processedCount / maxProperties) *
-              100
-            ).toFixed(1)}%`
-          );
+        // Immediately stream to Excel files
+        await addPropertyToExcel(propertyData, () =>
+          checkpoint.markProcessed(result.url, result.page)
+        );
+        processedCount++;
+        succeeded++;
 
-          return true;
-        } catch (error) {
-          console.error(
-            `❌ Error streaming property ${processedCount + 1}:`,
-            error
-          );
+        console.log(
+          `✅ Streamed to Excel in ${Math.round(result.durationMs / 1000)}s`
+        );
+        console.log(
+          `📊 ${propertyData.ADDRESS || "N/A"} | ${propertyData.PRICE || "N/A"}`
+        );
 
-          // Stream error record to Excel
-          const errorRecord = {
-            DATE: new Date().toLocaleDateString("en-GB"),
-            ADDRESS: `STREAMING_ERROR_${processedCount + 1}`,
-            CITY: "Error",
-            STATE: "Error",
-            POSTAL: "Error",
-            AGENT: "Error",
-            BROKER: "Error",
-            PRICE: "Error",
-            LATITUDE: "Error",
-            LONGITUDE: "Error",
-          };
-
-          await addPropertyToExcel(errorRecord);
-          processedCount++;
+        // Show progress
+        const elapsed = Date.now() - startTime;
+        const rate = ((processedCount / (elapsed / 1000)) * 60).toFixed(1);
+        console.log(
+          `⚡ Rate: ${rate} properties/hour | Progress: ${(
+            (processedCount / maxProperties) *
+            100
+          ).toFixed(1)}%`
+        );
+      }
+    );
 
+    try {
+      await pool.initialize();
+
+      // Start ultra streaming: every discovered URL goes straight to the pool
+      // (skipping URLs a resumed run already processed)
+      await scraper.streamPropertyScraping(
+        maxPages,
+        maxProperties - processedCount,
+        async (
+          propertyUrl: string,
+          urlIndex: number,
+          estimatedTotal: number,
+          page: number
+        ) => {
+          await pool.submit(propertyUrl, page);
           return true;
+        },
+        {
+          startPage: checkpoint.currentPage,
+          skipUrls: checkpoint.processedUrls,
         }
-      }
-    );
+      );
+      await pool.drain();
+    } finally {
+      await pool.close();
+    }
 
     // Finalize Excel files
-    await finalizeDynamicExcel();
+    const { changesFile, masterExport } = await finalizeDynamicExcel(
+      getCompleteSearch(scraper, searchCriteria)
+    );
+    const totalProcessed = checkpoint.processedCount;
+    finishCheckpoint(checkpoint);
 
     const totalTime = Date.now() - startTime;
     console.log("\n🎉 ULTRA STREAMING COMPLETED");
     console.log("============================");
-    console.log(`✅ Processed: ${processedCount} properties`);
+    console.log(
+      `✅ Processed: ${totalProcessed} properties (${failures.count} failed)`
+    );
     console.log(`⏱️  Duration: ${Math.round(totalTime / 1000)}s`);
     console.log(`📁 Files: ${dailyFile} | ${masterFile}`);
+    if (masterExport) {
+      console.log(`📚 Master Excel export: ${masterExport}`);
+    }
+    if (failures.count > 0) {
+      console.log(`📝 Failure log: ${failures.filename}`);
+    }
+    if (changesFile) {
+      console.log(`📈 Market changes: ${changesFile}`);
+    }
     console.log(`🧠 Memory used: MINIMAL (no data accumulation)`);
 
     return {
-      totalProcessed: processedCount,
+      totalProcessed,
+      succeeded,
+      failed: failures.count,
       dailyFile,
       masterFile,
+      failureLog: failures.filename,
+      changesFile,
+      masterExport,
+      interrupted: shutdown.requested,
     };
   } catch (error) {
     console.error("❌ Ultra streaming error:", error);
@@ -0,0 +1,111 @@
+import { test, expect } from "@playwright/test";
+import * as ExcelJS from "exceljs";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  BackupManager,
+  MasterBackup,
+  selectBackupsToKeep,
+} from "../src/backups";
+
+/**
+ * Retention of master workbook backups and restores that refuse damaged ones
+ */
+const NOW = new Date("2025-09-30T12:00:00.000Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+function backupAged(hours: number): MasterBackup {
+  return {
+    filename: `backup-${hours}h.xlsx`,
+    createdAt: new Date(NOW.getTime() - hours * HOUR_MS),
+    sizeBytes: 0,
+    managed: true,
+  };
+}
+
+async function writeWorkbook(filename: string, mlsNumber: string) {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet("Listings");
+  worksheet.addRow(["DATE", "MLS", "ADDRESS", "CITY", "PRICE"]);
+  worksheet.addRow(["2025-09-30", mlsNumber, "1 Main St", "Toronto", "$1"]);
+  await workbook.xlsx.writeFile(filename);
+}
+
+async function readMlsNumber(filename: string): Promise<unknown> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filename);
+  return workbook.worksheets[0].getRow(2).getCell(2).value;
+}
+
+test("keeps the newest backups and one per day and week", () => {
+  // Every 6 hours over 5 weeks
+  const backups = Array.from({ length: 140 }, (_, i) => backupAged(i * 6));
+  const keep = selectBackupsToKeep(
+    backups,
+    { keepLast: 3, dailyDays: 2, weeklyWeeks: 3 },
+    NOW
+  );
+
+  expect([...keep].map((backup) => backup.filename).sort()).toEqual(
+    [0, 6, 12, 24, 168, 336].map((hours) => `backup-${hours}h.xlsx`).sort()
+  );
+});
+
+test.describe("restore", () => {
+  let workDir: string;
+  let workbook: string;
+  let manager: BackupManager;
+
+  test.beforeEach(async () => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "realtor-backups-"));
+    workbook = path.join(workDir, "master-listings.xlsx");
+    manager = new BackupManager(path.join(workDir, "backups"), {
+      keepLast: 10,
+      dailyDays: 0,
+      weeklyWeeks: 0,
+    });
+    await writeWorkbook(workbook, "C1000001");
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test("swaps in the backup and keeps the replaced workbook", async () => {
+    const backup = manager.create(workbook);
+    await writeWorkbook(workbook, "C2000002");
+    // Backups are named to the millisecond
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const result = await manager.restore(workbook);
+
+    expect(result.status).toBe("restored");
+    expect(result.backup).toBe(backup.filename);
+    expect(await readMlsNumber(workbook)).toBe("C1000001");
+    expect(manager.list(workbook)).toHaveLength(2);
+    expect(await readMlsNumber(manager.list(workbook)[0].filename)).toBe(
+      "C2000002"
+    );
+  });
+
+  test("refuses a backup that fails its checksum", async () => {
+    const backup = manager.create(workbook);
+    fs.appendFileSync(backup.filename, "damaged");
+
+    const result = await manager.restore(workbook);
+
+    expect(manager.verifyChecksum(backup.filename)).toBe(false);
+    expect(result.status).toBe("invalid");
+    expect(manager.list(workbook)).toHaveLength(1);
+  });
+
+  test("reports a missing backup", async () => {
+    const result = await manager.restore(
+      workbook,
+      path.join(workDir, "backup-missing.xlsx")
+    );
+
+    expect(result.status).toBe("not-found");
+  });
+});
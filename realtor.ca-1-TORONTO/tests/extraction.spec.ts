@@ -0,0 +1,74 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as path from "path";
+import { RealtorCaScraper, ExtendedPropertyData } from "../src/scraper";
+import { ScrapingConfig, TransactionType } from "../src/config";
+
+/**
+ * Each fixture is a saved listing page (<name>.html) and <name>.json with the
+ * listing URL, its transaction type and the expected extraction result.
+ * Capture new fixtures with `npm run capture-fixtures`; a fixture without
+ * "expected" gets it written by its first run (which then fails, so the
+ * result is reviewed). UPDATE_FIXTURES=1 rewrites every "expected" after an
+ * intended change.
+ */
+interface Fixture {
+  url: string;
+  transactionType: TransactionType;
+  expected?: Partial<ExtendedPropertyData>;
+}
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+const UPDATE_FIXTURES = process.env.UPDATE_FIXTURES === "1";
+
+const fixtureNames = fs
+  .readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith(".html"))
+  .map((file) => path.basename(file, ".html"))
+  .sort();
+
+for (const name of fixtureNames) {
+  test(`extracts ${name}`, async ({ page }) => {
+    const fixturePath = path.join(FIXTURES_DIR, `${name}.json`);
+    const fixture: Fixture = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+    const html = fs.readFileSync(
+      path.join(FIXTURES_DIR, `${name}.html`),
+      "utf8"
+    );
+
+    // Images, scripts and stylesheets of the saved page are never fetched
+    await page.route("**/*", (route) => route.abort());
+    await page.setContent(html, { waitUntil: "domcontentloaded" });
+
+    const scraper = new RealtorCaScraper(
+      ScrapingConfig.DEFAULT_LISTING_URL,
+      true,
+      { transactionType: fixture.transactionType }
+    );
+    scraper.attachPage(page);
+    // DATE is the day of the run
+    const { DATE, ...actual } = await scraper.extractLoadedProperty(
+      fixture.url
+    );
+
+    if (UPDATE_FIXTURES || !fixture.expected) {
+      const hadExpected = !!fixture.expected;
+      fixture.expected = actual;
+      fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + "\n");
+      expect(
+        hadExpected || UPDATE_FIXTURES,
+        `wrote the expected data of ${name}.json, review it and run again`
+      ).toBe(true);
+      return;
+    }
+
+    // One assertion per column, so a markup change names the broken columns
+    const expected = fixture.expected as { [field: string]: unknown };
+    const fields = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const field of fields) {
+      expect
+        .soft((actual as { [field: string]: unknown })[field], field)
+        .toEqual(expected[field]);
+    }
+  });
+}
@@ -0,0 +1,80 @@
+import { test, expect } from "@playwright/test";
+import * as ExcelJS from "exceljs";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ScrapingConfig } from "../src/config";
+import { GeoIdRegistry } from "../src/geoid-registry";
+import { MockRealtorServer, getMockCityConfig } from "../src/mock-server";
+import { scrapeFromListingsPageWithUltraStreaming } from "../src/workflow";
+
+/**
+ * A run recorded against the mock server is re-scraped from its HAR files
+ * after the server is gone, with the same result
+ */
+const LISTINGS = 8;
+const RUN_ID = "recorded";
+
+async function readRows(workbookFile: string): Promise<unknown[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(workbookFile);
+  const rows: unknown[] = [];
+  // DATE (column 1) is the day of the run
+  workbook.worksheets[0].eachRow((row) =>
+    rows.push((row.values as ExcelJS.CellValue[]).slice(2))
+  );
+  return rows;
+}
+
+test("replays a recorded run without network", async () => {
+  test.setTimeout(5 * 60 * 1000);
+
+  const server = new MockRealtorServer({ listingsPerCity: LISTINGS });
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "realtor-har-"));
+  const savedConfig = { ...ScrapingConfig };
+
+  try {
+    const baseUrl = await server.start();
+    const cityUrl = `${baseUrl}/on/toronto/real-estate`;
+
+    ScrapingConfig.SITE_BASE_URL = baseUrl;
+    ScrapingConfig.API_BASE_URL = baseUrl;
+    ScrapingConfig.GEOID_REGISTRY_FILE = path.join(workDir, "registry.json");
+    ScrapingConfig.MAX_REQUESTS_PER_MINUTE = 0;
+    ScrapingConfig.HAR_DIR = path.join(workDir, "har");
+    ScrapingConfig.HAR_RUN_ID = RUN_ID;
+    new GeoIdRegistry().set(getMockCityConfig(cityUrl)!);
+
+    ScrapingConfig.HAR_MODE = "record";
+    const recorded = await scrapeFromListingsPageWithUltraStreaming(
+      cityUrl,
+      true,
+      LISTINGS,
+      1,
+      path.join(workDir, "recorded")
+    );
+    expect(recorded.succeeded).toBe(LISTINGS);
+    expect(fs.readdirSync(path.join(workDir, "har", RUN_ID))).toContain(
+      "scraper-on-toronto.har"
+    );
+
+    await server.stop();
+
+    ScrapingConfig.HAR_MODE = "replay";
+    const replayed = await scrapeFromListingsPageWithUltraStreaming(
+      cityUrl,
+      true,
+      LISTINGS,
+      1,
+      path.join(workDir, "replayed")
+    );
+    expect(replayed.succeeded).toBe(LISTINGS);
+    expect(await readRows(replayed.dailyFile)).toEqual(
+      await readRows(recorded.dailyFile)
+    );
+  } finally {
+    Object.assign(ScrapingConfig, savedConfig);
+    await server.stop();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,78 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ScrapingConfig, setTimeoutMode } from "../src/config";
+import { GeoIdRegistry } from "../src/geoid-registry";
+import {
+  MockRealtorServer,
+  MockScenario,
+  getMockCityConfig,
+} from "../src/mock-server";
+import { scrapeFromListingsPageWithUltraStreaming } from "../src/workflow";
+
+/**
+ * End-to-end streamed runs against the local mock server: API pagination,
+ * detail pages and Excel output, without network. The city is pinned in a
+ * temporary GeoId registry so no browser GeoId discovery runs.
+ */
+const LISTINGS = 15;
+const MAX_PAGES = 2;
+
+async function runAgainstMock(scenario: MockScenario) {
+  const server = new MockRealtorServer({ scenario, listingsPerCity: LISTINGS });
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "realtor-mock-"));
+  const savedConfig = { ...ScrapingConfig };
+
+  try {
+    const baseUrl = await server.start();
+    const cityUrl = `${baseUrl}/on/toronto/real-estate`;
+
+    ScrapingConfig.SITE_BASE_URL = baseUrl;
+    ScrapingConfig.API_BASE_URL = baseUrl;
+    ScrapingConfig.GEOID_REGISTRY_FILE = path.join(workDir, "registry.json");
+    ScrapingConfig.MAX_REQUESTS_PER_MINUTE = 0;
+    setTimeoutMode("fast");
+    new GeoIdRegistry().set(getMockCityConfig(cityUrl)!);
+
+    const result = await scrapeFromListingsPageWithUltraStreaming(
+      cityUrl,
+      true,
+      LISTINGS,
+      MAX_PAGES,
+      workDir
+    );
+    return { result, server };
+  } finally {
+    Object.assign(ScrapingConfig, savedConfig);
+    await server.stop();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+test.describe("streamed run against the mock server", () => {
+  test.setTimeout(5 * 60 * 1000);
+
+  test("scrapes every listing", async () => {
+    const { result, server } = await runAgainstMock("normal");
+
+    expect(result.succeeded).toBe(LISTINGS);
+    expect(result.failed).toBe(0);
+    expect(result.interrupted).toBe(false);
+    expect(
+      server.requests.filter((request) => request.method === "POST").length
+    ).toBeGreaterThanOrEqual(MAX_PAGES);
+  });
+
+  test("completes despite failing API and detail pages", async () => {
+    const { result, server } = await runAgainstMock("errors");
+    const statuses = server.requests.map((request) => request.status);
+
+    expect(statuses).toContain(503);
+    expect(statuses).toContain(500);
+    expect(result.interrupted).toBe(false);
+    expect(result.succeeded).toBeGreaterThan(0);
+    // Detail pages served as 500 are logged as failures, not written as rows
+    expect(result.failed).toBeGreaterThan(0);
+  });
+});